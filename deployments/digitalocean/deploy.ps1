@@ -99,10 +99,21 @@ Set-Location $repoRoot
 
 $config = Load-Config $ConfigPath
 $doAccessToken = Get-Setting $config 'DO_ACCESS_TOKEN' $null -Required
-$aftershipKey = Get-Setting $config 'VITE_AFTERSHIP_API_KEY' $null -Required
-$metabaseSiteUrl = Get-Setting $config 'VITE_METABASE_SITE_URL' $null
-$metabaseSecretKey = Get-Setting $config 'VITE_METABASE_SECRET_KEY' $null
-$metabaseQuestionId = Get-Setting $config 'VITE_METABASE_QUESTION_ID' $null
+# Older configs used VITE_-prefixed Metabase settings; they are now read by the backend only
+$metabaseSiteUrl = Get-Setting $config 'METABASE_SITE_URL' (Get-Setting $config 'VITE_METABASE_SITE_URL' $null)
+$metabaseSecretKey = Get-Setting $config 'METABASE_SECRET_KEY' (Get-Setting $config 'VITE_METABASE_SECRET_KEY' $null)
+$metabaseQuestionId = Get-Setting $config 'METABASE_QUESTION_ID' (Get-Setting $config 'VITE_METABASE_QUESTION_ID' $null)
+# Likewise the AfterShip key, which the backend now uses to look up live tracking
+$aftershipKey = Get-Setting $config 'AFTERSHIP_API_KEY' (Get-Setting $config 'VITE_AFTERSHIP_API_KEY' $null)
+$oidcIssuer = Get-Setting $config 'OIDC_ISSUER' $null
+$oidcClientId = Get-Setting $config 'OIDC_CLIENT_ID' $null
+$oidcAudience = Get-Setting $config 'OIDC_AUDIENCE' $null
+$allowAnonymousAccess = Get-Setting $config 'ALLOW_ANONYMOUS_ACCESS' 'false'
+$calendarFeedSecret = Get-Setting $config 'CALENDAR_FEED_SECRET' $null
+
+if ($oidcIssuer -and -not $oidcAudience) {
+  throw 'OIDC_AUDIENCE is required when OIDC_ISSUER is set'
+}
 $appName = Get-Setting $config 'DO_APP_NAME' 'cursor-test-project'
 $region = Get-Setting $config 'DO_REGION' 'nyc'
 $githubRepo = Get-Setting $config 'DO_GITHUB_REPO' $null -Required
@@ -124,10 +135,15 @@ $specGenerated = Join-Path $PSScriptRoot 'digitalocean-app-spec.generated.yaml'
 $replacements = @{
   '__APP_NAME__' = $appName
   '__REGION__' = $region
-  '__VITE_AFTERSHIP_API_KEY__' = $aftershipKey
-  '__VITE_METABASE_SITE_URL__' = if ($metabaseSiteUrl) { $metabaseSiteUrl } else { '' }
-  '__VITE_METABASE_SECRET_KEY__' = if ($metabaseSecretKey) { $metabaseSecretKey } else { '' }
-  '__VITE_METABASE_QUESTION_ID__' = if ($metabaseQuestionId) { $metabaseQuestionId } else { '' }
+  '__AFTERSHIP_API_KEY__' = if ($aftershipKey) { $aftershipKey } else { '' }
+  '__METABASE_SITE_URL__' = if ($metabaseSiteUrl) { $metabaseSiteUrl } else { '' }
+  '__METABASE_SECRET_KEY__' = if ($metabaseSecretKey) { $metabaseSecretKey } else { '' }
+  '__METABASE_QUESTION_ID__' = if ($metabaseQuestionId) { $metabaseQuestionId } else { '' }
+  '__OIDC_ISSUER__' = if ($oidcIssuer) { $oidcIssuer } else { '' }
+  '__OIDC_CLIENT_ID__' = if ($oidcClientId) { $oidcClientId } else { '' }
+  '__OIDC_AUDIENCE__' = if ($oidcAudience) { $oidcAudience } else { '' }
+  '__ALLOW_ANONYMOUS_ACCESS__' = $allowAnonymousAccess
+  '__CALENDAR_FEED_SECRET__' = if ($calendarFeedSecret) { $calendarFeedSecret } else { '' }
   '__GITHUB_REPO__' = $githubRepo
   '__GITHUB_BRANCH__' = $githubBranch
 }
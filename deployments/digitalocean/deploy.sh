@@ -115,6 +115,14 @@ generate_spec() {
   local aftership_key="$5"
   local github_repo="$6"
   local github_branch="$7"
+  local metabase_site_url="$8"
+  local metabase_secret_key="$9"
+  local metabase_question_id="${10}"
+  local oidc_issuer="${11}"
+  local oidc_client_id="${12}"
+  local oidc_audience="${13}"
+  local allow_anonymous_access="${14}"
+  local calendar_feed_secret="${15}"
 
   if [[ ! -f "$template" ]]; then
     printf 'Spec template not found at %s\n' "$template" >&2
@@ -124,9 +132,17 @@ generate_spec() {
   sed \
     -e "s|__APP_NAME__|${app_name}|g" \
     -e "s|__REGION__|${region}|g" \
-    -e "s|__VITE_AFTERSHIP_API_KEY__|${aftership_key}|g" \
+    -e "s|__AFTERSHIP_API_KEY__|${aftership_key}|g" \
     -e "s|__GITHUB_REPO__|${github_repo}|g" \
     -e "s|__GITHUB_BRANCH__|${github_branch}|g" \
+    -e "s|__METABASE_SITE_URL__|${metabase_site_url}|g" \
+    -e "s|__METABASE_SECRET_KEY__|${metabase_secret_key}|g" \
+    -e "s|__METABASE_QUESTION_ID__|${metabase_question_id}|g" \
+    -e "s|__OIDC_ISSUER__|${oidc_issuer}|g" \
+    -e "s|__OIDC_CLIENT_ID__|${oidc_client_id}|g" \
+    -e "s|__OIDC_AUDIENCE__|${oidc_audience}|g" \
+    -e "s|__ALLOW_ANONYMOUS_ACCESS__|${allow_anonymous_access}|g" \
+    -e "s|__CALENDAR_FEED_SECRET__|${calendar_feed_secret}|g" \
     "$template" > "$output"
 
   info "Generated spec file at $output"
@@ -135,11 +151,26 @@ generate_spec() {
 load_config "$CONFIG_PATH"
 
 DO_ACCESS_TOKEN="$(get_setting 'DO_ACCESS_TOKEN' '' 'required')"
-VITE_AFTERSHIP_API_KEY="$(get_setting 'VITE_AFTERSHIP_API_KEY' '' 'required')"
 DO_APP_NAME="$(get_setting 'DO_APP_NAME' 'cursor-test-project')"
 DO_REGION="$(get_setting 'DO_REGION' 'nyc')"
 DO_GITHUB_REPO="$(get_setting 'DO_GITHUB_REPO' '' 'required')"
 DO_GITHUB_BRANCH="$(get_setting 'DO_GITHUB_BRANCH' 'main')"
+# Older configs used VITE_-prefixed Metabase settings; they are now read by the backend only
+METABASE_SITE_URL="$(get_setting 'METABASE_SITE_URL' "$(get_setting 'VITE_METABASE_SITE_URL')")"
+METABASE_SECRET_KEY="$(get_setting 'METABASE_SECRET_KEY' "$(get_setting 'VITE_METABASE_SECRET_KEY')")"
+METABASE_QUESTION_ID="$(get_setting 'METABASE_QUESTION_ID' "$(get_setting 'VITE_METABASE_QUESTION_ID')")"
+# Likewise the AfterShip key, which the backend now uses to look up live tracking
+AFTERSHIP_API_KEY="$(get_setting 'AFTERSHIP_API_KEY' "$(get_setting 'VITE_AFTERSHIP_API_KEY')")"
+OIDC_ISSUER="$(get_setting 'OIDC_ISSUER')"
+OIDC_CLIENT_ID="$(get_setting 'OIDC_CLIENT_ID')"
+OIDC_AUDIENCE="$(get_setting 'OIDC_AUDIENCE')"
+ALLOW_ANONYMOUS_ACCESS="$(get_setting 'ALLOW_ANONYMOUS_ACCESS' 'false')"
+CALENDAR_FEED_SECRET="$(get_setting 'CALENDAR_FEED_SECRET')"
+
+if [[ -n "$OIDC_ISSUER" && -z "$OIDC_AUDIENCE" ]]; then
+  printf 'OIDC_AUDIENCE is required when OIDC_ISSUER is set\n' >&2
+  exit 1
+fi
 
 export DIGITALOCEAN_ACCESS_TOKEN="$DO_ACCESS_TOKEN"
 
@@ -157,7 +188,9 @@ SPEC_TEMPLATE="$SCRIPT_DIR/digitalocean-app-spec.template.yaml"
 SPEC_GENERATED="$SCRIPT_DIR/digitalocean-app-spec.generated.yaml"
 APP_ID_FILE="$SCRIPT_DIR/.do-app-id"
 
-generate_spec "$SPEC_TEMPLATE" "$SPEC_GENERATED" "$DO_APP_NAME" "$DO_REGION" "$VITE_AFTERSHIP_API_KEY" "$DO_GITHUB_REPO" "$DO_GITHUB_BRANCH"
+generate_spec "$SPEC_TEMPLATE" "$SPEC_GENERATED" "$DO_APP_NAME" "$DO_REGION" "$AFTERSHIP_API_KEY" "$DO_GITHUB_REPO" "$DO_GITHUB_BRANCH" \
+  "$METABASE_SITE_URL" "$METABASE_SECRET_KEY" "$METABASE_QUESTION_ID" \
+  "$OIDC_ISSUER" "$OIDC_CLIENT_ID" "$OIDC_AUDIENCE" "$ALLOW_ANONYMOUS_ACCESS" "$CALENDAR_FEED_SECRET"
 
 if [[ -f "$APP_ID_FILE" ]]; then
   APP_ID="$(head -n 1 "$APP_ID_FILE" | tr -d '[:space:]')"
@@ -0,0 +1,134 @@
+// Local stand-in for the AfterShip v4 tracking API
+// Usage: node scripts/aftership-mock.js [port]
+// Then start the backend with AFTERSHIP_API_URL=http://localhost:4010/v4 and any AFTERSHIP_API_KEY
+import http from 'node:http'
+
+const PORT = Number(process.argv[2] || process.env.AFTERSHIP_MOCK_PORT || 4010)
+const trackings = new Map()
+
+const CITIES = [
+  { city: 'Memphis', state: 'TN' },
+  { city: 'Louisville', state: 'KY' },
+  { city: 'Indianapolis', state: 'IN' },
+  { city: 'Chicago', state: 'IL' },
+  { city: 'Columbus', state: 'OH' },
+]
+
+// Deterministic pseudo-random number from the tracking number so runs are repeatable
+const seedOf = (value) => [...value].reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7)
+
+const buildCheckpoints = (trackingNumber, slug) => {
+  const seed = seedOf(trackingNumber)
+  const stages = ['InfoReceived', 'InTransit', 'InTransit', 'OutForDelivery', 'Delivered', 'Exception']
+  const count = 1 + (seed % 5)
+  const start = Date.now() - count * 24 * 60 * 60 * 1000
+  const checkpoints = []
+
+  for (let i = 0; i < count; i++) {
+    const tag = i === count - 1 && seed % 11 === 0 ? 'Exception' : stages[i]
+    const place = CITIES[(seed + i) % CITIES.length]
+    checkpoints.push({
+      slug,
+      tag,
+      message: tag === 'Exception' ? 'Delivery exception - address issue' : tag.replace(/([a-z])([A-Z])/g, '$1 $2'),
+      created_at: new Date(start + i * 24 * 60 * 60 * 1000).toISOString(),
+      city: place.city,
+      state: place.state,
+      country_name: 'USA',
+      zip: String(30000 + (seed % 60000)),
+    })
+  }
+
+  return checkpoints
+}
+
+const createTracking = (trackingNumber, slug = 'ups', title) => {
+  const checkpoints = buildCheckpoints(trackingNumber, slug)
+  const tracking = {
+    id: `mock-${trackingNumber}`,
+    tracking_number: trackingNumber,
+    slug,
+    title: title || trackingNumber,
+    tag: checkpoints[checkpoints.length - 1].tag,
+    last_updated_at: new Date().toISOString(),
+    checkpoints,
+  }
+  trackings.set(trackingNumber, tracking)
+  return tracking
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, aftership-api-key',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+const readBody = (req) => new Promise((resolve) => {
+  let data = ''
+  req.on('data', (chunk) => { data += chunk })
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {})
+    } catch {
+      resolve({})
+    }
+  })
+})
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204)
+
+  if (!req.headers['aftership-api-key']) {
+    return send(res, 401, { meta: { code: 401, message: 'Invalid API key.' } })
+  }
+
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  const parts = url.pathname.replace(/^\/v4\/?/, '').split('/').filter(Boolean)
+
+  // GET /v4/trackings
+  if (req.method === 'GET' && parts.length === 1 && parts[0] === 'trackings') {
+    const all = [...trackings.values()]
+    return send(res, 200, { meta: { code: 200 }, data: { trackings: all, total: all.length } })
+  }
+
+  // POST /v4/trackings
+  if (req.method === 'POST' && parts.length === 1 && parts[0] === 'trackings') {
+    const { tracking = {} } = await readBody(req)
+    if (!tracking.tracking_number) {
+      return send(res, 400, { meta: { code: 4003, message: 'tracking_number is required.' } })
+    }
+    const created = createTracking(tracking.tracking_number, tracking.slug, tracking.title)
+    return send(res, 201, { meta: { code: 201 }, data: { tracking: created } })
+  }
+
+  // /v4/trackings/:slug/:tracking_number[/retrack]
+  if (parts[0] === 'trackings' && parts.length >= 3) {
+    const trackingNumber = decodeURIComponent(parts[2])
+    const existing = trackings.get(trackingNumber)
+
+    if (parts[3] === 'retrack' && req.method === 'POST') {
+      if (!existing) return send(res, 404, { meta: { code: 4004, message: 'Tracking does not exist.' } })
+      return send(res, 200, { meta: { code: 200 }, data: { tracking: existing } })
+    }
+
+    if (req.method === 'GET') {
+      if (!existing) return send(res, 404, { meta: { code: 4004, message: 'Tracking does not exist.' } })
+      return send(res, 200, { meta: { code: 200 }, data: { tracking: existing } })
+    }
+
+    if (req.method === 'DELETE') {
+      trackings.delete(trackingNumber)
+      return send(res, 200, { meta: { code: 200 }, data: { tracking: existing || null } })
+    }
+  }
+
+  send(res, 404, { meta: { code: 404, message: 'Not found' } })
+})
+
+server.listen(PORT, () => {
+  console.log(`AfterShip mock listening on http://localhost:${PORT}/v4`)
+})
@@ -0,0 +1,91 @@
+// Local stand-ins for alert delivery: an HTTP server that records webhook calls and an
+// SMTP server that records emails. Both print what they receive.
+// Usage: node scripts/alerts-mock.js [http port] [smtp port]
+// Then point webhook rules at http://localhost:4020/... and run the API with SMTP_HOST=localhost SMTP_PORT=2525
+// GET http://localhost:4020/received lists everything received so far.
+import http from 'node:http'
+import net from 'node:net'
+
+const HTTP_PORT = Number(process.argv[2] || process.env.ALERTS_MOCK_HTTP_PORT || 4020)
+const SMTP_PORT = Number(process.argv[3] || process.env.ALERTS_MOCK_SMTP_PORT || 2525)
+
+const webhooks = []
+const emails = []
+
+const httpServer = http.createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/received') {
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    return res.end(JSON.stringify({ webhooks, emails }, null, 2))
+  }
+
+  let body = ''
+  req.on('data', (chunk) => { body += chunk })
+  req.on('end', () => {
+    const call = { method: req.method, path: req.url, headers: req.headers, body, receivedAt: new Date().toISOString() }
+    webhooks.push(call)
+    console.log(`[webhook] ${req.method} ${req.url}\n${body}\n`)
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end('{"ok":true}')
+  })
+})
+
+// Just enough SMTP to accept a message: greet, say yes to every command, collect DATA
+const smtpServer = net.createServer((socket) => {
+  let buffer = ''
+  let inData = false
+  let message = { from: '', to: [], data: '' }
+  const reply = (line) => socket.write(`${line}\r\n`)
+
+  reply('220 localhost alerts-mock ESMTP')
+
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8')
+
+    while (buffer.length > 0) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end === -1) return
+        message.data = buffer.slice(0, end).replace(/^\.\./gm, '.')
+        buffer = buffer.slice(end + 5)
+        inData = false
+        emails.push({ ...message, receivedAt: new Date().toISOString() })
+        console.log(`[email] from ${message.from} to ${message.to.join(', ')}\n${message.data}\n`)
+        message = { from: '', to: [], data: '' }
+        reply('250 OK: queued')
+        continue
+      }
+
+      const lineEnd = buffer.indexOf('\r\n')
+      if (lineEnd === -1) return
+      const line = buffer.slice(0, lineEnd)
+      buffer = buffer.slice(lineEnd + 2)
+      const command = line.slice(0, 4).toUpperCase()
+
+      if (command === 'EHLO') {
+        reply('250-localhost')
+        reply('250 8BITMIME')
+      } else if (command === 'MAIL') {
+        message.from = line.replace(/^MAIL FROM:\s*/i, '')
+        reply('250 OK')
+      } else if (command === 'RCPT') {
+        message.to.push(line.replace(/^RCPT TO:\s*/i, ''))
+        reply('250 OK')
+      } else if (command === 'DATA') {
+        inData = true
+        reply('354 End data with <CR><LF>.<CR><LF>')
+      } else if (command === 'QUIT') {
+        reply('221 Bye')
+        socket.end()
+      } else {
+        reply('250 OK')
+      }
+    }
+  })
+})
+
+httpServer.listen(HTTP_PORT, () => {
+  console.log(`Webhook stand-in listening on http://localhost:${HTTP_PORT}`)
+})
+smtpServer.listen(SMTP_PORT, () => {
+  console.log(`SMTP stand-in listening on localhost:${SMTP_PORT}`)
+})
@@ -0,0 +1,166 @@
+// Local stand-in for an OpenID Connect provider, with one test user per role
+// Usage: node scripts/oidc-mock.js [port]
+// Then set VITE_OIDC_ISSUER=http://localhost:4030 and VITE_OIDC_CLIENT_ID=order-tracker for the app,
+// and OIDC_ISSUER=http://localhost:4030 OIDC_AUDIENCE=order-tracker-api for the API
+import http from 'node:http'
+import crypto from 'node:crypto'
+import { SignJWT, exportJWK, generateKeyPair } from 'jose'
+
+const PORT = Number(process.argv[2] || process.env.OIDC_MOCK_PORT || 4030)
+const ISSUER = `http://localhost:${PORT}`
+const AUDIENCE = process.env.OIDC_MOCK_AUDIENCE || 'order-tracker-api'
+const TOKEN_MINUTES = Number(process.env.OIDC_MOCK_TOKEN_MINUTES || 60)
+
+const USERS = {
+  viewer: { sub: 'viewer-1', name: 'Vera Viewer', email: 'viewer@example.com', roles: ['viewer'] },
+  receiver: { sub: 'receiver-1', name: 'Rafael Receiver', email: 'receiver@example.com', roles: ['receiver'] },
+  admin: { sub: 'admin-1', name: 'Ada Admin', email: 'admin@example.com', roles: ['admin'] },
+  // A field team receiver who only sees deliveries to their own sites
+  field: {
+    sub: 'field-1',
+    name: 'Fatima Field',
+    email: 'field@example.com',
+    roles: ['receiver'],
+    sites: ['Training Center - VisionTech', 'Conference Hall B - OmniTech'],
+  },
+}
+
+const { publicKey, privateKey } = await generateKeyPair('RS256')
+const publicJwk = { ...(await exportJWK(publicKey)), kid: 'mock-key', alg: 'RS256', use: 'sig' }
+
+// Authorization codes waiting to be exchanged
+const codes = new Map()
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+  res.end(JSON.stringify(body))
+}
+
+const redirect = (res, location) => {
+  res.writeHead(302, { Location: location })
+  res.end()
+}
+
+const readForm = (req) => new Promise((resolve) => {
+  let data = ''
+  req.on('data', (chunk) => { data += chunk })
+  req.on('end', () => resolve(new URLSearchParams(data)))
+})
+
+const escapeHtml = (value) => String(value).replace(/[&<>"]/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[ch]))
+
+const sign = (claims, audience) => new SignJWT(claims)
+  .setProtectedHeader({ alg: 'RS256', kid: publicJwk.kid })
+  .setIssuer(ISSUER)
+  .setAudience(audience)
+  .setIssuedAt()
+  .setExpirationTime(`${TOKEN_MINUTES}m`)
+  .sign(privateKey)
+
+// Sign-in page: pick a user instead of entering a password
+const handleAuthorize = (res, params) => {
+  const user = params.get('user')
+  if (!user) {
+    const links = Object.entries(USERS).map(([id, { name, roles, sites }]) => {
+      const next = new URLSearchParams(params)
+      next.set('user', id)
+      const details = [...roles, ...(sites ? [`sites: ${sites.join('; ')}`] : [])].join(', ')
+      return `<li><a href="/authorize?${escapeHtml(next)}">${escapeHtml(name)}</a> (${escapeHtml(details)})</li>`
+    })
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    return res.end(`<!doctype html><title>Test sign-in</title><h1>Sign in as</h1><ul>${links.join('')}</ul>`)
+  }
+
+  if (!USERS[user]) {
+    return send(res, 400, { error: 'invalid_request', error_description: `Unknown user "${user}"` })
+  }
+
+  const code = crypto.randomBytes(16).toString('hex')
+  codes.set(code, {
+    user,
+    clientId: params.get('client_id'),
+    redirectUri: params.get('redirect_uri'),
+    nonce: params.get('nonce'),
+    challenge: params.get('code_challenge'),
+  })
+  const target = new URL(params.get('redirect_uri'))
+  target.searchParams.set('code', code)
+  if (params.get('state')) target.searchParams.set('state', params.get('state'))
+  redirect(res, target.toString())
+}
+
+const handleToken = async (req, res) => {
+  const form = await readForm(req)
+  const grant = codes.get(form.get('code'))
+  codes.delete(form.get('code'))
+
+  if (form.get('grant_type') !== 'authorization_code' || !grant) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'Unknown or used authorization code' })
+  }
+  if (form.get('client_id') !== grant.clientId || form.get('redirect_uri') !== grant.redirectUri) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'client_id or redirect_uri does not match' })
+  }
+  const challenge = crypto.createHash('sha256').update(form.get('code_verifier') || '').digest('base64url')
+  if (grant.challenge && challenge !== grant.challenge) {
+    return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+  }
+
+  const { sub, name, email, roles, sites } = USERS[grant.user]
+  send(res, 200, {
+    token_type: 'Bearer',
+    expires_in: TOKEN_MINUTES * 60,
+    access_token: await sign({ sub, roles, sites, scope: 'openid profile email' }, AUDIENCE),
+    id_token: await sign({ sub, name, email, roles, sites, nonce: grant.nonce }, grant.clientId),
+  })
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    return res.end()
+  }
+
+  const url = new URL(req.url, ISSUER)
+
+  if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+    return send(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      jwks_uri: `${ISSUER}/jwks`,
+      end_session_endpoint: `${ISSUER}/logout`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+      id_token_signing_alg_values_supported: ['RS256'],
+    })
+  }
+
+  if (req.method === 'GET' && url.pathname === '/jwks') {
+    return send(res, 200, { keys: [publicJwk] })
+  }
+
+  if (req.method === 'GET' && url.pathname === '/authorize') {
+    return handleAuthorize(res, url.searchParams)
+  }
+
+  if (req.method === 'POST' && url.pathname === '/token') {
+    return handleToken(req, res)
+  }
+
+  if (req.method === 'GET' && url.pathname === '/logout') {
+    return redirect(res, url.searchParams.get('post_logout_redirect_uri') || '/')
+  }
+
+  send(res, 404, { error: 'Not found' })
+})
+
+server.listen(PORT, () => {
+  console.log(`OIDC stand-in listening on ${ISSUER}`)
+  Object.keys(USERS).forEach(id => console.log(`  ${id}: ${USERS[id].email}`))
+})
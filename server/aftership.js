@@ -0,0 +1,100 @@
+// AfterShip live tracking - the API key stays on the backend, and only receivers and admins
+// register new trackings (which count against the AfterShip plan)
+const API_KEY = process.env.AFTERSHIP_API_KEY || ''
+// Point this at a local mock (see scripts/aftership-mock.js) for development and tests
+const API_URL = (process.env.AFTERSHIP_API_URL || 'https://api.aftership.com/v4').replace(/\/$/, '')
+// Number of AfterShip lookups run in parallel
+const LOOKUP_BATCH_SIZE = 5
+
+export class AfterShipError extends Error {
+  constructor(message, status, code) {
+    super(message)
+    this.name = 'AfterShipError'
+    this.status = status
+    this.code = code // AfterShip meta code, e.g. 4004 for a tracking that doesn't exist
+  }
+}
+
+const isNotFound = (error) => error instanceof AfterShipError && (error.status === 404 || error.code === 4004)
+
+export function isAfterShipEnabled() {
+  return !!API_KEY
+}
+
+const request = async (endpoint, options = {}) => {
+  const response = await fetch(`${API_URL}${endpoint}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      'aftership-api-key': API_KEY,
+      ...options.headers,
+    },
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }))
+    throw new AfterShipError(error.meta?.message || error.message || `API error: ${response.status}`, response.status, error.meta?.code)
+  }
+
+  return response.json()
+}
+
+const trackingPath = (trackingNumber, slug) =>
+  `/trackings/${encodeURIComponent(slug || 'none')}/${encodeURIComponent(trackingNumber)}`
+
+const getTracking = async (trackingNumber, slug) => {
+  const params = slug ? `?slug=${encodeURIComponent(slug)}` : ''
+  const response = await request(`${trackingPath(trackingNumber, slug)}${params}`)
+  return response.data.tracking
+}
+
+const createTracking = async (trackingNumber, slug, title) => {
+  const tracking = { tracking_number: trackingNumber }
+  if (slug) tracking.slug = slug
+  if (title) tracking.title = title
+
+  const response = await request('/trackings', { method: 'POST', body: JSON.stringify({ tracking }) })
+  return response.data.tracking
+}
+
+/**
+ * Every tracking in the AfterShip account
+ */
+export async function listTrackings() {
+  const response = await request('/trackings')
+  return response.data.trackings || []
+}
+
+/**
+ * Look up each { tracking_number, slug, title } in AfterShip. With `create`, trackings AfterShip
+ * doesn't know yet are registered. Returns one entry per lookup, null where nothing was found or
+ * the lookup failed; other failures (bad key, rate limit, outage) are logged rather than turned into a create.
+ */
+export async function lookupTrackings(lookups, { create = false } = {}) {
+  const results = []
+
+  for (let i = 0; i < lookups.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = lookups.slice(i, i + LOOKUP_BATCH_SIZE)
+    results.push(...await Promise.all(batch.map(async ({ tracking_number, slug, title }) => {
+      try {
+        return await getTracking(tracking_number, slug)
+      } catch (error) {
+        if (!isNotFound(error)) {
+          console.warn(`AfterShip lookup failed for ${tracking_number}:`, error.message)
+          return null
+        }
+        if (!create) {
+          return null
+        }
+        try {
+          return await createTracking(tracking_number, slug, title)
+        } catch (createError) {
+          console.warn(`AfterShip could not register ${tracking_number}:`, createError.message)
+          return null
+        }
+      }
+    })))
+  }
+
+  return results
+}
@@ -0,0 +1,370 @@
+// Alert rules - webhooks and emails for shipment changes and daily digests
+import fs from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import nodemailer from 'nodemailer'
+import { normalizeKey } from '../shared/changes.js'
+import { diffShipments, toShipmentRecord } from './changes.js'
+
+const RULES_FILE = process.env.ALERT_RULES_FILE || new URL('./alert-rules.json', import.meta.url)
+// The latest shipments and which alerts were sent, kept across restarts
+const STATE_FILE = process.env.ALERT_STATE_FILE || fileURLToPath(new URL('./alert-state.json', import.meta.url))
+
+const TRIGGERS = ['change', 'digest']
+const ACTION_TYPES = ['webhook', 'email']
+const CHANGE_TYPES = ['added', 'removed', 'tracking_changed', 'carrier_changed', 'eta_changed', 'status_changed']
+const LIST_CONDITIONS = ['status', 'supplier', 'carrier', 'job']
+
+// A shipment flapping between two values would alert on every load; each rule alerts about a shipment once a day at most
+const DEDUPE_MS = 24 * 60 * 60 * 1000
+
+// Digests aren't sent from shipment data older than this, so nobody acts on a week-old list (0 = no limit)
+const DIGEST_MAX_AGE_HOURS = Number(process.env.DIGEST_MAX_AGE_HOURS ?? 24)
+
+// A load that adds or removes more than this share of the shipments (e.g. another file was loaded)
+// becomes the new baseline instead of alerting on every shipment
+const MAX_CHANGED_SHARE = 0.5
+
+const DEFAULT_ITEM_TEMPLATE = '{{tracking_number}}  PO {{po_number}}  {{supplier}}  {{status}}  ETA {{eta}}'
+
+export class AlertConfigError extends Error {
+  constructor(message, missing = []) {
+    super(message)
+    this.name = 'AlertConfigError'
+    this.missing = missing
+  }
+}
+
+const toList = (value) => (value === undefined ? [] : (Array.isArray(value) ? value : [value]).map(String))
+
+/**
+ * Read the rules file. Without one, there are no rules and nothing is sent.
+ */
+export function loadRules() {
+  if (!fs.existsSync(RULES_FILE)) {
+    return []
+  }
+
+  const entries = JSON.parse(fs.readFileSync(RULES_FILE, 'utf8'))
+  if (!Array.isArray(entries)) {
+    throw new AlertConfigError('Alert rules must be a JSON array')
+  }
+
+  return entries.map((entry, index) => {
+    const where = `Alert rule ${index + 1}`
+    if (!entry.id || !entry.name) {
+      throw new AlertConfigError(`${where} needs an id and a name`)
+    }
+    const trigger = entry.trigger || 'change'
+    if (!TRIGGERS.includes(trigger)) {
+      throw new AlertConfigError(`${where} (${entry.id}) has unknown trigger "${trigger}"`)
+    }
+    const events = toList(entry.events)
+    const unknownEvent = events.find(event => !CHANGE_TYPES.includes(event))
+    if (unknownEvent) {
+      throw new AlertConfigError(`${where} (${entry.id}) has unknown event "${unknownEvent}"`)
+    }
+    if (trigger === 'digest' && !Number.isInteger(entry.schedule?.hour)) {
+      throw new AlertConfigError(`${where} (${entry.id}) needs schedule.hour (0-23) for a digest`)
+    }
+
+    const action = entry.action || {}
+    if (!ACTION_TYPES.includes(action.type)) {
+      throw new AlertConfigError(`${where} (${entry.id}) has unknown action type "${action.type}"`)
+    }
+    if (action.type === 'webhook' && !action.url) {
+      throw new AlertConfigError(`${where} (${entry.id}) needs action.url for a webhook`)
+    }
+    if (action.type === 'email' && toList(action.to).length === 0) {
+      throw new AlertConfigError(`${where} (${entry.id}) needs action.to for an email`)
+    }
+
+    const conditions = entry.conditions || {}
+    return {
+      id: String(entry.id),
+      name: entry.name,
+      trigger,
+      events,
+      schedule: entry.schedule,
+      sendEmpty: entry.sendEmpty === true,
+      conditions: {
+        ...Object.fromEntries(LIST_CONDITIONS.map(key => [key, toList(conditions[key]).map(value => value.toLowerCase())])),
+        etaDelta: conditions.eta_delta || null,
+      },
+      action: { ...action, to: toList(action.to) },
+    }
+  })
+}
+
+/**
+ * Describe the rules for the client. Webhook URLs can carry secrets, so they are left out.
+ */
+export function describeRules() {
+  return loadRules().map(({ id, name, trigger, events, schedule, action }) => ({
+    id,
+    name,
+    trigger,
+    events,
+    schedule: schedule || null,
+    action: action.type,
+  }))
+}
+
+/**
+ * Check a change event or a shipment against a rule's conditions. ETA delta only
+ * applies to ETA changes; any other record fails a rule that sets it.
+ */
+export function matchesConditions(rule, record) {
+  for (const key of LIST_CONDITIONS) {
+    const allowed = rule.conditions[key]
+    if (allowed.length > 0 && !allowed.includes(String(record[key] || '').toLowerCase())) {
+      return false
+    }
+  }
+
+  const etaDelta = rule.conditions.etaDelta
+  if (etaDelta) {
+    if (typeof record.days_slipped !== 'number') return false
+    if (etaDelta.min !== undefined && record.days_slipped < etaDelta.min) return false
+    if (etaDelta.max !== undefined && record.days_slipped > etaDelta.max) return false
+  }
+  return true
+}
+
+/**
+ * Fill {{field}} placeholders. Unknown fields become empty, and escape() is applied to
+ * every value so a JSON webhook body stays valid whatever the data contains.
+ */
+export function renderTemplate(template, values, escape = (value) => value) {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key) => {
+    const value = values[key]
+    return value === undefined || value === null ? '' : escape(String(value))
+  })
+}
+
+const jsonEscape = (value) => JSON.stringify(value).slice(1, -1)
+
+let transport = null
+
+function getTransport() {
+  const host = process.env.SMTP_HOST
+  const from = process.env.ALERT_EMAIL_FROM
+  const missing = [!host && 'SMTP_HOST', !from && 'ALERT_EMAIL_FROM'].filter(Boolean)
+  if (missing.length > 0) {
+    throw new AlertConfigError('Email alerts are not configured', missing)
+  }
+
+  if (!transport) {
+    transport = nodemailer.createTransport({
+      host,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    })
+  }
+  return transport
+}
+
+/**
+ * Run a rule's action with the template values and the default JSON payload for webhooks
+ */
+async function runAction(rule, values, payload) {
+  const { action } = rule
+
+  if (action.type === 'webhook') {
+    const contentType = action.contentType || 'application/json'
+    const body = action.body
+      ? renderTemplate(action.body, values, contentType.includes('json') ? jsonEscape : undefined)
+      : JSON.stringify(payload)
+    const response = await fetch(action.url, {
+      method: action.method || 'POST',
+      headers: { 'Content-Type': contentType, ...(action.headers || {}) },
+      body,
+    })
+    if (!response.ok) {
+      throw new Error(`Webhook returned ${response.status}`)
+    }
+    return
+  }
+
+  await getTransport().sendMail({
+    from: process.env.ALERT_EMAIL_FROM,
+    to: action.to.join(', '),
+    subject: renderTemplate(action.subject || '[Order Tracker] {{rule}}', values),
+    text: renderTemplate(action.body || (values.list !== undefined ? '{{count}} shipments:\n\n{{list}}' : '{{summary}}'), values),
+  })
+}
+
+const readState = () => {
+  if (!fs.existsSync(STATE_FILE)) {
+    return {}
+  }
+  try {
+    return JSON.parse(fs.readFileSync(STATE_FILE, 'utf8'))
+  } catch (error) {
+    console.error('Failed to read the alert state, starting without it:', error.message)
+    return {}
+  }
+}
+
+const state = readState()
+
+const sentKeys = new Map(Array.isArray(state.sentKeys) ? state.sentKeys : [])
+
+// Latest shipments posted by a browser, which changes are found against and the digests report on
+let latestShipments = state.latestShipments || null
+
+// Written to a temporary file first, so a crash mid-write can't leave a truncated state behind
+const saveState = () => {
+  try {
+    fs.writeFileSync(`${STATE_FILE}.tmp`, JSON.stringify({ latestShipments, sentKeys: [...sentKeys] }))
+    fs.renameSync(`${STATE_FILE}.tmp`, STATE_FILE)
+  } catch (error) {
+    console.error('Failed to save the alert state:', error.message)
+  }
+}
+
+const alreadySent = (key) => {
+  const now = Date.now()
+  for (const [existing, sentAt] of sentKeys) {
+    if (now - sentAt > DEDUPE_MS) sentKeys.delete(existing)
+  }
+  if (sentKeys.has(key)) return true
+  sentKeys.set(key, now)
+  return false
+}
+
+/**
+ * Run every change rule against the changes from one load. Each matching change
+ * triggers the rule's action once.
+ */
+async function processEvents(events) {
+  const rules = loadRules().filter(rule => rule.trigger === 'change')
+  const results = []
+
+  for (const rule of rules) {
+    const matching = events.filter(event =>
+      (rule.events.length === 0 || rule.events.includes(event.type)) && matchesConditions(rule, event))
+
+    for (const event of matching) {
+      if (alreadySent(`${rule.id}|${normalizeKey(event.tracking_number)}`)) continue
+      try {
+        await runAction(rule, { ...event, rule: rule.name }, { rule: rule.id, event })
+        results.push({ rule: rule.id, tracking_number: event.tracking_number, ok: true })
+      } catch (error) {
+        console.error(`Alert rule "${rule.id}" failed:`, error.message)
+        results.push({ rule: rule.id, tracking_number: event.tracking_number, ok: false, error: error.message })
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Take the shipments from one load: find what changed since the shipments held from the previous
+ * load, keep the new ones for the digests and the calendar feed, and run the change rules.
+ * The first load, and one that replaces most of the shipments, only sets the baseline.
+ */
+export async function processLoad(posted) {
+  const shipments = posted.map(toShipmentRecord).filter(Boolean)
+  const previous = latestShipments
+  latestShipments = { shipments, receivedAt: new Date().toISOString() }
+  saveState()
+
+  if (!previous) {
+    return { changes: 0, baseline: true, results: [] }
+  }
+
+  const changes = diffShipments(previous.shipments, shipments)
+  const added = changes.filter(change => change.type === 'added').length
+  const removed = changes.filter(change => change.type === 'removed').length
+  if (added > shipments.length * MAX_CHANGED_SHARE || removed > previous.shipments.length * MAX_CHANGED_SHARE) {
+    console.warn(`A load added ${added} and removed ${removed} of ${previous.shipments.length} shipments; keeping it as the new baseline without alerts`)
+    return { changes: 0, baseline: true, results: [] }
+  }
+
+  const results = await processEvents(changes)
+  saveState()
+  return { changes: changes.length, baseline: false, results }
+}
+
+export const getLatestShipments = () => latestShipments
+
+/**
+ * Why no digest can be sent now - no data has been posted yet, or the latest is older than
+ * DIGEST_MAX_AGE_HOURS - or null when one can
+ */
+export function digestDataProblem() {
+  if (!latestShipments) {
+    return 'No shipment data has been posted yet'
+  }
+  const ageHours = (Date.now() - new Date(latestShipments.receivedAt).getTime()) / (60 * 60 * 1000)
+  if (DIGEST_MAX_AGE_HOURS > 0 && !(ageHours <= DIGEST_MAX_AGE_HOURS)) {
+    return `The latest shipment data is from ${latestShipments.receivedAt}, more than ${DIGEST_MAX_AGE_HOURS} hours ago`
+  }
+  return null
+}
+
+/**
+ * Send one digest rule now, listing every shipment that matches its conditions.
+ * Returns the number of shipments listed, or null when there is no recent data (see digestDataProblem).
+ */
+export async function sendDigest(rule) {
+  if (digestDataProblem()) {
+    return null
+  }
+
+  const matching = latestShipments.shipments.filter(shipment => matchesConditions(rule, shipment))
+  if (matching.length === 0 && !rule.sendEmpty) {
+    return 0
+  }
+
+  const itemTemplate = rule.action.itemTemplate || DEFAULT_ITEM_TEMPLATE
+  const values = {
+    rule: rule.name,
+    count: matching.length,
+    generated_at: new Date().toISOString(),
+    data_as_of: latestShipments.receivedAt,
+    list: matching.map(shipment => renderTemplate(itemTemplate, shipment)).join('\n'),
+  }
+  await runAction(rule, values, { rule: rule.id, generated_at: values.generated_at, shipments: matching })
+  return matching.length
+}
+
+const lastDigestDay = new Map()
+
+/**
+ * Check once a minute for digest rules due this hour (server local time) and send each once a day
+ */
+export function startDigestScheduler() {
+  const check = async () => {
+    let rules
+    try {
+      rules = loadRules().filter(rule => rule.trigger === 'digest')
+    } catch (error) {
+      console.error('Failed to load alert rules:', error.message)
+      return
+    }
+
+    const now = new Date()
+    const today = now.toDateString()
+    for (const rule of rules) {
+      const days = rule.schedule.days // 0 = Sunday; every day when omitted
+      if (rule.schedule.hour !== now.getHours() || lastDigestDay.get(rule.id) === today) continue
+      if (Array.isArray(days) && !days.includes(now.getDay())) continue
+
+      try {
+        const count = await sendDigest(rule)
+        if (count === null) {
+          console.warn(`Digest "${rule.id}" skipped: ${digestDataProblem()}`)
+          continue
+        }
+        lastDigestDay.set(rule.id, today)
+      } catch (error) {
+        console.error(`Digest "${rule.id}" failed:`, error.message)
+      }
+    }
+  }
+
+  return setInterval(check, 60 * 1000)
+}
@@ -0,0 +1,117 @@
+// Bearer token checks for the API - verifies OIDC access tokens against the provider's keys.
+// Without OIDC_ISSUER every request is treated as an admin, which production only allows
+// when ALLOW_ANONYMOUS_ACCESS=true; otherwise the API refuses requests until sign-in is set up.
+import { createRemoteJWKSet, jwtVerify } from 'jose'
+
+// Compared with the tokens' iss exactly as configured, so keep any trailing slash the provider uses
+const ISSUER = (process.env.OIDC_ISSUER || '').trim()
+const AUDIENCE = process.env.OIDC_AUDIENCE || ''
+const ALLOW_ANONYMOUS = process.env.ALLOW_ANONYMOUS_ACCESS === 'true' || process.env.NODE_ENV !== 'production'
+const ROLES_CLAIM = process.env.OIDC_ROLES_CLAIM || 'roles'
+// Provider role or group names -> app roles, e.g. "tracker-admins=admin,warehouse=receiver"
+const ROLE_MAP = new Map(
+  (process.env.OIDC_ROLE_MAP || '')
+    .split(',')
+    .map(pair => pair.split('=').map(part => part.trim().toLowerCase()))
+    .filter(([from, to]) => from && to)
+)
+// Claim listing the sites a user may see; users without it see every site
+const SITES_CLAIM = process.env.OIDC_SITES_CLAIM || 'sites'
+
+// Each role can do everything the roles before it can
+export const ROLES = ['viewer', 'receiver', 'admin']
+
+export class AuthError extends Error {
+  constructor(message, status = 401) {
+    super(message)
+    this.name = 'AuthError'
+    this.status = status
+  }
+}
+
+/**
+ * Problems with the sign-in settings, for the server to log at startup. Requests are refused
+ * while any of them apply.
+ */
+export function describeAuthProblems() {
+  if (!ISSUER) {
+    return ALLOW_ANONYMOUS
+      ? ['OIDC_ISSUER is not set: sign-in is off and every API caller is an admin.']
+      : ['OIDC_ISSUER is not set in production: every API request is refused. Set OIDC_ISSUER, or ALLOW_ANONYMOUS_ACCESS=true to run without sign-in.']
+  }
+  return AUDIENCE
+    ? []
+    : ['OIDC_AUDIENCE is not set: every API request is refused. Set it to the audience of the access tokens issued for this API.']
+}
+
+let jwks = null
+
+const getJwks = async () => {
+  if (!jwks) {
+    const response = await fetch(`${ISSUER.replace(/\/$/, '')}/.well-known/openid-configuration`)
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed: ${response.status}`)
+    }
+    const { jwks_uri } = await response.json()
+    jwks = createRemoteJWKSet(new URL(jwks_uri))
+  }
+  return jwks
+}
+
+/**
+ * The highest app role named in the roles claim; signed-in users without one are viewers
+ */
+export function resolveRole(claims) {
+  const value = claims[ROLES_CLAIM]
+  const names = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[\s,]+/) : []
+  return names
+    .map(name => ROLE_MAP.get(name.toLowerCase()) || name.toLowerCase())
+    .filter(name => ROLES.includes(name))
+    .reduce((best, role) => (ROLES.indexOf(role) > ROLES.indexOf(best) ? role : best), 'viewer')
+}
+
+/**
+ * The sites named in the sites claim (an array, or one string separated by semicolons),
+ * or undefined when the caller isn't limited to any
+ */
+export function resolveSites(claims) {
+  const value = claims[SITES_CLAIM]
+  const names = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(';') : []
+  const sites = names.map(name => name.trim()).filter(Boolean)
+  return sites.length > 0 ? sites : undefined
+}
+
+/**
+ * Check the request's bearer token and that its role is at least `role`.
+ * Returns the caller's subject, role and the sites they are limited to.
+ */
+export async function authorize(req, role = 'viewer') {
+  if (!ISSUER) {
+    if (!ALLOW_ANONYMOUS) {
+      throw new AuthError('Sign-in is not configured on this server (set OIDC_ISSUER)', 503)
+    }
+    return { sub: 'local', role: 'admin' }
+  }
+  // Without an audience, tokens the provider issued for any other app would be accepted
+  if (!AUDIENCE) {
+    throw new AuthError('Sign-in is misconfigured on this server (set OIDC_AUDIENCE)', 503)
+  }
+
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i)
+  if (!match) {
+    throw new AuthError('Sign-in required')
+  }
+
+  let payload
+  try {
+    ({ payload } = await jwtVerify(match[1], await getJwks(), { issuer: ISSUER, audience: AUDIENCE }))
+  } catch (error) {
+    throw new AuthError(`Invalid access token: ${error.message}`)
+  }
+
+  const caller = { sub: payload.sub, role: resolveRole(payload), sites: resolveSites(payload) }
+  if (ROLES.indexOf(caller.role) < ROLES.indexOf(role)) {
+    throw new AuthError(`Requires the ${role} role`, 403)
+  }
+  return caller
+}
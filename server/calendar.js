@@ -0,0 +1,142 @@
+// Delivery calendar feed - the shipments the backend holds from the latest load, as an iCalendar subscription.
+// Calendar clients can't sign in, so each user's feed URL carries a token signed with CALENDAR_FEED_SECRET
+// that names the user and the sites they were limited to when it was issued.
+import fs from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { SignJWT, jwtVerify } from 'jose'
+import { parseDate } from '../shared/dates.js'
+import { getStatusLabel } from '../shared/format.js'
+import { allDayEvent, buildCalendarText, calendarStamp } from '../shared/ical.js'
+
+const FEED_SECRET = process.env.CALENDAR_FEED_SECRET || ''
+const FEED_AUDIENCE = 'order-tracker-calendar'
+// Calendar clients poll the same URL for months, so feed tokens last long; a user gets a new URL when one expires
+const FEED_DAYS = Number(process.env.CALENDAR_FEED_DAYS || 180)
+// Each user's feed token version, kept across restarts; revoking a user's URL bumps theirs
+const STATE_FILE = process.env.CALENDAR_STATE_FILE || fileURLToPath(new URL('./calendar-state.json', import.meta.url))
+
+export const isCalendarFeedEnabled = () => FEED_SECRET !== ''
+
+const secretKey = () => new TextEncoder().encode(FEED_SECRET)
+
+const readVersions = () => {
+  if (!fs.existsSync(STATE_FILE)) {
+    return {}
+  }
+  try {
+    return JSON.parse(fs.readFileSync(STATE_FILE, 'utf8')).versions || {}
+  } catch (error) {
+    console.error('Failed to read the calendar feed state, starting without it:', error.message)
+    return {}
+  }
+}
+
+const versions = readVersions()
+
+// Written to a temporary file first, so a crash mid-write can't leave a truncated state behind
+const saveVersions = () => {
+  fs.writeFileSync(`${STATE_FILE}.tmp`, JSON.stringify({ versions }))
+  fs.renameSync(`${STATE_FILE}.tmp`, STATE_FILE)
+}
+
+const versionOf = (sub) => versions[sub] || 0
+
+/**
+ * A feed token for the signed-in caller, valid for CALENDAR_FEED_DAYS. Revoking the user's URLs
+ * invalidates it, and changing CALENDAR_FEED_SECRET invalidates every token.
+ */
+export function createFeedToken(caller) {
+  const sub = String(caller.sub || '')
+  return new SignJWT({ ...(caller.sites ? { sites: caller.sites } : {}), ver: versionOf(sub) })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(sub)
+    .setAudience(FEED_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${FEED_DAYS}d`)
+    .sign(secretKey())
+}
+
+/**
+ * Invalidate every feed URL issued to the user so far. Throws when the state can't be saved,
+ * since the old URLs would otherwise work again after a restart.
+ */
+export function revokeFeedTokens(sub) {
+  versions[sub] = versionOf(sub) + 1
+  saveVersions()
+}
+
+/**
+ * The subject and sites of a valid, unrevoked feed token, or null
+ */
+export async function verifyFeedToken(token) {
+  if (!FEED_SECRET || !token) {
+    return null
+  }
+  try {
+    const { payload } = await jwtVerify(token, secretKey(), { audience: FEED_AUDIENCE, algorithms: ['HS256'], requiredClaims: ['exp'] })
+    if (payload.ver !== versionOf(String(payload.sub || ''))) {
+      return null
+    }
+    return { sub: payload.sub, sites: Array.isArray(payload.sites) ? payload.sites.map(String) : undefined }
+  } catch {
+    return null
+  }
+}
+
+const pad = (value) => String(value).padStart(2, '0')
+
+/**
+ * The same events as the Calendar page's .ics export: each shipment on its ETA, and each job on
+ * its requested-by date. `sites` limits the feed to those sites when not empty.
+ */
+export function buildCalendar(shipments, sites = []) {
+  const siteKeys = new Set(sites.map(site => site.trim().toLowerCase()))
+  const included = siteKeys.size > 0
+    ? shipments.filter(shipment => siteKeys.has((shipment.site || '').trim().toLowerCase()))
+    : shipments
+  const stamp = calendarStamp()
+  const events = []
+
+  const requested = new Map()
+  for (const shipment of included) {
+    const eta = parseDate(shipment.eta)
+    if (eta) {
+      const reference = shipment.po_number ? `PO ${shipment.po_number}` : shipment.tracking_number
+      events.push(allDayEvent(
+        `eta-${shipment.tracking_number}@order-tracker`,
+        eta,
+        `📦 ${shipment.carrier_name || shipment.carrier} ${reference}${shipment.supplier ? ` - ${shipment.supplier}` : ''}`,
+        [
+          `Tracking: ${shipment.tracking_number}`,
+          `Status: ${getStatusLabel(shipment.status)}`,
+          `Site: ${shipment.site}`,
+          shipment.job ? `Job: ${shipment.job}` : '',
+        ],
+        stamp,
+      ))
+    }
+
+    const requestedBy = parseDate(shipment.requested_by)
+    if (requestedBy) {
+      const day = `${requestedBy.getFullYear()}-${pad(requestedBy.getMonth() + 1)}-${pad(requestedBy.getDate())}`
+      const job = shipment.job || (shipment.po_number ? `PO ${shipment.po_number}` : shipment.tracking_number)
+      const key = `${day}|${job}`
+      if (!requested.has(key)) {
+        requested.set(key, { day, date: requestedBy, job, shipments: [] })
+      }
+      requested.get(key).shipments.push(shipment)
+    }
+  }
+
+  for (const { day, date, job, shipments: jobShipments } of requested.values()) {
+    events.push(allDayEvent(
+      `requested-${day}-${job.replace(/[^A-Za-z0-9-]+/g, '_')}@order-tracker`,
+      date,
+      `🎯 Needed by: ${job}`,
+      jobShipments.map(shipment => `${shipment.tracking_number} - ${getStatusLabel(shipment.status)}`),
+      stamp,
+    ))
+  }
+
+  return buildCalendarText(events)
+}
@@ -0,0 +1,48 @@
+// Change detection for the alert rules - the app's diff (shared/changes.js), run on the shipments the
+// backend holds, so every browser's load is compared with the same previous state.
+import { describeChange, diffSnapshots, normalizeKey } from '../shared/changes.js'
+
+// The shipment fields the backend keeps (see AlertShipment in src/services/alerts.ts)
+const SHIPMENT_FIELDS = ['tracking_number', 'order_id', 'po_number', 'supplier', 'carrier', 'status', 'job', 'eta', 'requested_by', 'risk', 'site', 'carrier_name']
+
+/**
+ * A posted shipment reduced to the known fields as strings, or null without a tracking number
+ */
+export function toShipmentRecord(value) {
+  if (!value || typeof value !== 'object' || !String(value.tracking_number || '').trim()) {
+    return null
+  }
+  return Object.fromEntries(SHIPMENT_FIELDS.map(field => [field, value[field] === undefined || value[field] === null ? '' : String(value[field])]))
+}
+
+// The app's snapshot entry for a record, so the shared diff sees the same fields it does
+const toSnapshotEntry = (record) => ({
+  tracking_number: record.tracking_number,
+  order_id: record.order_id,
+  po_number: record.po_number,
+  from_company: record.supplier,
+  recipient_name: record.site,
+  slug: record.carrier,
+  tag: record.status,
+  estimated_delivery: record.eta,
+})
+
+/**
+ * Compare the previous and current shipments and list what changed, shipment by shipment.
+ * Each change carries the shipment's fields (the previous ones for a removed shipment), so rules
+ * can filter on them, and a one-line summary like the Activity page's.
+ */
+export function diffShipments(previous, current) {
+  const previousByKey = new Map(previous.map(record => [normalizeKey(record.tracking_number), record]))
+  const currentByKey = new Map(current.map(record => [normalizeKey(record.tracking_number), record]))
+  // Carrier names as the app posted them, for the summaries
+  const carrierNames = new Map([...previous, ...current].map(record => [record.carrier, record.carrier_name]))
+  const carrierName = (slug) => carrierNames.get(slug) || slug
+
+  return diffSnapshots(previous.map(toSnapshotEntry), current.map(toSnapshotEntry)).map(change => {
+    const key = normalizeKey(change.tracking_number)
+    const record = change.type === 'removed' ? previousByKey.get(key) : currentByKey.get(key)
+    const { type, from, to, days_slipped, previous_tracking_number } = change
+    return { ...record, type, from, to, days_slipped, previous_tracking_number, summary: describeChange(change, carrierName) }
+  })
+}
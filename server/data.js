@@ -0,0 +1,109 @@
+// Shipment data files - the CSVs the app loads, served only to signed-in users.
+// Files are read from DATA_DIR (default data/ at the repo root) on each request, so a replaced file shows on the next load.
+// Users limited to some sites only get those sites' rows, so other sites' data never reaches their browser.
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import Papa from 'papaparse'
+
+const DATA_DIR = process.env.DATA_DIR || fileURLToPath(new URL('../data/', import.meta.url))
+
+const SHIPMENTS_FILE = 'TestCSVFile.csv'
+const ADDITIONAL_FILE = 'AdditionalOrderInfo.csv'
+const PO_ITEMS_FILE = 'mock_po_items_100.csv'
+
+// The files the app loads; nothing else in the folder is served
+export const DATA_FILES = [SHIPMENTS_FILE, ADDITIONAL_FILE, PO_ITEMS_FILE]
+
+const UNASSIGNED_SITE = 'Unassigned'
+
+// The same header and site name normalization as the app (csvService, siteService)
+const normalizeHeader = (header) => header.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '')
+const siteKey = (name) => name.trim().replace(/\s+/g, ' ').toLowerCase()
+
+const readFile = async (name) => {
+  try {
+    return await fs.readFile(path.join(DATA_DIR, name), 'utf8')
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+// The header row as written, and each data row as an object keyed by normalized header, like the app reads it
+const parseRows = (text) => {
+  const [header = [], ...rows] = Papa.parse(text, { skipEmptyLines: true }).data
+  const fields = header.map(normalizeHeader)
+  return {
+    header,
+    rows: rows.map(values => ({ values, row: Object.fromEntries(fields.map((field, index) => [field, values[index] ?? ''])) })),
+  }
+}
+
+const unparseRows = (header, rows) => Papa.unparse([header, ...rows.map(({ values }) => values)]) + '\n'
+
+const lower = (value) => (value || '').trim().toLowerCase()
+
+// The shipment rows at the given sites, with their row numbers in the full file
+const readSiteShipments = async (sites) => {
+  const text = await readFile(SHIPMENTS_FILE)
+  if (text === null) {
+    return null
+  }
+  const allowed = new Set(sites.map(siteKey))
+  const { header, rows } = parseRows(text)
+  const kept = rows
+    .map((entry, index) => ({ ...entry, index }))
+    .filter(({ row }) => allowed.has(siteKey((row.recipient_site_name || row.recipient || '').trim() || UNASSIGNED_SITE)))
+  return { header, kept }
+}
+
+// Additional order info is matched by order, tracking or PO number; files without those columns
+// are matched by row position, so their rows are picked to line up with the kept shipment rows
+const filterAdditional = (text, shipments) => {
+  const { header, rows } = parseRows(text)
+  const fields = header.map(normalizeHeader)
+  if (['order_number', 'order_id', 'tracking_number', 'po_number'].some(field => fields.includes(field))) {
+    const keys = new Set(shipments.kept.flatMap(({ row }) => [row.order_number, row.tracking_number, row.po_number].map(lower).filter(Boolean)))
+    return unparseRows(header, rows.filter(({ row }) => keys.has(lower(row.order_number || row.order_id || row.tracking_number || row.po_number))))
+  }
+  return unparseRows(header, shipments.kept.map(({ index }) => rows[index] || { values: header.map(() => '') }))
+}
+
+const filterPOItems = (text, shipments) => {
+  const { header, rows } = parseRows(text)
+  const poNumbers = new Set(shipments.kept.map(({ row }) => lower(row.po_number)).filter(Boolean))
+  return unparseRows(header, rows.filter(({ row }) => poNumbers.has(lower(row.po_number))))
+}
+
+/**
+ * The tracking numbers (upper case) of the shipments at the given sites, empty without a shipments file
+ */
+export async function readSiteTrackingNumbers(sites) {
+  const shipments = await readSiteShipments(sites)
+  return new Set((shipments ? shipments.kept : []).map(({ row }) => (row.tracking_number || '').trim().toUpperCase()).filter(Boolean))
+}
+
+/**
+ * The named data file's text, or null when it isn't one of DATA_FILES or doesn't exist.
+ * With `sites`, only the rows for shipments at those sites are included.
+ */
+export async function readDataFile(name, sites) {
+  if (!DATA_FILES.includes(name)) {
+    return null
+  }
+  const text = await readFile(name)
+  if (text === null || !sites) {
+    return text
+  }
+
+  const shipments = await readSiteShipments(sites)
+  if (name === SHIPMENTS_FILE) {
+    return unparseRows(shipments.header, shipments.kept)
+  }
+  // Without a shipments file there is nothing at the user's sites to describe
+  const filter = name === ADDITIONAL_FILE ? filterAdditional : filterPOItems
+  return shipments ? filter(text, shipments) : ''
+}
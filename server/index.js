@@ -0,0 +1,369 @@
+// Backend for the Order Tracker - signs Metabase embed tokens so the secret never reaches the browser,
+// sends alert webhooks and emails, serves the delivery calendar feed and looks up live AfterShip tracking
+// Usage: METABASE_SITE_URL=... METABASE_SECRET_KEY=... METABASE_QUESTION_ID=... node server/index.js
+import http from 'node:http'
+import { CONTEXT_KEYS, MetabaseConfigError, describeEmbeds, signEmbedUrl } from './metabase.js'
+import { AuthError, ROLES, authorize, describeAuthProblems } from './auth.js'
+import { AfterShipError, isAfterShipEnabled, listTrackings, lookupTrackings } from './aftership.js'
+import { AlertConfigError, describeRules, digestDataProblem, getLatestShipments, loadRules, processLoad, sendDigest, startDigestScheduler } from './alerts.js'
+import { buildCalendar, createFeedToken, isCalendarFeedEnabled, revokeFeedTokens, verifyFeedToken } from './calendar.js'
+import { readDataFile, readSiteTrackingNumbers } from './data.js'
+
+const PORT = Number(process.env.PORT || 8787)
+// Only set when the app is served from another origin; same-origin setups (the Vite proxy, DO /api routing) need no CORS
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || ''
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+// Trackings looked up per request; the app sends larger loads in several requests
+const MAX_AFTERSHIP_LOOKUPS = 50
+
+const CORS_HEADERS = ALLOWED_ORIGIN
+  ? {
+      'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      Vary: 'Origin',
+    }
+  : {}
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  })
+  res.end(JSON.stringify(body))
+}
+
+// A request body the server can't accept - too large (413) or not JSON (400)
+class RequestError extends Error {
+  constructor(message, status = 400) {
+    super(message)
+    this.name = 'RequestError'
+    this.status = status
+  }
+}
+
+const sendError = (res, error) => {
+  if (error instanceof AuthError || error instanceof RequestError) {
+    return send(res, error.status, { error: error.message })
+  }
+  if (error instanceof MetabaseConfigError || error instanceof AlertConfigError) {
+    return send(res, 503, { error: error.message, missing: error.missing })
+  }
+  if (error instanceof AfterShipError) {
+    return send(res, 502, { error: `AfterShip: ${error.message}` })
+  }
+  console.error('Request failed:', error.message)
+  send(res, 500, { error: 'Internal server error' })
+}
+
+const readJson = (req) => new Promise((resolve, reject) => {
+  let size = 0
+  const chunks = []
+  req.on('data', (chunk) => {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      // Drain the rest instead of destroying the socket, so the 413 still reaches the client
+      req.removeAllListeners('data')
+      req.resume()
+      reject(new RequestError('Request body too large', 413))
+      return
+    }
+    chunks.push(chunk)
+  })
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) {
+      return
+    }
+    try {
+      resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {})
+    } catch {
+      reject(new RequestError('Request body is not valid JSON'))
+    }
+  })
+  req.on('error', () => reject(new RequestError('Request body could not be read')))
+})
+
+const handleEmbeds = (res) => {
+  try {
+    send(res, 200, { embeds: describeEmbeds() })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+const handleEmbedUrl = async (res, searchParams, caller) => {
+  // Only known context keys are passed on; the catalogue decides which Metabase parameters they lock
+  const context = {}
+  for (const key of CONTEXT_KEYS) {
+    if (searchParams.has(key)) {
+      context[key] = key === 'site' ? searchParams.getAll(key) : searchParams.get(key)
+    }
+  }
+
+  // Users limited to some sites only get embeds filtered to those sites, whatever they ask for
+  const requiredContext = caller.sites ? ['site'] : []
+  if (caller.sites) {
+    const allowed = new Set(caller.sites.map(site => site.toLowerCase()))
+    const requested = (context.site || []).filter(site => allowed.has(site.toLowerCase()))
+    context.site = requested.length > 0 ? requested : caller.sites
+  }
+
+  try {
+    const embed = await signEmbedUrl(searchParams.get('embed'), context, requiredContext)
+    if (!embed) {
+      return send(res, 404, { error: `Unknown embed "${searchParams.get('embed')}"` })
+    }
+    send(res, 200, embed)
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+const handleDataFile = async (res, name, caller) => {
+  try {
+    const text = await readDataFile(name, caller.sites)
+    if (text === null) {
+      return send(res, 404, { error: `Unknown data file "${name}"` })
+    }
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Cache-Control': 'no-store',
+    })
+    res.end(text)
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+const handleAlertRules = (res) => {
+  try {
+    send(res, 200, { rules: describeRules(), calendarFeed: isCalendarFeedEnabled() })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+// Each load posts its shipments; the backend finds the changes against the previous load and keeps them for the digests
+const handleAlertEvents = async (req, res, caller) => {
+  // A user limited to some sites only has those sites' shipments, which would read as every other site's being removed
+  if (caller.sites) {
+    return send(res, 403, { error: 'Users limited to some sites cannot post loads' })
+  }
+  try {
+    const body = await readJson(req)
+    if (!body || typeof body !== 'object' || !Array.isArray(body.shipments)) {
+      return send(res, 400, { error: 'Expected { shipments: [...] }' })
+    }
+    send(res, 200, await processLoad(body.shipments))
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+const handleDigest = async (res, searchParams) => {
+  try {
+    const rule = loadRules().find(entry => entry.id === searchParams.get('rule') && entry.trigger === 'digest')
+    if (!rule) {
+      return send(res, 404, { error: `Unknown digest rule "${searchParams.get('rule')}"` })
+    }
+    const count = await sendDigest(rule)
+    if (count === null) {
+      return send(res, 409, { error: digestDataProblem() })
+    }
+    send(res, 200, { rule: rule.id, shipments: count })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+const AFTERSHIP_OFF = 'Live AfterShip tracking is off. Set AFTERSHIP_API_KEY to turn it on.'
+
+// The AfterShip account holds every site's trackings, so users limited to some sites only get those in their sites' shipments
+const siteFilter = async (caller) => {
+  if (!caller.sites) {
+    return () => true
+  }
+  const allowed = await readSiteTrackingNumbers(caller.sites)
+  return (trackingNumber) => allowed.has(String(trackingNumber || '').trim().toUpperCase())
+}
+
+const handleAfterShipTrackings = async (res, caller) => {
+  if (!isAfterShipEnabled()) {
+    return send(res, 404, { error: AFTERSHIP_OFF })
+  }
+  try {
+    const allowed = await siteFilter(caller)
+    send(res, 200, { trackings: (await listTrackings()).filter(tracking => allowed(tracking.tracking_number)) })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+// Live trackings for the app's rows; ones AfterShip doesn't know yet are only registered for receivers and admins
+const handleAfterShipLookup = async (req, res, caller) => {
+  if (!isAfterShipEnabled()) {
+    return send(res, 404, { error: AFTERSHIP_OFF })
+  }
+  try {
+    const body = await readJson(req)
+    if (!body || typeof body !== 'object' || !Array.isArray(body.trackings)) {
+      return send(res, 400, { error: 'Expected { trackings: [...] }' })
+    }
+    if (body.trackings.length > MAX_AFTERSHIP_LOOKUPS) {
+      return send(res, 400, { error: `At most ${MAX_AFTERSHIP_LOOKUPS} trackings per request` })
+    }
+    const allowed = await siteFilter(caller)
+    const lookups = body.trackings
+      .filter(entry => entry && typeof entry === 'object' && String(entry.tracking_number || '').trim() && allowed(entry.tracking_number))
+      .map(entry => ({
+        tracking_number: String(entry.tracking_number).trim(),
+        slug: entry.slug ? String(entry.slug) : undefined,
+        title: entry.title ? String(entry.title) : undefined,
+      }))
+    const create = ROLES.indexOf(caller.role) >= ROLES.indexOf('receiver')
+    send(res, 200, { trackings: (await lookupTrackings(lookups, { create })).filter(Boolean) })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+// The signed-in user's own feed URL, as a path under the API's origin
+const handleCalendarFeedUrl = async (res, caller) => {
+  if (!isCalendarFeedEnabled()) {
+    return send(res, 404, { error: 'The calendar feed is off. Set CALENDAR_FEED_SECRET to turn it on.' })
+  }
+  try {
+    const token = await createFeedToken(caller)
+    send(res, 200, { path: `/api/calendar.ics?token=${encodeURIComponent(token)}` })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+// Invalidates every feed URL the user was given and returns a new one. Admins can revoke another user's with ?sub=
+const handleCalendarRevoke = async (res, searchParams, caller) => {
+  if (!isCalendarFeedEnabled()) {
+    return send(res, 404, { error: 'The calendar feed is off. Set CALENDAR_FEED_SECRET to turn it on.' })
+  }
+  const sub = searchParams.get('sub') || String(caller.sub || '')
+  if (sub !== String(caller.sub || '') && caller.role !== 'admin') {
+    return send(res, 403, { error: "Only admins can revoke another user's calendar feed" })
+  }
+  try {
+    revokeFeedTokens(sub)
+    if (sub !== String(caller.sub || '')) {
+      return send(res, 200, { sub })
+    }
+    const token = await createFeedToken(caller)
+    send(res, 200, { path: `/api/calendar.ics?token=${encodeURIComponent(token)}` })
+  } catch (error) {
+    sendError(res, error)
+  }
+}
+
+const handleCalendarFeed = async (res, searchParams) => {
+  if (!isCalendarFeedEnabled()) {
+    return send(res, 404, { error: 'The calendar feed is off. Set CALENDAR_FEED_SECRET to turn it on.' })
+  }
+  const feed = await verifyFeedToken(searchParams.get('token'))
+  if (!feed) {
+    return send(res, 401, { error: 'Invalid calendar feed token' })
+  }
+
+  // Feeds of users limited to some sites stay within them, whatever sites the URL asks for
+  let sites = searchParams.getAll('site')
+  if (feed.sites) {
+    const allowed = new Set(feed.sites.map(site => site.toLowerCase()))
+    const requested = sites.filter(site => allowed.has(site.toLowerCase()))
+    sites = requested.length > 0 ? requested : feed.sites
+  }
+
+  // Until a browser has posted a load the feed is an empty calendar, which clients handle better than an error
+  const latest = getLatestShipments()
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Cache-Control': 'no-store',
+  })
+  res.end(buildCalendar(latest ? latest.shipments : [], sites))
+}
+
+export const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    return res.end()
+  }
+
+  const { pathname, searchParams } = new URL(req.url, `http://localhost:${PORT}`)
+
+  if (req.method === 'GET' && pathname === '/api/health') {
+    return send(res, 200, { ok: true })
+  }
+
+  // Calendar clients can't sign in, so the feed checks its own token instead
+  if (req.method === 'GET' && pathname === '/api/calendar.ics') {
+    return handleCalendarFeed(res, searchParams)
+  }
+
+  // Everything else needs a signed-in user. Posting loads fires the alert rules, so it is for
+  // receivers; sending a digest on demand is for admins.
+  const role = pathname === '/api/alerts/digest' ? 'admin' : pathname === '/api/alerts/events' ? 'receiver' : 'viewer'
+  let caller
+  try {
+    caller = await authorize(req, role)
+  } catch (error) {
+    return sendError(res, error)
+  }
+
+  if (req.method === 'GET' && pathname === '/api/metabase/embeds') {
+    return handleEmbeds(res)
+  }
+
+  if (req.method === 'GET' && pathname === '/api/metabase/embed-url') {
+    return handleEmbedUrl(res, searchParams, caller)
+  }
+
+  if (req.method === 'GET' && pathname === '/api/calendar/feed-url') {
+    return handleCalendarFeedUrl(res, caller)
+  }
+
+  if (req.method === 'GET' && pathname === '/api/aftership/trackings') {
+    return handleAfterShipTrackings(res, caller)
+  }
+
+  if (req.method === 'POST' && pathname === '/api/aftership/lookup') {
+    return handleAfterShipLookup(req, res, caller)
+  }
+
+  if (req.method === 'POST' && pathname === '/api/calendar/revoke') {
+    return handleCalendarRevoke(res, searchParams, caller)
+  }
+
+  if (req.method === 'GET' && pathname.startsWith('/api/data/')) {
+    return handleDataFile(res, pathname.slice('/api/data/'.length), caller)
+  }
+
+  if (req.method === 'GET' && pathname === '/api/alerts/rules') {
+    return handleAlertRules(res)
+  }
+
+  if (req.method === 'POST' && pathname === '/api/alerts/events') {
+    return handleAlertEvents(req, res, caller)
+  }
+
+  // Sends a digest immediately, e.g. to try out a rule
+  if (req.method === 'POST' && pathname === '/api/alerts/digest') {
+    return handleDigest(res, searchParams)
+  }
+
+  send(res, 404, { error: 'Not found' })
+})
+
+startDigestScheduler()
+
+server.listen(PORT, () => {
+  console.log(`Order Tracker API listening on http://localhost:${PORT}`)
+  describeAuthProblems().forEach(problem => console.warn(`WARNING: ${problem}`))
+})
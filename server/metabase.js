@@ -0,0 +1,135 @@
+// Metabase static embedding - the embed catalogue and token signing
+import fs from 'node:fs'
+import { SignJWT } from 'jose'
+
+const EXPIRATION_MINUTES = Number(process.env.METABASE_EXPIRATION_MINUTES || 10)
+const EMBEDS_FILE = process.env.METABASE_EMBEDS_FILE || new URL('./metabase-embeds.json', import.meta.url)
+
+const EMBED_TYPES = ['question', 'dashboard']
+const EMBED_PLACEMENTS = ['analytics', 'order']
+
+// App context values the client may send; each embed maps its Metabase parameters onto these
+export const CONTEXT_KEYS = ['supplier', 'po_number', 'order_id', 'tracking_number', 'job_name', 'date_from', 'date_to', 'date_range', 'site']
+
+export class MetabaseConfigError extends Error {
+  constructor(message, missing = []) {
+    super(message)
+    this.name = 'MetabaseConfigError'
+    this.missing = missing
+  }
+}
+
+/**
+ * Read the embed catalogue. Without a catalogue file, METABASE_QUESTION_ID
+ * becomes a single unfiltered question on the Analytics page.
+ */
+export function loadEmbedCatalogue() {
+  if (!fs.existsSync(EMBEDS_FILE)) {
+    const questionId = process.env.METABASE_QUESTION_ID
+    if (!questionId) {
+      return []
+    }
+    return [{ id: 'default', title: 'Analytics', type: 'question', resourceId: Number(questionId), placements: ['analytics'], params: {} }]
+  }
+
+  const entries = JSON.parse(fs.readFileSync(EMBEDS_FILE, 'utf8'))
+  if (!Array.isArray(entries)) {
+    throw new MetabaseConfigError('Embed catalogue must be a JSON array')
+  }
+
+  return entries.map((entry, index) => {
+    const where = `Embed catalogue entry ${index + 1}`
+    if (!entry.id || !entry.title) {
+      throw new MetabaseConfigError(`${where} needs an id and a title`)
+    }
+    if (!EMBED_TYPES.includes(entry.type)) {
+      throw new MetabaseConfigError(`${where} (${entry.id}) has unknown type "${entry.type}"`)
+    }
+    if (!Number.isInteger(Number(entry.resourceId))) {
+      throw new MetabaseConfigError(`${where} (${entry.id}) needs a numeric resourceId`)
+    }
+
+    const params = entry.params || {}
+    for (const [slug, contextKey] of Object.entries(params)) {
+      if (!CONTEXT_KEYS.includes(contextKey)) {
+        throw new MetabaseConfigError(`${where} (${entry.id}) maps "${slug}" to unknown context "${contextKey}"`)
+      }
+    }
+
+    const placements = (entry.placements || ['analytics']).filter(placement => EMBED_PLACEMENTS.includes(placement))
+    return { id: String(entry.id), title: entry.title, type: entry.type, resourceId: Number(entry.resourceId), placements, params }
+  })
+}
+
+/**
+ * Describe the catalogue for the client - titles, placements and the context each embed needs
+ */
+export function describeEmbeds() {
+  return loadEmbedCatalogue().map(({ id, title, type, placements, params }) => ({
+    id,
+    title,
+    type,
+    placements,
+    context: [...new Set(Object.values(params))],
+  }))
+}
+
+/**
+ * Lock each Metabase parameter to its context value. Missing context is sent
+ * as null, which Metabase treats as "no filter" for a locked parameter.
+ */
+export function buildLockedParams(embed, context) {
+  const params = {}
+  for (const [slug, contextKey] of Object.entries(embed.params)) {
+    const value = context[contextKey]
+    // List values (the selected sites) lock the parameter to any of them
+    params[slug] = value === undefined || value === '' || (Array.isArray(value) && value.length === 0) ? null : value
+  }
+  return params
+}
+
+/**
+ * Sign a Metabase static embedding token for a catalogue entry. Embeds that don't lock
+ * every key in `requiredContext` are refused rather than shown unfiltered.
+ */
+export async function signEmbedUrl(embedId, context = {}, requiredContext = []) {
+  const siteUrl = (process.env.METABASE_SITE_URL || '').replace(/\/$/, '')
+  const secretKey = process.env.METABASE_SECRET_KEY || ''
+  const missing = [!siteUrl && 'METABASE_SITE_URL', !secretKey && 'METABASE_SECRET_KEY'].filter(Boolean)
+
+  const catalogue = loadEmbedCatalogue()
+  if (catalogue.length === 0) {
+    missing.push('METABASE_QUESTION_ID or METABASE_EMBEDS_FILE')
+  }
+  if (missing.length > 0) {
+    // Report which settings are missing, never their values
+    throw new MetabaseConfigError('Metabase is not configured', missing)
+  }
+
+  const embed = embedId
+    ? catalogue.find(entry => entry.id === embedId)
+    : catalogue.find(entry => entry.placements.includes('analytics'))
+  if (!embed) {
+    return null
+  }
+  const unlocked = requiredContext.filter(key => !Object.values(embed.params).includes(key))
+  if (unlocked.length > 0) {
+    throw new MetabaseConfigError(`Embed "${embed.id}" must map a parameter to ${unlocked.join(', ')} to be shown to this user`)
+  }
+
+  const now = Math.round(Date.now() / 1000)
+  const expiresAt = now + EXPIRATION_MINUTES * 60
+
+  // Metabase requires 'params' to always be present, even if empty
+  const token = await new SignJWT({ resource: { [embed.type]: embed.resourceId }, params: buildLockedParams(embed, context) })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt(now)
+    .setExpirationTime(expiresAt)
+    .sign(new TextEncoder().encode(secretKey))
+
+  return {
+    id: embed.id,
+    url: `${siteUrl}/embed/${embed.type}/${token}#bordered=true&titled=true`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  }
+}
@@ -0,0 +1,30 @@
+export type ChangeType = 'added' | 'removed' | 'tracking_changed' | 'carrier_changed' | 'eta_changed' | 'status_changed'
+
+// The fields of a shipment kept in a snapshot - enough to diff and to describe a change
+export interface SnapshotEntry {
+  tracking_number: string
+  order_id?: string
+  po_number?: string
+  from_company?: string
+  recipient_name?: string // Site, so changes can be scoped like the other views
+  slug: string
+  tag: string
+  estimated_delivery?: string
+}
+
+export interface ShipmentChange {
+  type: ChangeType
+  tracking_number: string
+  previous_tracking_number?: string // For tracking_changed
+  order_id?: string
+  po_number?: string
+  from_company?: string
+  recipient_name?: string
+  from?: string // Previous carrier, ETA or status
+  to?: string
+  days_slipped?: number // For eta_changed: positive when the ETA moved later
+}
+
+export declare const normalizeKey: (trackingNumber: string) => string
+export declare function diffSnapshots(previous: SnapshotEntry[], current: SnapshotEntry[]): ShipmentChange[]
+export declare function describeChange(change: ShipmentChange, carrierName: (slug: string) => string): string
@@ -0,0 +1,119 @@
+// Change detection shared by the app's Activity page and the backend's alert rules, so both
+// find the same changes between two loads and describe them the same way
+import { parseDate, daysBetween } from './dates.js'
+import { getStatusLabel, formatDate } from './format.js'
+
+export const normalizeKey = (trackingNumber) => trackingNumber.trim().toUpperCase()
+
+// A removed and a new shipment for the same order and PO are one shipment whose tracking number changed
+const orderKey = (entry) =>
+  entry.order_id ? `${entry.order_id}|${entry.po_number || ''}`.toLowerCase() : null
+
+const describe = (entry) => ({
+  tracking_number: entry.tracking_number,
+  order_id: entry.order_id,
+  po_number: entry.po_number,
+  from_company: entry.from_company,
+  recipient_name: entry.recipient_name,
+})
+
+/**
+ * Compare two snapshots and list what changed, shipment by shipment
+ */
+export function diffSnapshots(previous, current) {
+  const previousByKey = new Map(previous.map(entry => [normalizeKey(entry.tracking_number), entry]))
+  const currentByKey = new Map(current.map(entry => [normalizeKey(entry.tracking_number), entry]))
+  const changes = []
+
+  const added = current.filter(entry => !previousByKey.has(normalizeKey(entry.tracking_number)))
+  const removed = previous.filter(entry => !currentByKey.has(normalizeKey(entry.tracking_number)))
+
+  // Pair up re-labelled shipments before reporting the rest as added or removed
+  const removedByOrder = new Map()
+  removed.forEach(entry => {
+    const key = orderKey(entry)
+    if (key && !removedByOrder.has(key)) removedByOrder.set(key, entry)
+  })
+  const relabelled = new Set()
+
+  added.forEach(entry => {
+    const key = orderKey(entry)
+    const before = key ? removedByOrder.get(key) : undefined
+    if (before) {
+      removedByOrder.delete(key)
+      relabelled.add(before)
+      changes.push({
+        type: 'tracking_changed',
+        ...describe(entry),
+        previous_tracking_number: before.tracking_number,
+        from: before.tracking_number,
+        to: entry.tracking_number,
+      })
+    } else {
+      changes.push({ type: 'added', ...describe(entry) })
+    }
+  })
+
+  removed
+    .filter(entry => !relabelled.has(entry))
+    .forEach(entry => changes.push({ type: 'removed', ...describe(entry) }))
+
+  current.forEach(entry => {
+    const before = previousByKey.get(normalizeKey(entry.tracking_number))
+    if (!before) return
+
+    if (before.slug !== entry.slug) {
+      changes.push({ type: 'carrier_changed', ...describe(entry), from: before.slug, to: entry.slug })
+    }
+
+    if ((before.estimated_delivery || '') !== (entry.estimated_delivery || '')) {
+      const beforeEta = parseDate(before.estimated_delivery)
+      const afterEta = parseDate(entry.estimated_delivery)
+      const slipped = beforeEta && afterEta ? daysBetween(beforeEta, afterEta) : undefined
+      // Reformatted dates that land on the same day aren't a change
+      if (slipped !== 0) {
+        changes.push({
+          type: 'eta_changed',
+          ...describe(entry),
+          from: before.estimated_delivery,
+          to: entry.estimated_delivery,
+          days_slipped: slipped,
+        })
+      }
+    }
+
+    if (before.tag !== entry.tag) {
+      changes.push({ type: 'status_changed', ...describe(entry), from: before.tag, to: entry.tag })
+    }
+  })
+
+  return changes
+}
+
+/**
+ * One-line summary of a change, e.g. "ETA Nov 10, 2025 → Nov 14, 2025 (4 days later)".
+ * Carrier names come from the caller: the app has the carrier registry, the backend the names the app posted.
+ */
+export function describeChange(change, carrierName) {
+  switch (change.type) {
+    case 'added':
+      return 'New shipment'
+    case 'removed':
+      return 'No longer in the data'
+    case 'tracking_changed':
+      return `Tracking number ${change.from} → ${change.to}`
+    case 'carrier_changed':
+      return `Carrier ${carrierName(change.from || '')} → ${carrierName(change.to || '')}`
+    case 'status_changed':
+      return `Status ${getStatusLabel(change.from || '')} → ${getStatusLabel(change.to || '')}`
+    case 'eta_changed': {
+      const from = change.from ? formatDate(change.from) : 'none'
+      const to = change.to ? formatDate(change.to) : 'none'
+      const slipped = change.days_slipped
+      const delta = slipped === undefined ? ''
+        : slipped > 0 ? ` (${slipped} days later)`
+        : ` (${-slipped} days earlier)`
+      return `ETA ${from} → ${to}${delta}`
+    }
+  }
+}
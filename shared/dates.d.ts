@@ -0,0 +1,3 @@
+export declare const parseDate: (value?: string) => Date | null
+export declare const startOfDay: (date?: Date) => Date
+export declare const daysBetween: (from: Date, to: Date) => number
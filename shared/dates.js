@@ -0,0 +1,37 @@
+// Date helpers shared by the app and the backend
+
+/**
+ * Parse a CSV date value. Date-only strings (e.g. 2025-11-13) are read as local
+ * midnight to avoid timezone shifts. Returns null for empty or unparseable values.
+ */
+export const parseDate = (value) => {
+  if (!value) return null
+
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const dateOnlyMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  const date = dateOnlyMatch
+    ? new Date(Number(dateOnlyMatch[1]), Number(dateOnlyMatch[2]) - 1, Number(dateOnlyMatch[3]))
+    : new Date(trimmed)
+
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Local midnight of the given date (today when omitted)
+ */
+export const startOfDay = (date = new Date()) => {
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  return day
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Whole calendar days from `from` to `to` (negative when `to` is earlier)
+ */
+export const daysBetween = (from, to) => {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY)
+}
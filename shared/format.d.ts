@@ -0,0 +1,2 @@
+export declare const getStatusLabel: (tag: string) => string
+export declare const formatDate: (dateString?: string) => string
@@ -0,0 +1,38 @@
+// Display helpers for statuses and dates shared by the app and the backend
+
+export const getStatusLabel = (tag) => {
+  return tag?.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'Unknown'
+}
+
+export const formatDate = (dateString) => {
+  if (!dateString) return 'N/A'
+
+  const trimmed = dateString.trim()
+  if (!trimmed) return 'N/A'
+
+  // Handle date-only strings (e.g., 2025-11-13) without timezone shifts
+  const dateOnlyMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (dateOnlyMatch) {
+    const [, year, month, day] = dateOnlyMatch
+    const date = new Date(Number(year), Number(month) - 1, Number(day))
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    })
+  }
+
+  try {
+    const date = new Date(trimmed)
+    if (isNaN(date.getTime())) return dateString
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  } catch {
+    return dateString
+  }
+}
@@ -0,0 +1,3 @@
+export declare const allDayEvent: (uid: string, date: Date, summary: string, description: string[], stamp: string) => string[]
+export declare const buildCalendarText: (events: string[][]) => string
+export declare const calendarStamp: () => string
@@ -0,0 +1,62 @@
+// iCalendar (RFC 5545) helpers shared by the Calendar page's .ics export and the backend's calendar feed
+
+const pad = (value) => String(value).padStart(2, '0')
+
+// iCalendar text values escape backslashes, semicolons, commas and newlines (RFC 5545 3.3.11)
+const escapeText = (value) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space
+const foldLine = (line) => {
+  const encoder = new TextEncoder()
+  const parts = []
+  let current = ''
+  let size = 0
+  // Iterating by code point keeps emoji and other multi-byte characters whole
+  for (const char of line) {
+    const length = encoder.encode(char).length
+    if (size + length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += length
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// The local calendar date as YYYYMMDD
+const dateValue = (date) => `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+
+/**
+ * The lines of an all-day event on the given local date. Empty description lines are left out.
+ */
+export const allDayEvent = (uid, date, summary, description, stamp) => [
+  'BEGIN:VEVENT',
+  `UID:${uid}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART;VALUE=DATE:${dateValue(date)}`,
+  `DTEND;VALUE=DATE:${dateValue(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1))}`,
+  `SUMMARY:${escapeText(summary)}`,
+  `DESCRIPTION:${escapeText(description.filter(Boolean).join('\n'))}`,
+  'TRANSP:TRANSPARENT',
+  'END:VEVENT',
+]
+
+/**
+ * The delivery calendar around the given events' lines, folded and with CRLF line endings
+ */
+export const buildCalendarText = (events) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Order Tracker//Delivery Calendar//EN',
+  'CALSCALE:GREGORIAN',
+  'X-WR-CALNAME:Order Tracker deliveries',
+  ...events.flat(),
+  'END:VCALENDAR',
+].map(foldLine).join('\r\n') + '\r\n'
+
+// DTSTAMP value for the current time, e.g. 20261019T080000Z
+export const calendarStamp = () => new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
@@ -1,70 +1,195 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import './App.css'
-import { csvService, TrackingInfo, POItem } from './services/csvService'
+import { csvService, POItem } from './services/csvService'
+import { dataSourceService, Shipment } from './services/dataSources'
 import Sidebar from './components/Sidebar'
-import { getMetabaseEmbedUrl } from './services/metabase'
-
-type SortColumn = 'tracking_number' | 'order_id' | 'po_number' | 'from_company' | 'recipient_name' | 'carrier' | 'status' | 'ship_date' | 'estimated_delivery'
-type SortDirection = 'asc' | 'desc' | null
-
-function App() {
-  const [activePage, setActivePage] = useState('tracking')
-  const [trackings, setTrackings] = useState<TrackingInfo[]>([])
-  const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState<string[]>([])
-  const [sortColumn, setSortColumn] = useState<SortColumn | null>(null)
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null)
-  const [selectedTracking, setSelectedTracking] = useState<TrackingInfo | null>(null)
+import CheckpointTimeline from './components/CheckpointTimeline'
+import ImportPage from './components/ImportPage'
+import DataQualityPage from './components/DataQualityPage'
+import ExportMenu from './components/ExportMenu'
+import MetabaseCatalog from './components/MetabaseCatalog'
+import AnalyticsCharts from './components/AnalyticsCharts'
+import SuppliersPage from './components/SuppliersPage'
+import JobsPage from './components/JobsPage'
+import ReceivingPage from './components/ReceivingPage'
+import AnnotationPanel from './components/AnnotationPanel'
+import ActivityPage from './components/ActivityPage'
+import MapPage from './components/MapPage'
+import CalendarPage from './components/CalendarPage'
+import RefreshMenu from './components/RefreshMenu'
+import { fetchMetabaseEmbeds, getShipmentContext } from './services/metabase'
+import { RISK_LABELS, RISK_COLORS, RiskLevel } from './services/riskService'
+import { receiptStore, Receipt } from './services/receiptStore'
+import { applyReceiving, buildReceivedQuantities, getReceivedQuantity, getOutstandingQuantity } from './services/receivingService'
+import { annotationStore, Annotation } from './services/annotationStore'
+import { applyAnnotation, buildAnnotationMap, getAnnotation, getKnownTags } from './services/annotationService'
+import { snapshotStore } from './services/snapshotStore'
+import { backgroundRefresh, getRefreshSettings, saveRefreshSettings, RefreshSettings } from './services/backgroundRefresh'
+import { detectNotifications, showNotifications } from './services/notificationService'
+import { postLoad } from './services/alerts'
+import { canAccessPage, hasPermission, AuthUser, LOCAL_USER } from './services/auth'
+import {
+  buildSites,
+  filterBySites,
+  filterChangeSetsBySites,
+  filterPOItemsByShipments,
+  getDefaultSites,
+  resolveSiteScope,
+  saveDefaultSites,
+} from './services/siteService'
+import { buildChangeSets, getLatestChanges, getShipmentChanges, describeChange, ChangeSet, CHANGE_LABELS } from './services/changeService'
+import { getTrackingUrl, getCarrierName } from './services/carriers'
+import { formatLocation, getConfidenceLevel, CONFIDENCE_COLORS, CONFIDENCE_LABELS, LOCATION_METHOD_LABELS } from './services/locationService'
+import { exportToCSV, exportToXLSX, exportPackingListsPDF, ExportColumn, ExportFormat, PackingList } from './services/exportService'
+import { getStatusColor, getStatusLabel, formatDate, formatColumnName } from './utils/format'
+import { parseLocation, syncUrl, RouteState, SortDirection, ViewMode, ItemSearchColumn } from './utils/router'
+
+const SORT_COLUMNS = ['tracking_number', 'order_id', 'po_number', 'from_company', 'recipient_name', 'carrier', 'status', 'ship_date', 'estimated_delivery'] as const
+type SortColumn = typeof SORT_COLUMNS[number]
+
+const toSortColumn = (value: string | null): SortColumn | null =>
+  SORT_COLUMNS.find(column => column === value) || null
+
+// Fields used internally that shouldn't appear as extra columns, details or search text
+const INTERNAL_FIELDS = ['checkpoints', 'sources', 'ship_date', 'reported_status', 'status_rule', 'status_reason',
+  'risk_level', 'risk_slack_days', 'risk_reason', 'carrier_reported', 'carrier_detected', 'carrier_mismatch',
+  'items_ordered', 'items_received', 'tags', 'notes', 'status_override', 'ship_to_address', 'destination_postal_code',
+  'destination_country', 'location_parse']
+
+// The CSV's ship date; sources without one (and older loads) fall back to the last update
+const getShipDate = (shipment: Shipment): string | undefined => shipment.ship_date || shipment.last_updated_at
+
+// Status filter buttons on the tracking page (delivered orders live in Order History)
+const STATUS_FILTERS = ['pending', 'in_transit', 'out_for_delivery', 'partially_received', 'overdue', 'exception']
+
+interface AppProps {
+  user: AuthUser // Signed-in user, or the local admin when sign-in is off
+}
+
+function App({ user }: AppProps) {
+  // Initial view comes from the URL so shared links open the same page, filters and order
+  const [initialRoute] = useState(() => parseLocation(window.location.pathname, window.location.search))
+  const [activePage, setActivePage] = useState(initialRoute.page)
+  const [loadedTrackings, setLoadedTrackings] = useState<Shipment[]>([])
+  const [searchTerm, setSearchTerm] = useState(initialRoute.search)
+  const [statusFilter, setStatusFilter] = useState<string[]>(initialRoute.statuses)
+  const [riskFilter, setRiskFilter] = useState<RiskLevel[]>(initialRoute.risks as RiskLevel[])
+  const [carrierFilter, setCarrierFilter] = useState(initialRoute.carrier)
+  // Links can name sites; otherwise the user's saved default applies
+  const [selectedSites, setSelectedSites] = useState<string[]>(() =>
+    initialRoute.sites.length > 0 ? initialRoute.sites : getDefaultSites(user))
+  const [defaultSites, setDefaultSites] = useState<string[]>(() => getDefaultSites(user))
+  const [sortColumn, setSortColumn] = useState<SortColumn | null>(toSortColumn(initialRoute.sortColumn))
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialRoute.sortDirection)
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(initialRoute.orderId)
+  const [pageDetail, setPageDetail] = useState<string | null>(initialRoute.detail)
   const [poItemsMap, setPoItemsMap] = useState<Map<string, POItem[]>>(new Map())
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [viewMode, setViewMode] = useState<'orders' | 'items'>('orders')
-  const [itemSearchColumn, setItemSearchColumn] = useState<'all' | 'item_name' | 'part_number' | 'description' | 'color' | 'quantity' | 'po_number'>('all')
-  const [metabaseUrl, setMetabaseUrl] = useState<string | null>(null)
-  const [metabaseLoading, setMetabaseLoading] = useState(false)
+  const [viewMode, setViewMode] = useState<ViewMode>(initialRoute.viewMode)
+  const [itemSearchColumn, setItemSearchColumn] = useState<ItemSearchColumn>(initialRoute.itemSearchColumn)
+  const [metabaseAvailable, setMetabaseAvailable] = useState<boolean | null>(null)
+  const [hasOrderEmbeds, setHasOrderEmbeds] = useState(false)
+  const [showOrderAnalytics, setShowOrderAnalytics] = useState(false)
+  const [dataVersion, setDataVersion] = useState(0)
+  const [receipts, setReceipts] = useState<Receipt[]>([])
+  const [annotations, setAnnotations] = useState<Annotation[]>([])
+  const [changeSets, setChangeSets] = useState<ChangeSet[]>([])
+  const [refreshSettings, setRefreshSettings] = useState<RefreshSettings>(getRefreshSettings)
+  const [lastLoadedAt, setLastLoadedAt] = useState<string | null>(null)
+  // The previous load, for notifications - a ref so the background refresh callback sees the latest one
+  const previousLoadRef = useRef<Shipment[]>([])
+
+  // Receipts from the Receiving page override the loaded status of their POs,
+  // and notes, tags and manual overrides are matched back by tracking number on every load
+  const receivedQuantities = buildReceivedQuantities(receipts)
+  const annotationMap = buildAnnotationMap(annotations)
+  const allTrackings = loadedTrackings.map(tracking =>
+    applyAnnotation(applyReceiving(tracking, poItemsMap, receivedQuantities, receipts), annotationMap))
+
+  // Users limited to some sites never see the others. Within those, every view follows the site switcher.
+  const accessibleTrackings = user.sites ? filterBySites(allTrackings, user.sites) : allTrackings
+  const sites = buildSites(accessibleTrackings)
+  const siteScope = resolveSiteScope(selectedSites, user.sites)
+  const trackings = filterBySites(allTrackings, siteScope)
+  const sitePoItemsMap = siteScope.length > 0 ? filterPOItemsByShipments(poItemsMap, trackings) : poItemsMap
+
+  // What the most recent load that changed anything changed, for the row badges
+  const latestChanges = getLatestChanges(changeSets)
 
   useEffect(() => {
     loadTrackings()
     loadPOItems()
+    loadReceipts()
+    loadAnnotations()
   }, [])
 
-  // Load Metabase embed URL when analytics page is active
+  // Keep the URL in sync with the current view
   useEffect(() => {
-    if (activePage === 'analytics') {
-      loadMetabaseUrl()
-      
-      // Refresh the URL every 9 minutes (before 10 minute expiration)
-      const refreshInterval = setInterval(() => {
-        loadMetabaseUrl()
-      }, 9 * 60 * 1000) // 9 minutes
-      
-      return () => clearInterval(refreshInterval)
-    }
-  }, [activePage])
+    syncUrl({
+      page: activePage,
+      orderId: selectedOrderId,
+      detail: pageDetail,
+      search: searchTerm,
+      statuses: statusFilter,
+      risks: riskFilter,
+      carrier: carrierFilter,
+      sites: selectedSites,
+      sortColumn,
+      sortDirection,
+      viewMode,
+      itemSearchColumn,
+    })
+  }, [activePage, selectedOrderId, pageDetail, searchTerm, statusFilter, riskFilter, carrierFilter, selectedSites, sortColumn, sortDirection, viewMode, itemSearchColumn])
 
-  const loadMetabaseUrl = async () => {
-    setMetabaseLoading(true)
-    try {
-      const url = await getMetabaseEmbedUrl()
-      if (url) {
-        setMetabaseUrl(url)
-      } else {
-        console.warn('Metabase URL generation returned null - check environment variables')
-        setMetabaseUrl(null)
-      }
-    } catch (err: any) {
-      console.error('Error loading Metabase URL:', err)
-      setMetabaseUrl(null)
-    } finally {
-      setMetabaseLoading(false)
+  // Restore the view when the user navigates with Back/Forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const route: RouteState = parseLocation(window.location.pathname, window.location.search)
+      setActivePage(route.page)
+      setSelectedOrderId(route.orderId)
+      setPageDetail(route.detail)
+      setSearchTerm(route.search)
+      setStatusFilter(route.statuses)
+      setRiskFilter(route.risks as RiskLevel[])
+      setCarrierFilter(route.carrier)
+      setSelectedSites(route.sites)
+      setSortColumn(toSortColumn(route.sortColumn))
+      setSortDirection(route.sortDirection)
+      setViewMode(route.viewMode)
+      setItemSearchColumn(route.itemSearchColumn)
     }
-  }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  // Reload in the background on the configured interval
+  useEffect(() => {
+    backgroundRefresh.start(refreshSettings.intervalMinutes, {
+      onLoaded: handleLoaded,
+      onError: (message) => console.warn('Background refresh failed:', message),
+    })
+    return () => backgroundRefresh.stop()
+  }, [refreshSettings.intervalMinutes])
+
+  // Only offer the Order Details analytics panel when the catalogue has order embeds
+  useEffect(() => {
+    fetchMetabaseEmbeds('order')
+      .then(embeds => setHasOrderEmbeds(embeds.length > 0))
+      .catch(() => setHasOrderEmbeds(false))
+  }, [])
+
+  // Collapse the panel when switching orders so embeds are only signed on request
+  useEffect(() => {
+    setShowOrderAnalytics(false)
+  }, [selectedOrderId])
 
   // Clear status filter when switching to order history (since all are delivered)
   // Also clear when switching to items view
   useEffect(() => {
     if (activePage === 'order-history' || viewMode === 'items') {
       setStatusFilter([])
+      setRiskFilter([])
     }
   }, [activePage, viewMode])
 
@@ -77,107 +202,92 @@ function App() {
     }
   }
 
-  const loadTrackings = async () => {
-    setLoading(true)
-    setError(null)
+  const loadReceipts = async () => {
+    setReceipts(await receiptStore.getReceipts())
+  }
+
+  const loadAnnotations = async () => {
+    setAnnotations(await annotationStore.getAnnotations())
+  }
+
+  const loadChangeSets = async () => {
+    setChangeSets(buildChangeSets(await snapshotStore.getSnapshots()))
+  }
+
+  // Keep a snapshot of every load so the Activity page can show what changed between them,
+  // and pass the load on to the backend's alert rules
+  const recordSnapshot = async (data: Shipment[]) => {
     try {
-      const data = await csvService.loadTrackings()
-      setTrackings(data)
+      await snapshotStore.recordLoad(data)
+      // Posting fires the alert rules, so it's for receivers. Site-limited users only load their
+      // sites' rows, which the backend would read as the others being removed.
+      if (hasPermission(user.role, 'receive') && !user.sites) {
+        postLoad(data).catch(err => console.warn('Failed to post the load to the alert rules:', err.message))
+      }
     } catch (err: any) {
-      setError(err.message || 'Failed to load tracking data from CSV')
-      console.error('Error loading trackings:', err)
-    } finally {
-      setLoading(false)
+      console.warn('Failed to record snapshot:', err.message)
     }
+    await loadChangeSets()
   }
 
-  const getStatusColor = (tag: string) => {
-    switch (tag?.toLowerCase()) {
-      case 'delivered': return '#10b981'
-      case 'in_transit': return '#3b82f6'
-      case 'pending': return '#f59e0b'
-      case 'exception': return '#ef4444'
-      case 'out_for_delivery': return '#8b5cf6'
-      default: return '#6b7280'
-    }
-  }
+  // Shared by manual and background loads. Reads the subscriptions from storage rather than
+  // state because the background refresh keeps the callback from the render that started it.
+  const handleLoaded = (data: Shipment[], loadedAt: string) => {
+    // Only about shipments at the user's own sites
+    const visible = user.sites ? filterBySites(data, user.sites) : data
+    const notifications = detectNotifications(previousLoadRef.current, visible, getRefreshSettings().notifyEvents)
+    showNotifications(notifications, setSelectedOrderId)
+    previousLoadRef.current = visible
 
-  const getStatusLabel = (tag: string) => {
-    return tag?.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()) || 'Unknown'
+    setLoadedTrackings(data)
+    setLastLoadedAt(loadedAt)
+    setDataVersion(version => version + 1)
+    recordSnapshot(data)
   }
 
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return 'N/A'
-
-    const trimmed = dateString.trim()
-    if (!trimmed) return 'N/A'
-
-    // Handle date-only strings (e.g., 2025-11-13) without timezone shifts
-    const dateOnlyMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-    if (dateOnlyMatch) {
-      const [, year, month, day] = dateOnlyMatch
-      const date = new Date(Number(year), Number(month) - 1, Number(day))
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      })
-    }
+  const updateDefaultSites = (sites: string[]) => {
+    saveDefaultSites(user, sites)
+    setDefaultSites(sites)
+  }
 
-    try {
-      const date = new Date(trimmed)
-      if (isNaN(date.getTime())) return dateString
-      return date.toLocaleString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      })
-    } catch {
-      return dateString
-    }
+  const updateRefreshSettings = (settings: RefreshSettings) => {
+    saveRefreshSettings(settings)
+    setRefreshSettings(settings)
   }
 
-  const getTrackingUrl = (trackingNumber: string, carrier: string): string | null => {
-    if (!trackingNumber || !carrier) return null
-
-    const normalizedCarrier = carrier.toLowerCase().trim()
-    const encodedTracking = encodeURIComponent(trackingNumber)
-
-    switch (normalizedCarrier) {
-      case 'ups':
-        return `https://www.ups.com/track?tracknum=${encodedTracking}`
-      case 'fedex':
-      case 'fedex express':
-      case 'fedex ground':
-        return `https://www.fedex.com/fedextrack/?trknbr=${encodedTracking}`
-      case 'usps':
-        return `https://tools.usps.com/go/TrackConfirmAction?qtc_tLabels1=${encodedTracking}`
-      case 'dhl':
-        return `https://www.dhl.com/en/express/tracking.html?AWB=${encodedTracking}`
-      case 'amazon':
-      case 'amazon logistics':
-        return `https://www.amazon.com/progress-tracker/package/${encodedTracking}`
-      case 'ontrac':
-        return `https://www.ontrac.com/tracking-results?tracking_number=${encodedTracking}`
-      case 'lasership':
-        return `https://lasership.com/track/${encodedTracking}`
-      default:
-        // Try generic tracking search
-        return `https://www.google.com/search?q=${encodedTracking}+tracking`
+  const loadTrackings = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await dataSourceService.loadShipments()
+      handleLoaded(data, new Date().toISOString())
+    } catch (err: any) {
+      setError(err.message || 'Failed to load tracking data')
+      console.error('Error loading trackings:', err)
+    } finally {
+      setLoading(false)
     }
   }
 
   // Filter trackings based on search term and status filter
-  const filterTrackings = (trackings: TrackingInfo[], search: string, statuses: string[]): TrackingInfo[] => {
+  const filterTrackings = (trackings: Shipment[], search: string, statuses: string[], risks: RiskLevel[], carrier: string): Shipment[] => {
     let filtered = trackings
 
+    // Apply carrier filter
+    if (carrier) {
+      filtered = filtered.filter(tracking => tracking.slug === carrier)
+    }
+
     // Apply status filter (multiple statuses)
     if (statuses.length > 0) {
       filtered = filtered.filter(tracking => statuses.includes(tracking.tag))
     }
 
+    // Apply requested-by date risk filter
+    if (risks.length > 0) {
+      filtered = filtered.filter(tracking => tracking.risk_level && risks.includes(tracking.risk_level))
+    }
+
     // Apply search filter - search across ALL fields including additional CSV fields
     if (search.trim()) {
       const searchLower = search.toLowerCase().trim()
@@ -194,14 +304,19 @@ function App() {
           tracking.recipient_name,
           tracking.destination_city,
           tracking.destination_state,
+          tracking.destination_postal_code,
+          tracking.ship_to_address,
           tracking.slug,
           tracking.tag,
           tracking.title,
           tracking.checkpoint_message,
           tracking.checkpoint_location,
-          formatDate(tracking.last_updated_at),
+          formatDate(getShipDate(tracking)),
           formatDate(tracking.estimated_delivery),
           formatDate(tracking.checkpoint_date),
+          tracking.status_override?.reason,
+          ...(tracking.tags || []),
+          ...(tracking.notes || []).map(note => note.text),
         )
 
         // Add all additional fields from the second CSV dynamically
@@ -212,7 +327,7 @@ function App() {
               !['id', 'tracking_number', 'order_id', 'po_number', 'from_company', 
                 'recipient_name', 'destination_city', 'destination_state', 'slug', 
                 'tag', 'title', 'checkpoint_message', 'checkpoint_location', 
-                'last_updated_at', 'estimated_delivery', 'checkpoint_date'].includes(key)) {
+                'last_updated_at', 'estimated_delivery', 'checkpoint_date', ...INTERNAL_FIELDS].includes(key)) {
             if (value !== null && value !== undefined && value !== '') {
               allFieldValues.push(value)
             }
@@ -232,7 +347,7 @@ function App() {
   }
 
   // Sort trackings
-  const sortTrackings = (trackings: TrackingInfo[], column: SortColumn | null, direction: SortDirection): TrackingInfo[] => {
+  const sortTrackings = (trackings: Shipment[], column: SortColumn | null, direction: SortDirection): Shipment[] => {
     if (!column || !direction) {
       return trackings
     }
@@ -271,8 +386,8 @@ function App() {
           bValue = b.tag || ''
           break
         case 'ship_date':
-          aValue = a.last_updated_at ? new Date(a.last_updated_at).getTime() : 0
-          bValue = b.last_updated_at ? new Date(b.last_updated_at).getTime() : 0
+          aValue = new Date(getShipDate(a) || 0).getTime()
+          bValue = new Date(getShipDate(b) || 0).getTime()
           break
         case 'estimated_delivery':
           aValue = a.estimated_delivery ? new Date(a.estimated_delivery).getTime() : 0
@@ -308,6 +423,10 @@ function App() {
     }
   }
 
+  const toggleRiskFilter = (risk: RiskLevel) => {
+    setRiskFilter(prev => prev.includes(risk) ? prev.filter(r => r !== risk) : [...prev, risk])
+  }
+
   const toggleStatusFilter = (status: string) => {
     setStatusFilter(prev => {
       if (prev.includes(status)) {
@@ -326,7 +445,7 @@ function App() {
       'id', 'tracking_number', 'slug', 'tag', 'title', 'order_id', 'po_number',
       'destination_city', 'destination_state', 'last_updated_at', 'estimated_delivery',
       'checkpoint_message', 'checkpoint_location', 'checkpoint_date',
-      'recipient_name', 'from_company'
+      'recipient_name', 'from_company', ...INTERNAL_FIELDS
     ])
     
     const firstTracking = trackings[0]
@@ -347,14 +466,12 @@ function App() {
     trackingsToShow = trackings.filter(t => t.tag?.toLowerCase() === 'delivered')
   }
 
-  const filteredTrackings = filterTrackings(trackingsToShow, searchTerm, statusFilter)
-  const sortedTrackings = sortTrackings(filteredTrackings, sortColumn, sortDirection)
+  const filteredTrackings = filterTrackings(trackingsToShow, searchTerm, statusFilter, riskFilter, carrierFilter)
 
-  const formatColumnName = (key: string): string => {
-    return key
-      .replace(/_/g, ' ')
-      .replace(/\b\w/g, l => l.toUpperCase())
-  }
+  // Open shipments expected after (or too close to) their job's requested-by date
+  const lateCount = trackings.filter(t => t.risk_level === 'late').length
+  const atRiskCount = trackings.filter(t => t.risk_level === 'at_risk').length
+  const sortedTrackings = sortTrackings(filteredTrackings, sortColumn, sortDirection)
 
   // Get all items from PO items map, optionally filtered by order status
   const getAllItems = (onlyDelivered?: boolean): POItem[] => {
@@ -368,7 +485,7 @@ function App() {
           .map(t => t.po_number!.toLowerCase())
       )
       
-      poItemsMap.forEach((items, poNumber) => {
+      sitePoItemsMap.forEach((items, poNumber) => {
         if (deliveredPONumbers.has(poNumber.toLowerCase())) {
           allItems.push(...items)
         }
@@ -381,14 +498,14 @@ function App() {
           .map(t => t.po_number!.toLowerCase())
       )
       
-      poItemsMap.forEach((items, poNumber) => {
+      sitePoItemsMap.forEach((items, poNumber) => {
         if (nonDeliveredPONumbers.has(poNumber.toLowerCase())) {
           allItems.push(...items)
         }
       })
     } else {
       // Get all items (no filter)
-      poItemsMap.forEach((items) => {
+      sitePoItemsMap.forEach((items) => {
         allItems.push(...items)
       })
     }
@@ -443,17 +560,23 @@ function App() {
   }
 
   // Find order by PO number
-  const findOrderByPONumber = (poNumber: string): TrackingInfo | null => {
+  const findOrderByPONumber = (poNumber: string): Shipment | null => {
     return trackings.find(t => 
       t.po_number?.toLowerCase() === poNumber.toLowerCase()
     ) || null
   }
 
+  // The open order is addressed by tracking number (falling back to id) so /orders/:id links survive reloads.
+  // Links can open orders at sites outside the current selection, but not outside the user's own sites.
+  const selectedTracking = selectedOrderId
+    ? accessibleTrackings.find(t => t.tracking_number === selectedOrderId || t.id === selectedOrderId) || null
+    : null
+
   // Handle item click - find and show the order
   const handleItemClick = (item: POItem) => {
     const order = findOrderByPONumber(item.po_number)
     if (order) {
-      setSelectedTracking(order)
+      setSelectedOrderId(order.tracking_number)
     }
   }
 
@@ -463,14 +586,112 @@ function App() {
     : getAllItems(false) // Only non-delivered orders' items
   const filteredItems = filterItems(allItems, searchTerm, itemSearchColumn)
 
+  // Export exactly what the table shows: the filtered/sorted rows and the visible columns
+  const handleExport = async (format: ExportFormat) => {
+    const isItemsView = viewMode === 'items'
+    const baseName = `${activePage === 'order-history' ? 'order-history' : 'order-tracker'}-${isItemsView ? 'items' : 'orders'}`
+
+    if (format === 'pdf') {
+      const packingLists: PackingList[] = []
+      if (isItemsView) {
+        const itemsByPO = new Map<string, POItem[]>()
+        filteredItems.forEach(item => {
+          const key = item.po_number.toLowerCase()
+          itemsByPO.set(key, [...(itemsByPO.get(key) || []), item])
+        })
+        itemsByPO.forEach(items => packingLists.push({
+          poNumber: items[0].po_number,
+          shipment: findOrderByPONumber(items[0].po_number) || undefined,
+          items,
+        }))
+      } else {
+        sortedTrackings.forEach(tracking => {
+          const items = tracking.po_number ? poItemsMap.get(tracking.po_number.toLowerCase()) : undefined
+          if (items && items.length > 0) {
+            packingLists.push({ poNumber: tracking.po_number!, shipment: tracking, items })
+          }
+        })
+      }
+      return exportPackingListsPDF(packingLists, `${baseName}-packing-lists`)
+    }
+
+    if (isItemsView) {
+      const columns: ExportColumn<POItem>[] = [
+        { label: 'PO Number', value: item => item.po_number },
+        { label: 'Item Name', value: item => item.item_name },
+        { label: 'Part Number', value: item => item.part_number },
+        { label: 'Description', value: item => item.description },
+        { label: 'Color', value: item => item.color },
+        { label: 'Quantity', value: item => Number(item.quantity) || String(item.quantity) },
+        { label: 'Received', value: item => getReceivedQuantity(item, receivedQuantities) },
+        { label: 'Outstanding', value: item => getOutstandingQuantity(item, receivedQuantities) },
+      ]
+      return format === 'csv'
+        ? exportToCSV(filteredItems, columns, baseName)
+        : exportToXLSX(filteredItems, columns, baseName, 'Items')
+    }
+
+    const columns: ExportColumn<Shipment>[] = [
+      { label: 'Tracking Number', value: t => t.tracking_number },
+      { label: 'Order Number', value: t => t.order_id || '' },
+      { label: 'PO Number', value: t => t.po_number || '' },
+      { label: 'From Company', value: t => t.from_company || '' },
+      { label: 'Carrier', value: t => getCarrierName(t.slug) },
+      { label: 'Status', value: t => getStatusLabel(t.tag) },
+      { label: 'Ship Date', value: t => getShipDate(t) || '' },
+      { label: 'Est. Delivery', value: t => t.estimated_delivery || '' },
+      { label: 'Tags', value: t => (t.tags || []).join(', ') },
+      { label: 'Notes', value: t => (t.notes || []).map(note => note.text).join(' | ') },
+      ...additionalColumns.map(column => ({
+        label: formatColumnName(column),
+        value: (t: Shipment) => t[column] ?? '',
+      })),
+    ]
+    return format === 'csv'
+      ? exportToCSV(sortedTrackings, columns, baseName)
+      : exportToXLSX(sortedTrackings, columns, baseName, 'Orders')
+  }
+
+  // "New" or "Changed" next to shipments the latest load changed, with the details on hover
+  const renderChangeBadge = (trackingNumber: string) => {
+    const changes = getShipmentChanges(latestChanges, trackingNumber)
+    if (changes.length === 0) return null
+    return (
+      <span className="row-change-badge" title={changes.map(describeChange).join('\n')}>
+        {changes.some(change => change.type === 'added') ? CHANGE_LABELS.added : 'Changed'}
+      </span>
+    )
+  }
+
   return (
     <div className="app">
-      <Sidebar activePage={activePage} onNavigate={setActivePage} />
+      <Sidebar
+        user={user}
+        sites={sites}
+        selectedSites={selectedSites}
+        defaultSites={defaultSites}
+        onSelectSites={setSelectedSites}
+        onSaveDefaultSites={updateDefaultSites}
+        activePage={activePage}
+        onNavigate={(page) => {
+          setActivePage(page)
+          setSelectedOrderId(null)
+          setPageDetail(null)
+        }}
+      />
       <div className="main-content">
         <header className="header">
           <h1>
             {activePage === 'order-history' ? 'Order History' 
               : activePage === 'analytics' ? 'Analytics'
+              : activePage === 'receiving' ? 'Receiving'
+              : activePage === 'activity' ? 'Activity'
+              : activePage === 'map' ? 'Map'
+              : activePage === 'calendar' ? 'Delivery Calendar'
+              : activePage === 'jobs' ? 'Jobs'
+              : activePage === 'suppliers' ? 'Suppliers'
+              : activePage === 'import' ? 'Import Data'
+              : activePage === 'data-quality' ? 'Data Quality'
               : 'Order Tracker'}
           </h1>
           <p className="subtitle">
@@ -478,8 +699,38 @@ function App() {
               ? 'View all delivered orders'
               : activePage === 'analytics'
               ? 'View analytics and insights'
+              : activePage === 'receiving'
+              ? 'Record items received per PO, in full or in part'
+              : activePage === 'activity'
+              ? 'What changed each time the data was loaded'
+              : activePage === 'map'
+              ? 'Where open shipments are now and where they are headed'
+              : activePage === 'calendar'
+              ? 'Arrivals by estimated delivery date, with the dates jobs need them by'
+              : activePage === 'jobs'
+              ? 'Orders and items grouped by job, and which jobs are ready to install'
+              : activePage === 'suppliers'
+              ? 'Delivery scorecards for each vendor'
+              : activePage === 'import'
+              ? 'Upload new shipment, order info and PO item files'
+              : activePage === 'data-quality'
+              ? 'Row-level problems found in the CSV files'
               : 'Track all your orders from CSV data'}
           </p>
+          {activePage === 'tracking' && (lateCount > 0 || atRiskCount > 0) && (
+            <div className="header-risk-summary">
+              {lateCount > 0 && (
+                <span className="risk-summary-item" style={{ backgroundColor: RISK_COLORS.late }}>
+                  {lateCount} late for their job
+                </span>
+              )}
+              {atRiskCount > 0 && (
+                <span className="risk-summary-item" style={{ backgroundColor: RISK_COLORS.at_risk }}>
+                  {atRiskCount} at risk
+                </span>
+              )}
+            </div>
+          )}
         </header>
 
         {error && (
@@ -488,47 +739,83 @@ function App() {
           </div>
         )}
 
-        {activePage === 'analytics' ? (
+        {!canAccessPage(user.role, activePage) ? (
+          <div className="empty-state">
+            <p>You don't have access to this page. Ask an admin if you need it.</p>
+          </div>
+        ) : activePage === 'import' ? (
+          <ImportPage
+            onImported={() => {
+              loadTrackings()
+              loadPOItems()
+            }}
+          />
+        ) : activePage === 'data-quality' ? (
+          <DataQualityPage refreshKey={dataVersion} />
+        ) : activePage === 'receiving' ? (
+          <ReceivingPage
+            trackings={trackings}
+            poItemsMap={sitePoItemsMap}
+            receipts={receipts}
+            receivedQuantities={receivedQuantities}
+            poNumber={pageDetail}
+            onSelectPO={setPageDetail}
+            onReceiptsChange={loadReceipts}
+            onOpenOrder={setSelectedOrderId}
+            canReceive={hasPermission(user.role, 'receive')}
+            userName={user === LOCAL_USER ? undefined : user.name}
+          />
+        ) : activePage === 'activity' ? (
+          <ActivityPage
+            changeSets={filterChangeSetsBySites(changeSets, siteScope)}
+            trackingNumbers={new Set(accessibleTrackings.map(t => t.tracking_number))}
+            onOpenOrder={setSelectedOrderId}
+            onHistoryCleared={loadChangeSets}
+            canClearHistory={hasPermission(user.role, 'configure')}
+          />
+        ) : activePage === 'map' ? (
+          <MapPage trackings={trackings} onOpenOrder={setSelectedOrderId} />
+        ) : activePage === 'calendar' ? (
+          <CalendarPage
+            trackings={trackings}
+            day={pageDetail}
+            onSelectDay={setPageDetail}
+            onOpenOrder={setSelectedOrderId}
+          />
+        ) : activePage === 'jobs' ? (
+          <JobsPage
+            trackings={trackings}
+            poItemsMap={sitePoItemsMap}
+            job={pageDetail}
+            onSelectJob={setPageDetail}
+            onOpenOrder={setSelectedOrderId}
+          />
+        ) : activePage === 'suppliers' ? (
+          <SuppliersPage
+            trackings={trackings}
+            poItemsMap={sitePoItemsMap}
+            supplier={pageDetail}
+            onSelectSupplier={setPageDetail}
+            onOpenOrder={setSelectedOrderId}
+          />
+        ) : activePage === 'analytics' ? (
           <div className="analytics-container">
-            {metabaseLoading ? (
-              <div className="loading-state">
-                <p>Loading Metabase visualization...</p>
-              </div>
-            ) : metabaseUrl ? (
-              <div className="metabase-embed-wrapper">
-                <iframe
-                  src={metabaseUrl}
-                  className="metabase-iframe"
-                  title="Metabase Analytics"
-                  frameBorder="0"
-                  width="800"
-                  height="600"
-                  allowTransparency
-                  allow="fullscreen"
-                />
-              </div>
-            ) : (
-              <div className="metabase-config-message">
-                <p>⚠️ Metabase configuration issue detected</p>
-                <div className="metabase-instructions">
-                  <p><strong>Mixed Content Error:</strong></p>
-                  <p>Your site is served over HTTPS, but Metabase is using HTTP. Browsers block HTTP content on HTTPS pages for security.</p>
-                  <p><strong>Solution:</strong></p>
-                  <ol>
-                    <li>Configure your Metabase instance (artichoke-penguin.pikapod.net) to use HTTPS</li>
-                    <li>Update <code>VITE_METABASE_SITE_URL</code> in DigitalOcean to use <code>https://</code> instead of <code>http://</code></li>
-                    <li>Or check if your Pikapod instance supports HTTPS automatically</li>
-                  </ol>
-                  <p><strong>Current configuration:</strong></p>
-                  <ul>
-                    <li>VITE_METABASE_SITE_URL: {import.meta.env.VITE_METABASE_SITE_URL || 'NOT SET'}</li>
-                    <li>VITE_METABASE_SECRET_KEY: {import.meta.env.VITE_METABASE_SECRET_KEY ? 'SET (hidden)' : 'NOT SET'}</li>
-                    <li>VITE_METABASE_QUESTION_ID: {import.meta.env.VITE_METABASE_QUESTION_ID || 'NOT SET'}</li>
-                  </ul>
-                  <p><em>Check the browser console for the generated URL and any errors.</em></p>
-                </div>
-              </div>
+            {/* Built-in charts stand in for Metabase when it isn't configured, and sit below the embeds when it is */}
+            {metabaseAvailable !== false && (
+              <MetabaseCatalog
+                placement="analytics"
+                context={{ site: siteScope }}
+                suppliers={[...new Set(trackings.map(t => t.from_company || '').filter(Boolean))].sort()}
+                onAvailabilityChange={setMetabaseAvailable}
+              />
             )}
+            <AnalyticsCharts
+              trackings={trackings}
+              poItemsMap={sitePoItemsMap}
+              notice={metabaseAvailable === false
+                ? 'Metabase is not configured, so these charts are computed from the loaded data. See "Metabase Analytics" in the README to add embedded dashboards.'
+                : undefined}
+            />
           </div>
         ) : (
           <>
@@ -550,6 +837,18 @@ function App() {
         )}
 
         <div className="search-section">
+          {viewMode === 'orders' && (
+            <select
+              className="search-column-select"
+              value={carrierFilter}
+              onChange={(e) => setCarrierFilter(e.target.value)}
+            >
+              <option value="">All Carriers</option>
+              {[...new Set(trackings.map(t => t.slug).filter(Boolean))].sort().map(slug => (
+                <option key={slug} value={slug}>{getCarrierName(slug)}</option>
+              ))}
+            </select>
+          )}
           {((activePage === 'tracking' || activePage === 'order-history') && viewMode === 'items') && (
             <select
               className="search-column-select"
@@ -592,25 +891,35 @@ function App() {
         {activePage !== 'order-history' && viewMode === 'orders' && (
           <div className="status-filters">
             <button
-              className={`status-filter-button ${statusFilter.length === 0 ? 'active' : ''}`}
-              onClick={() => setStatusFilter([])}
+              className={`status-filter-button ${statusFilter.length === 0 && riskFilter.length === 0 ? 'active' : ''}`}
+              onClick={() => {
+                setStatusFilter([])
+                setRiskFilter([])
+              }}
             >
               All
             </button>
-            <button
-              className={`status-filter-button ${statusFilter.includes('in_transit') ? 'active' : ''}`}
-              onClick={() => toggleStatusFilter('in_transit')}
-              style={{ backgroundColor: statusFilter.includes('in_transit') ? '#3b82f6' : undefined }}
-            >
-              In Transit
-            </button>
-            <button
-              className={`status-filter-button ${statusFilter.includes('out_for_delivery') ? 'active' : ''}`}
-              onClick={() => toggleStatusFilter('out_for_delivery')}
-              style={{ backgroundColor: statusFilter.includes('out_for_delivery') ? '#8b5cf6' : undefined }}
-            >
-              Out For Delivery
-            </button>
+            {STATUS_FILTERS.map(status => (
+              <button
+                key={status}
+                className={`status-filter-button ${statusFilter.includes(status) ? 'active' : ''}`}
+                onClick={() => toggleStatusFilter(status)}
+                style={{ backgroundColor: statusFilter.includes(status) ? getStatusColor(status) : undefined }}
+              >
+                {getStatusLabel(status)}
+              </button>
+            ))}
+            {(['late', 'at_risk'] as RiskLevel[]).map(risk => (
+              <button
+                key={risk}
+                className={`status-filter-button ${riskFilter.includes(risk) ? 'active' : ''}`}
+                onClick={() => toggleRiskFilter(risk)}
+                style={{ backgroundColor: riskFilter.includes(risk) ? RISK_COLORS[risk] : undefined }}
+                title="Compared with the job's requested-by date"
+              >
+                ⚠ {RISK_LABELS[risk]} ({risk === 'late' ? lateCount : atRiskCount})
+              </button>
+            ))}
           </div>
         )}
 
@@ -622,16 +931,21 @@ function App() {
           >
             Refresh Data
           </button>
+          <RefreshMenu settings={refreshSettings} onChange={updateRefreshSettings} lastLoadedAt={lastLoadedAt} />
           <span className="tracking-count">
             {((activePage === 'tracking' || activePage === 'order-history') && viewMode === 'items')
               ? `${filteredItems.length} ${filteredItems.length === 1 ? 'item' : 'items'}`
-              : `${sortedTrackings.length} ${sortedTrackings.length === 1 ? 'order' : 'orders'}${(statusFilter.length > 0 || searchTerm) ? ` (of ${trackingsToShow.length} total)` : ''}`
+              : `${sortedTrackings.length} ${sortedTrackings.length === 1 ? 'order' : 'orders'}${(statusFilter.length > 0 || riskFilter.length > 0 || carrierFilter || searchTerm) ? ` (of ${trackingsToShow.length} total)` : ''}`
             }
           </span>
+          <ExportMenu
+            onExport={handleExport}
+            disabled={viewMode === 'items' ? filteredItems.length === 0 : sortedTrackings.length === 0}
+          />
         </div>
 
         <div className="trackings-container">
-          {loading && trackings.length === 0 ? (
+          {loading && allTrackings.length === 0 ? (
             <div className="loading-state">
               <p>Loading your orders from CSV...</p>
             </div>
@@ -652,6 +966,8 @@ function App() {
                       <th>Description</th>
                       <th>Color</th>
                       <th>Quantity</th>
+                      <th>Received</th>
+                      <th>Outstanding</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -671,6 +987,10 @@ function App() {
                           <td>{item.description || 'N/A'}</td>
                           <td>{item.color || 'N/A'}</td>
                           <td>{item.quantity || 'N/A'}</td>
+                          <td>{getReceivedQuantity(item, receivedQuantities)}</td>
+                          <td className={getOutstandingQuantity(item, receivedQuantities) > 0 ? 'outstanding-quantity' : ''}>
+                            {getOutstandingQuantity(item, receivedQuantities)}
+                          </td>
                         </tr>
                       )
                     })}
@@ -678,9 +998,13 @@ function App() {
                 </table>
               </div>
             )
+          ) : allTrackings.length === 0 ? (
+            <div className="empty-state">
+              <p>No orders found. Make sure the backend is running with TestCSVFile.csv in its data folder, or import a shipments file.</p>
+            </div>
           ) : trackings.length === 0 ? (
             <div className="empty-state">
-              <p>No orders found in CSV file. Make sure TestCSVFile.csv exists in the public folder.</p>
+              <p>No orders for the selected sites.</p>
             </div>
           ) : activePage === 'order-history' && trackingsToShow.length === 0 ? (
             <div className="empty-state">
@@ -770,23 +1094,57 @@ function App() {
                   {sortedTrackings.map(tracking => (
                     <tr 
                       key={tracking.id}
-                      onClick={() => setSelectedTracking(tracking)}
+                      onClick={() => setSelectedOrderId(tracking.tracking_number)}
                       className="clickable-row"
                     >
-                      <td>{tracking.tracking_number}</td>
+                      <td>
+                        {tracking.tracking_number}
+                        {renderChangeBadge(tracking.tracking_number)}
+                        {tracking.notes && tracking.notes.length > 0 && (
+                          <span className="note-indicator" title={tracking.notes[tracking.notes.length - 1].text}>
+                            {' '}📝{tracking.notes.length > 1 ? tracking.notes.length : ''}
+                          </span>
+                        )}
+                        {tracking.tags && tracking.tags.length > 0 && (
+                          <div className="row-tags">
+                            {tracking.tags.map(tag => <span key={tag} className="row-tag">{tag}</span>)}
+                          </div>
+                        )}
+                      </td>
                       <td>{tracking.order_id || 'N/A'}</td>
                       <td>{tracking.po_number || 'N/A'}</td>
                       <td>{tracking.from_company || 'N/A'}</td>
-                      <td>{tracking.slug ? tracking.slug.toUpperCase() : 'N/A'}</td>
+                      <td>
+                        {getCarrierName(tracking.slug)}
+                        {tracking.carrier_mismatch && (
+                          <span
+                            className="carrier-mismatch"
+                            title={`CSV says ${tracking.carrier_reported}, tracking number looks like ${getCarrierName(tracking.carrier_detected)}`}
+                          >
+                            {' '}⚠
+                          </span>
+                        )}
+                      </td>
                       <td>
                         <span 
                           className="status-badge-table"
                           style={{ backgroundColor: getStatusColor(tracking.tag) }}
+                          title={tracking.status_override ? tracking.status_reason : undefined}
                         >
                           {getStatusLabel(tracking.tag)}
+                          {tracking.status_override && ' ✎'}
                         </span>
+                        {(tracking.risk_level === 'late' || tracking.risk_level === 'at_risk') && (
+                          <span
+                            className="risk-badge"
+                            style={{ backgroundColor: RISK_COLORS[tracking.risk_level] }}
+                            title={tracking.risk_reason}
+                          >
+                            {RISK_LABELS[tracking.risk_level]}
+                          </span>
+                        )}
                       </td>
-                      <td>{tracking.last_updated_at ? formatDate(tracking.last_updated_at) : 'N/A'}</td>
+                      <td>{formatDate(getShipDate(tracking))}</td>
                       <td>{tracking.estimated_delivery ? formatDate(tracking.estimated_delivery) : 'N/A'}</td>
                       {additionalColumns.map(column => (
                         <td key={column}>{tracking[column] || 'N/A'}</td>
@@ -802,13 +1160,20 @@ function App() {
         )}
 
         {selectedTracking && (
-          <div className="modal-overlay" onClick={() => setSelectedTracking(null)}>
+          <div className="modal-overlay" onClick={() => setSelectedOrderId(null)}>
             <div className="modal-content" onClick={(e) => e.stopPropagation()}>
               <div className="modal-header">
                 <h2>Order Details</h2>
+                <button
+                  className="copy-link-button"
+                  onClick={() => navigator.clipboard?.writeText(window.location.href)}
+                  title="Copy a link to this order"
+                >
+                  🔗 Copy Link
+                </button>
                 <button 
                   className="modal-close-button"
-                  onClick={() => setSelectedTracking(null)}
+                  onClick={() => setSelectedOrderId(null)}
                 >
                   ×
                 </button>
@@ -842,7 +1207,17 @@ function App() {
                     </div>
                     <div className="modal-field">
                       <strong>Carrier:</strong>
-                      <span>{selectedTracking.slug ? selectedTracking.slug.toUpperCase() : 'N/A'}</span>
+                      <span>
+                        {getCarrierName(selectedTracking.slug)}
+                        {selectedTracking.carrier_mismatch && (
+                          <span className="carrier-mismatch">
+                            {' '}⚠ Source says {selectedTracking.carrier_reported}; tracking number matches {getCarrierName(selectedTracking.carrier_detected)}
+                          </span>
+                        )}
+                        {!selectedTracking.carrier_reported && selectedTracking.carrier_detected && (
+                          <span className="carrier-detected"> (detected from tracking number)</span>
+                        )}
+                      </span>
                     </div>
                     <div className="modal-field">
                       <strong>Status:</strong>
@@ -853,6 +1228,18 @@ function App() {
                         {getStatusLabel(selectedTracking.tag)}
                       </span>
                     </div>
+                    {selectedTracking.status_reason && (
+                      <div className="modal-field">
+                        <strong>Status Reason:</strong>
+                        <span title={`Rule: ${selectedTracking.status_rule}`}>{selectedTracking.status_reason}</span>
+                      </div>
+                    )}
+                    {getShipmentChanges(latestChanges, selectedTracking.tracking_number).length > 0 && (
+                      <div className="modal-field">
+                        <strong>Changed in Latest Load:</strong>
+                        <span>{getShipmentChanges(latestChanges, selectedTracking.tracking_number).map(describeChange).join('; ')}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -867,10 +1254,30 @@ function App() {
                       <strong>Recipient:</strong>
                       <span>{selectedTracking.recipient_name || 'N/A'}</span>
                     </div>
-                    {selectedTracking.destination_city && selectedTracking.destination_state && (
+                    {selectedTracking.location_parse && (
                       <div className="modal-field">
-                        <strong>Location:</strong>
-                        <span>{selectedTracking.destination_city}, {selectedTracking.destination_state}</span>
+                        <strong>Destination:</strong>
+                        <span>
+                          {selectedTracking.ship_to_address && <>{selectedTracking.ship_to_address}<br /></>}
+                          {formatLocation(selectedTracking.location_parse) || 'No city, state or postal code found'}
+                          <span
+                            className="confidence-badge"
+                            style={{ backgroundColor: CONFIDENCE_COLORS[getConfidenceLevel(selectedTracking.location_parse.confidence)] }}
+                            title={`${Math.round(selectedTracking.location_parse.confidence * 100)}% confidence`}
+                          >
+                            {CONFIDENCE_LABELS[getConfidenceLevel(selectedTracking.location_parse.confidence)]} confidence
+                          </span>
+                          <span className="location-parse-details">
+                            {selectedTracking.location_parse.method
+                              ? LOCATION_METHOD_LABELS[selectedTracking.location_parse.method]
+                              : 'The recipient name has no location'}
+                            {selectedTracking.location_parse.site && ` · Site: ${selectedTracking.location_parse.site}`}
+                            {selectedTracking.location_parse.company && ` · Company: ${selectedTracking.location_parse.company}`}
+                          </span>
+                          {selectedTracking.location_parse.warnings.map(warning => (
+                            <span key={warning} className="location-parse-warning">⚠ {warning}</span>
+                          ))}
+                        </span>
                       </div>
                     )}
                   </div>
@@ -881,12 +1288,29 @@ function App() {
                   <div className="modal-grid">
                     <div className="modal-field">
                       <strong>Ship Date:</strong>
-                      <span>{selectedTracking.last_updated_at ? formatDate(selectedTracking.last_updated_at) : 'N/A'}</span>
+                      <span>{formatDate(getShipDate(selectedTracking))}</span>
                     </div>
                     <div className="modal-field">
                       <strong>Estimated Delivery:</strong>
                       <span>{selectedTracking.estimated_delivery ? formatDate(selectedTracking.estimated_delivery) : 'N/A'}</span>
                     </div>
+                    {selectedTracking.requested_by_date && (
+                      <div className="modal-field">
+                        <strong>Requested By:</strong>
+                        <span>{formatDate(selectedTracking.requested_by_date)}</span>
+                      </div>
+                    )}
+                    {selectedTracking.risk_level && (
+                      <div className="modal-field">
+                        <strong>Schedule Risk:</strong>
+                        <span>
+                          <span className="risk-badge" style={{ backgroundColor: RISK_COLORS[selectedTracking.risk_level] }}>
+                            {RISK_LABELS[selectedTracking.risk_level]}
+                          </span>
+                          {' '}{selectedTracking.risk_reason}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -906,7 +1330,21 @@ function App() {
 
                 {selectedTracking.po_number && poItemsMap.has(selectedTracking.po_number.toLowerCase()) && (
                   <div className="modal-section">
-                    <h3>PO Items</h3>
+                    <h3 className="modal-section-heading">
+                      PO Items
+                      {hasPermission(user.role, 'receive') && (
+                        <button
+                          className="copy-link-button"
+                          onClick={() => {
+                            setActivePage('receiving')
+                            setPageDetail(selectedTracking.po_number!)
+                            setSelectedOrderId(null)
+                          }}
+                        >
+                          Receive Items
+                        </button>
+                      )}
+                    </h3>
                     <div className="po-items-table-wrapper">
                       <table className="po-items-table">
                         <thead>
@@ -916,6 +1354,8 @@ function App() {
                             <th>Description</th>
                             <th>Color</th>
                             <th>Quantity</th>
+                            <th>Received</th>
+                            <th>Outstanding</th>
                           </tr>
                         </thead>
                         <tbody>
@@ -926,6 +1366,8 @@ function App() {
                               <td>{item.description}</td>
                               <td>{item.color}</td>
                               <td>{item.quantity}</td>
+                              <td>{getReceivedQuantity(item, receivedQuantities)}</td>
+                              <td>{getOutstandingQuantity(item, receivedQuantities)}</td>
                             </tr>
                           ))}
                         </tbody>
@@ -938,7 +1380,7 @@ function App() {
                   !['id', 'tracking_number', 'slug', 'tag', 'order_id', 'po_number', 
                     'destination_city', 'destination_state', 'last_updated_at', 'estimated_delivery',
                     'checkpoint_message', 'checkpoint_location', 'checkpoint_date',
-                    'recipient_name', 'from_company', 'title'].includes(key) &&
+                    'recipient_name', 'from_company', 'title', ...INTERNAL_FIELDS].includes(key) &&
                   !additionalColumns.includes(key) &&
                   selectedTracking[key] !== null &&
                   selectedTracking[key] !== ''
@@ -950,7 +1392,7 @@ function App() {
                         !['id', 'tracking_number', 'slug', 'tag', 'order_id', 'po_number', 
                           'destination_city', 'destination_state', 'last_updated_at', 'estimated_delivery',
                           'checkpoint_message', 'checkpoint_location', 'checkpoint_date',
-                          'recipient_name', 'from_company', 'title'].includes(key) &&
+                          'recipient_name', 'from_company', 'title', ...INTERNAL_FIELDS].includes(key) &&
                         !additionalColumns.includes(key) &&
                         selectedTracking[key] !== null &&
                         selectedTracking[key] !== ''
@@ -964,7 +1406,35 @@ function App() {
                   </div>
                 )}
 
-                {selectedTracking.checkpoint_message && (
+                <div className="modal-section">
+                  <h3>Notes & Tags</h3>
+                  <AnnotationPanel
+                    annotation={getAnnotation(annotationMap, selectedTracking.tracking_number)}
+                    knownTags={getKnownTags(annotations)}
+                    readOnly={!hasPermission(user.role, 'annotate')}
+                    onChange={loadAnnotations}
+                  />
+                </div>
+
+                {hasOrderEmbeds && (
+                  <div className="modal-section">
+                    <h3>Analytics</h3>
+                    {showOrderAnalytics ? (
+                      <MetabaseCatalog placement="order" context={getShipmentContext(selectedTracking)} compact />
+                    ) : (
+                      <button className="refresh-button" onClick={() => setShowOrderAnalytics(true)}>
+                        Show Analytics for this Order
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {selectedTracking.checkpoints && selectedTracking.checkpoints.length > 0 ? (
+                  <div className="modal-section">
+                    <h3>Tracking History</h3>
+                    <CheckpointTimeline checkpoints={selectedTracking.checkpoints} />
+                  </div>
+                ) : selectedTracking.checkpoint_message && (
                   <div className="modal-section">
                     <h3>Latest Update</h3>
                     <div className="checkpoint-info">
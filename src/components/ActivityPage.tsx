@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import './ActivityPage.css'
+import { ChangeSet, ChangeType, CHANGE_LABELS, CHANGE_COLORS, describeChange } from '../services/changeService'
+import { snapshotStore } from '../services/snapshotStore'
+
+interface ActivityPageProps {
+  changeSets: ChangeSet[] // Newest first
+  trackingNumbers: Set<string> // Shipments currently loaded, which can be opened
+  onOpenOrder: (trackingNumber: string) => void
+  onHistoryCleared: () => void
+  canClearHistory: boolean
+}
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString('en-US', {
+  month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit',
+})
+
+function ActivityPage({ changeSets, trackingNumbers, onOpenOrder, onHistoryCleared, canClearHistory }: ActivityPageProps) {
+  const [typeFilter, setTypeFilter] = useState<ChangeType | null>(null)
+  const [search, setSearch] = useState('')
+
+  const counts = new Map<ChangeType, number>()
+  changeSets.forEach(changeSet => changeSet.changes.forEach(change => counts.set(change.type, (counts.get(change.type) || 0) + 1)))
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0)
+
+  const term = search.trim().toLowerCase()
+  const visibleSets = changeSets
+    .map(changeSet => ({
+      ...changeSet,
+      changes: changeSet.changes.filter(change =>
+        (!typeFilter || change.type === typeFilter) &&
+        (!term || [change.tracking_number, change.previous_tracking_number, change.order_id, change.po_number, change.from_company]
+          .some(value => value?.toLowerCase().includes(term)))
+      ),
+    }))
+    .filter(changeSet => changeSet.changes.length > 0)
+
+  const clearHistory = async () => {
+    if (!window.confirm('Clear the change history? The next load starts a new baseline.')) return
+    await snapshotStore.clearSnapshots()
+    onHistoryCleared()
+  }
+
+  return (
+    <div className="activity-page">
+      <div className="search-section">
+        <input
+          type="text"
+          className="search-input"
+          placeholder="Search by tracking, order, PO or supplier..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="actions-bar">
+        <span className="tracking-count">{total} changes across {changeSets.length} loads</span>
+        {canClearHistory && (
+          <button className="refresh-button" onClick={clearHistory} disabled={changeSets.length === 0}>
+            Clear History
+          </button>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="status-filters">
+          <button
+            className={`status-filter-button ${typeFilter === null ? 'active' : ''}`}
+            onClick={() => setTypeFilter(null)}
+          >
+            All ({total})
+          </button>
+          {(Object.keys(CHANGE_LABELS) as ChangeType[]).filter(type => counts.has(type)).map(type => (
+            <button
+              key={type}
+              className={`status-filter-button ${typeFilter === type ? 'active' : ''}`}
+              onClick={() => setTypeFilter(typeFilter === type ? null : type)}
+            >
+              {CHANGE_LABELS[type]} ({counts.get(type)})
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visibleSets.length === 0 ? (
+        <div className="empty-state">
+          <p>
+            {changeSets.length === 0
+              ? 'No changes yet. Each load is compared with the previous one, so changes appear here after the data is refreshed.'
+              : 'No changes match your filters.'}
+          </p>
+        </div>
+      ) : (
+        visibleSets.map(changeSet => (
+          <section key={changeSet.id} className="activity-load">
+            <h3 className="activity-load-title">
+              {formatTimestamp(changeSet.detected_at)}
+              <span className="activity-load-meta">
+                {changeSet.changes.length} changes since the load of {formatTimestamp(changeSet.previous_at)}
+              </span>
+            </h3>
+            <ul className="activity-list">
+              {changeSet.changes.map((change, index) => {
+                const canOpen = trackingNumbers.has(change.tracking_number)
+                return (
+                  <li
+                    key={`${change.tracking_number}-${change.type}-${index}`}
+                    className={`activity-item ${canOpen ? 'clickable' : ''}`}
+                    onClick={canOpen ? () => onOpenOrder(change.tracking_number) : undefined}
+                  >
+                    <span className="change-badge" style={{ backgroundColor: CHANGE_COLORS[change.type] }}>
+                      {CHANGE_LABELS[change.type]}
+                    </span>
+                    <span className="activity-tracking">{change.tracking_number}</span>
+                    <span className="activity-description">{describeChange(change)}</span>
+                    <span className="activity-context">
+                      {[change.po_number && `PO ${change.po_number}`, change.from_company].filter(Boolean).join(' · ')}
+                    </span>
+                  </li>
+                )
+              })}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  )
+}
+
+export default ActivityPage
@@ -0,0 +1,170 @@
+import './AnalyticsCharts.css'
+import type { Shipment } from '../services/dataSources'
+import type { POItem } from '../services/csvService'
+import {
+  ChartDatum,
+  StatusBucket,
+  shipmentsByCarrier,
+  shipmentsBySupplier,
+  statusOverTime,
+  leadTimeBySupplier,
+  onTimeRate,
+  topItems,
+} from '../services/analyticsService'
+import { SHIPMENT_STATUSES } from '../services/statusEngine'
+import { RISK_COLORS } from '../services/riskService'
+import { getStatusColor, getStatusLabel } from '../utils/format'
+
+interface AnalyticsChartsProps {
+  trackings: Shipment[]
+  poItemsMap: Map<string, POItem[]>
+  notice?: string // Shown above the charts, e.g. when they stand in for Metabase
+}
+
+interface BarChartProps {
+  data: ChartDatum[]
+  color?: string | ((datum: ChartDatum) => string)
+  formatValue?: (datum: ChartDatum) => string
+  max?: number // Scale maximum; defaults to the largest value
+}
+
+function BarChart({ data, color = '#3b82f6', formatValue = datum => String(datum.value), max }: BarChartProps) {
+  if (data.length === 0) {
+    return <p className="chart-empty">No data</p>
+  }
+
+  const scale = max ?? Math.max(...data.map(datum => datum.value), 1)
+  return (
+    <ul className="bar-chart">
+      {data.map(datum => (
+        <li key={datum.label} className="bar-row">
+          <span className="bar-label" title={datum.label}>{datum.label}</span>
+          <span className="bar-track">
+            <span
+              className="bar-fill"
+              style={{
+                width: `${(datum.value / scale) * 100}%`,
+                backgroundColor: typeof color === 'function' ? color(datum) : color,
+              }}
+            />
+          </span>
+          <span className="bar-value">{formatValue(datum)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function StatusTimeline({ buckets }: { buckets: StatusBucket[] }) {
+  if (buckets.length === 0) {
+    return <p className="chart-empty">No dated shipments</p>
+  }
+
+  const totals = buckets.map(bucket => Object.values(bucket.counts).reduce((sum, count) => sum + count, 0))
+  const max = Math.max(...totals, 1)
+  const statuses = SHIPMENT_STATUSES.filter(status => buckets.some(bucket => bucket.counts[status] > 0))
+
+  return (
+    <div className="status-timeline">
+      <div className="status-timeline-columns">
+        {buckets.map((bucket, index) => (
+          <div key={bucket.label} className="status-timeline-column" title={`${bucket.label}: ${totals[index]} shipments`}>
+            <div className="status-timeline-bar">
+              <div className="status-timeline-stack" style={{ height: `${(totals[index] / max) * 100}%` }}>
+                {statuses.map(status => bucket.counts[status] > 0 && (
+                  <span
+                    key={status}
+                    style={{ flexGrow: bucket.counts[status], backgroundColor: getStatusColor(status) }}
+                    title={`${getStatusLabel(status)}: ${bucket.counts[status]}`}
+                  />
+                ))}
+              </div>
+            </div>
+            <span className="status-timeline-label">{bucket.label}</span>
+          </div>
+        ))}
+      </div>
+      <div className="chart-legend">
+        {statuses.map(status => (
+          <span key={status} className="chart-legend-item">
+            <span className="chart-legend-swatch" style={{ backgroundColor: getStatusColor(status) }} />
+            {getStatusLabel(status)}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Green at or above 90% on time, amber from 70%, red below
+const rateColor = (rate: number) =>
+  rate >= 90 ? RISK_COLORS.on_track : rate >= 70 ? RISK_COLORS.at_risk : RISK_COLORS.late
+
+function AnalyticsCharts({ trackings, poItemsMap, notice }: AnalyticsChartsProps) {
+  const onTime = onTimeRate(trackings)
+  const onTimePercent = onTime.rate === null ? null : Math.round(onTime.rate * 100)
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+  return (
+    <div className="analytics-charts">
+      {notice && <div className="analytics-notice">{notice}</div>}
+
+      <div className="analytics-grid">
+        <section className="chart-card">
+          <h3>Shipments by Carrier</h3>
+          <BarChart data={shipmentsByCarrier(trackings)} />
+        </section>
+
+        <section className="chart-card">
+          <h3>Shipments by Supplier</h3>
+          <BarChart data={shipmentsBySupplier(trackings)} color="#8b5cf6" />
+        </section>
+
+        <section className="chart-card chart-card-wide">
+          <h3>Shipments by Status Over Time</h3>
+          <StatusTimeline buckets={statusOverTime(trackings)} />
+        </section>
+
+        <section className="chart-card">
+          <h3>Average Lead Time (Ship Date to ETA)</h3>
+          <BarChart
+            data={leadTimeBySupplier(trackings)}
+            color="#0ea5e9"
+            formatValue={datum => `${datum.value}d (${plural(datum.count || 0, 'shipment')})`}
+          />
+        </section>
+
+        <section className="chart-card">
+          <h3>On-Time Rate vs Requested By</h3>
+          {onTimePercent === null ? (
+            <p className="chart-empty">No shipments with both a requested-by date and an ETA</p>
+          ) : (
+            <>
+              <div className="chart-headline" style={{ color: rateColor(onTimePercent) }}>
+                {onTimePercent}%
+                <span>{onTime.onTime} of {plural(onTime.total, 'shipment')} delivered or expected by the requested-by date</span>
+              </div>
+              <BarChart
+                data={onTime.bySupplier}
+                max={100}
+                color={datum => rateColor(datum.value)}
+                formatValue={datum => `${datum.value}% of ${datum.count}`}
+              />
+            </>
+          )}
+        </section>
+
+        <section className="chart-card">
+          <h3>Most-Ordered Items</h3>
+          <BarChart
+            data={topItems(poItemsMap)}
+            color="#10b981"
+            formatValue={datum => `${datum.value} (${plural(datum.count || 0, 'PO line')})`}
+          />
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default AnalyticsCharts
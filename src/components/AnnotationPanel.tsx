@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react'
+import { annotationStore, Annotation } from '../services/annotationStore'
+import { normalizeTagName } from '../services/annotationService'
+import { SHIPMENT_STATUSES, ShipmentStatus } from '../services/statusEngine'
+import { getStatusLabel } from '../utils/format'
+import './AnnotationPanel.css'
+
+interface AnnotationPanelProps {
+  annotation: Annotation
+  knownTags: string[] // Tags used on other orders, offered as suggestions
+  onChange: () => void
+  readOnly?: boolean // Viewers see the annotations but can't change them
+}
+
+const newNoteId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString('en-US', {
+  month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit',
+})
+
+function AnnotationPanel({ annotation, knownTags, onChange, readOnly }: AnnotationPanelProps) {
+  const [tagInput, setTagInput] = useState('')
+  const [noteInput, setNoteInput] = useState('')
+  const [overrideStatus, setOverrideStatus] = useState<ShipmentStatus | ''>(annotation.status_override?.status || '')
+  const [overrideReason, setOverrideReason] = useState(annotation.status_override?.reason || '')
+  const [error, setError] = useState<string | null>(null)
+
+  // Start each order with its own saved override and empty inputs
+  useEffect(() => {
+    setTagInput('')
+    setNoteInput('')
+    setOverrideStatus(annotation.status_override?.status || '')
+    setOverrideReason(annotation.status_override?.reason || '')
+    setError(null)
+  }, [annotation.tracking_number, annotation.status_override?.set_at])
+
+  const save = async (changes: Partial<Annotation>) => {
+    setError(null)
+    try {
+      await annotationStore.saveAnnotation({ ...annotation, ...changes })
+      onChange()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save')
+    }
+  }
+
+  const addTag = async () => {
+    const tag = normalizeTagName(tagInput)
+    if (!tag) return
+    if (!annotation.tags.includes(tag)) {
+      await save({ tags: [...annotation.tags, tag] })
+    }
+    setTagInput('')
+  }
+
+  const addNote = async () => {
+    const text = noteInput.trim()
+    if (!text) return
+    await save({ notes: [...annotation.notes, { id: newNoteId(), text, created_at: new Date().toISOString() }] })
+    setNoteInput('')
+  }
+
+  const saveOverride = async () => {
+    if (!overrideStatus) return
+    if (!overrideReason.trim()) {
+      setError('Enter a reason for the status override.')
+      return
+    }
+    await save({ status_override: { status: overrideStatus, reason: overrideReason.trim(), set_at: new Date().toISOString() } })
+  }
+
+  const suggestions = knownTags.filter(tag => !annotation.tags.includes(tag))
+  const override = annotation.status_override
+
+  if (readOnly && annotation.tags.length === 0 && annotation.notes.length === 0 && !override) {
+    return <p className="annotation-meta">No notes or tags.</p>
+  }
+
+  return (
+    <div className="annotation-panel">
+      <div className="annotation-tags">
+        {annotation.tags.map(tag => (
+          <span key={tag} className="annotation-tag">
+            {tag}
+            {!readOnly && (
+              <button
+                className="annotation-tag-remove"
+                onClick={() => save({ tags: annotation.tags.filter(existing => existing !== tag) })}
+                title="Remove tag"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        {!readOnly && (
+          <>
+            <input
+              className="annotation-input annotation-tag-input"
+              list="annotation-tag-suggestions"
+              placeholder="Add tag..."
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addTag()}
+            />
+            <datalist id="annotation-tag-suggestions">
+              {suggestions.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+          </>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="annotation-override">
+          <select
+            className="annotation-input"
+            value={overrideStatus}
+            onChange={(e) => setOverrideStatus(e.target.value as ShipmentStatus | '')}
+          >
+            <option value="">Automatic status</option>
+            {SHIPMENT_STATUSES.map(status => (
+              <option key={status} value={status}>{getStatusLabel(status)}</option>
+            ))}
+          </select>
+          <input
+            className="annotation-input annotation-grow"
+            placeholder="Reason for the override"
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            disabled={!overrideStatus}
+          />
+          <button className="copy-link-button" onClick={saveOverride} disabled={!overrideStatus}>
+            Set Status
+          </button>
+          {override && (
+            <button className="copy-link-button" onClick={() => save({ status_override: undefined })}>
+              Clear Override
+            </button>
+          )}
+        </div>
+      )}
+      {override && (
+        <div className="annotation-meta">
+          Overridden to {getStatusLabel(override.status)} on {formatTimestamp(override.set_at)}: {override.reason}
+        </div>
+      )}
+
+      {annotation.notes.length > 0 && (
+        <ul className="annotation-notes">
+          {annotation.notes.map(note => (
+            <li key={note.id} className="annotation-note">
+              <div className="annotation-note-text">{note.text}</div>
+              <div className="annotation-meta">
+                {formatTimestamp(note.created_at)}
+                {!readOnly && (
+                  <button
+                    className="annotation-note-delete"
+                    onClick={() => save({ notes: annotation.notes.filter(existing => existing.id !== note.id) })}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {!readOnly && (
+        <div className="annotation-add-note">
+          <textarea
+            className="annotation-input annotation-grow"
+            placeholder="Add a note..."
+            rows={2}
+            value={noteInput}
+            onChange={(e) => setNoteInput(e.target.value)}
+          />
+          <button className="copy-link-button" onClick={addNote} disabled={!noteInput.trim()}>
+            Add Note
+          </button>
+        </div>
+      )}
+
+      {error && <div className="annotation-error">{error}</div>}
+    </div>
+  )
+}
+
+export default AnnotationPanel
@@ -0,0 +1,71 @@
+import { useState, useEffect, ReactNode } from 'react'
+import './AuthGate.css'
+import { authEnabled, getSession, login, completeLogin, CALLBACK_PATH, LOCAL_USER, AuthUser } from '../services/auth'
+
+interface AuthGateProps {
+  children: (user: AuthUser) => ReactNode
+}
+
+/**
+ * Shows the sign-in screen until there is a session, then renders the app for the signed-in user
+ */
+function AuthGate({ children }: AuthGateProps) {
+  const [user, setUser] = useState<AuthUser | null>(() => (authEnabled() ? getSession()?.user || null : LOCAL_USER))
+  const [completing, setCompleting] = useState(() => authEnabled() && window.location.pathname === CALLBACK_PATH)
+  const [error, setError] = useState<string | null>(null)
+
+  // Finish a sign-in that just returned from the provider
+  useEffect(() => {
+    if (!completing) return
+    completeLogin(window.location.search)
+      .then(returnTo => {
+        window.history.replaceState(null, '', returnTo)
+        setUser(getSession()?.user || null)
+      })
+      .catch(err => {
+        window.history.replaceState(null, '', '/')
+        setError(err.message || 'Sign-in failed')
+      })
+      .finally(() => setCompleting(false))
+  }, [])
+
+  // Ask for sign-in again when the session runs out
+  useEffect(() => {
+    const session = getSession()
+    if (!authEnabled() || !session) return
+    const timer = setTimeout(() => setUser(null), session.expiresAt - Date.now())
+    return () => clearTimeout(timer)
+  }, [user])
+
+  const signIn = async () => {
+    setError(null)
+    try {
+      await login()
+    } catch (err: any) {
+      setError(err.message || 'Sign-in failed')
+    }
+  }
+
+  if (user) {
+    return <>{children(user)}</>
+  }
+
+  return (
+    <div className="auth-screen">
+      <div className="auth-card">
+        <h1>Order Tracker</h1>
+        {completing ? (
+          <p>Signing you in...</p>
+        ) : (
+          <>
+            <p>Sign in to see orders, shipments and receiving.</p>
+            <button className="refresh-button" onClick={signIn}>Sign In</button>
+          </>
+        )}
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </div>
+  )
+}
+
+export default AuthGate
@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from 'react'
+import './CalendarPage.css'
+import type { Shipment } from '../services/dataSources/types'
+import {
+  buildCalendarDays,
+  CalendarView,
+  countByCarrier,
+  exportICalendar,
+  fetchCalendarFeedUrl,
+  getVisibleDays,
+  renewCalendarFeedUrl,
+  RequestedByGroup,
+  shiftAnchor,
+  toDayKey,
+} from '../services/calendarService'
+import { getCarrierName } from '../services/carriers'
+import { RISK_COLORS, RISK_LABELS } from '../services/riskService'
+import { getShipmentSite } from '../services/siteService'
+import { parseDate } from '../utils/dates'
+import { getStatusColor, getStatusLabel } from '../utils/format'
+
+interface CalendarPageProps {
+  trackings: Shipment[]
+  day: string | null // YYYY-MM-DD of the day whose arrivals are listed, from /calendar/:day
+  onSelectDay: (day: string | null) => void
+  onOpenOrder: (trackingNumber: string) => void
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// How many carriers and jobs a month cell lists before "+N more"
+const MONTH_CELL_LIMIT = 2
+
+// A job's requested-by pill takes the color of its worst shipment risk
+const groupRisk = (group: RequestedByGroup) =>
+  group.shipments.some(shipment => shipment.risk_level === 'late') ? 'late'
+    : group.shipments.some(shipment => shipment.risk_level === 'at_risk') ? 'at_risk'
+    : null
+
+const formatRange = (days: Date[], view: CalendarView, anchor: Date) => {
+  if (view === 'month') {
+    return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  }
+  const first = days[0]
+  const last = days[days.length - 1]
+  return `${first.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+}
+
+function CalendarPage({ trackings, day, onSelectDay, onOpenOrder }: CalendarPageProps) {
+  const [view, setView] = useState<CalendarView>('month')
+  const [anchor, setAnchor] = useState(() => parseDate(day || '') || new Date())
+  const [showRequested, setShowRequested] = useState(true)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [feedError, setFeedError] = useState<string | null>(null)
+
+  // Follow the selected day when it changes from a link or the back button
+  useEffect(() => {
+    const selected = parseDate(day || '')
+    if (selected) setAnchor(selected)
+  }, [day])
+
+  const calendarDays = useMemo(() => buildCalendarDays(trackings), [trackings])
+  const visibleDays = getVisibleDays(anchor, view)
+  const todayKey = toDayKey(new Date())
+  const selectedDay = day ? calendarDays.get(day) : undefined
+  const selectedDate = parseDate(day || '')
+
+  const visibleArrivals = visibleDays.reduce((sum, date) => sum + (calendarDays.get(toDayKey(date))?.arrivals.length || 0), 0)
+  const undated = trackings.filter(shipment => !parseDate(shipment.estimated_delivery)).length
+
+  const toggleSubscribe = () => {
+    if (feedUrl || feedError) {
+      setFeedUrl(null)
+      setFeedError(null)
+      return
+    }
+    fetchCalendarFeedUrl()
+      .then(setFeedUrl)
+      .catch((err: Error) => setFeedError(err.message))
+  }
+
+  const renewFeedUrl = () => {
+    if (!window.confirm('Stop the current feed URL everywhere it was added and get a new one?')) return
+    renewCalendarFeedUrl()
+      .then(setFeedUrl)
+      .catch((err: Error) => setFeedError(err.message))
+  }
+
+  const goToday = () => {
+    setAnchor(new Date())
+    onSelectDay(null)
+  }
+
+  if (trackings.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>No shipments to show on the calendar.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="calendar-page">
+      <div className="actions-bar">
+        <span className="tracking-count">
+          {visibleArrivals} arrivals this {view}
+          {undated > 0 && ` · ${undated} shipments have no ETA`}
+        </span>
+        <button
+          className="refresh-button"
+          onClick={() => exportICalendar(trackings, 'order-tracker-calendar')}
+          title="Download every ETA and requested-by date as an iCalendar file"
+        >
+          Export .ics
+        </button>
+        <button
+          className="refresh-button"
+          onClick={toggleSubscribe}
+          title="Get a URL to subscribe to the calendar from Google Calendar, Outlook or Apple Calendar"
+        >
+          Subscribe
+        </button>
+      </div>
+
+      {(feedUrl || feedError) && (
+        <div className="calendar-subscribe">
+          {feedUrl ? (
+            <>
+              <div className="calendar-subscribe-url">
+                <input type="text" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+                <button onClick={() => navigator.clipboard?.writeText(feedUrl)}>Copy</button>
+                <button onClick={renewFeedUrl} title="Stop this URL and get a new one, e.g. if it was shared">New URL</button>
+              </div>
+              <p className="calendar-note">
+                Add this URL to your calendar app. It is personal to you and covers your sites, so keep it private.
+                It stops working after a few months; come back here for a new one.
+              </p>
+            </>
+          ) : (
+            <p className="calendar-note">{feedError}</p>
+          )}
+        </div>
+      )}
+
+      <div className="calendar-toolbar">
+        <div className="calendar-nav">
+          <button onClick={() => setAnchor(shiftAnchor(anchor, view, -1))} title={`Previous ${view}`}>‹</button>
+          <button onClick={goToday}>Today</button>
+          <button onClick={() => setAnchor(shiftAnchor(anchor, view, 1))} title={`Next ${view}`}>›</button>
+          <h3 className="calendar-range">{formatRange(visibleDays, view, anchor)}</h3>
+        </div>
+        <div className="status-filters calendar-options">
+          {(['month', 'week'] as CalendarView[]).map(option => (
+            <button
+              key={option}
+              className={`status-filter-button ${view === option ? 'active' : ''}`}
+              onClick={() => setView(option)}
+            >
+              {option === 'month' ? 'Month' : 'Week'}
+            </button>
+          ))}
+          <button
+            className={`status-filter-button ${showRequested ? 'active' : ''}`}
+            onClick={() => setShowRequested(!showRequested)}
+            title="Show the dates jobs need their shipments by"
+          >
+            🎯 Requested-by dates
+          </button>
+        </div>
+      </div>
+
+      <div className={`calendar-grid ${view}`}>
+        {WEEKDAYS.map(name => <div key={name} className="calendar-weekday">{name}</div>)}
+        {visibleDays.map(date => {
+          const key = toDayKey(date)
+          const entry = calendarDays.get(key)
+          const arrivals = entry?.arrivals || []
+          const carriers = countByCarrier(arrivals)
+          const requested = showRequested ? entry?.requested || [] : []
+          const limit = view === 'month' ? MONTH_CELL_LIMIT : Infinity
+
+          return (
+            <button
+              key={key}
+              className={[
+                'calendar-day',
+                date.getMonth() !== anchor.getMonth() && view === 'month' ? 'outside' : '',
+                key === todayKey ? 'today' : '',
+                key === day ? 'selected' : '',
+              ].filter(Boolean).join(' ')}
+              onClick={() => onSelectDay(key === day ? null : key)}
+            >
+              <span className="calendar-day-header">
+                <span className="calendar-day-number">{date.getDate()}</span>
+                {arrivals.length > 0 && <span className="calendar-day-total">{arrivals.length}</span>}
+              </span>
+              {carriers.slice(0, limit).map(({ carrier, count }) => (
+                <span key={carrier} className="calendar-carrier">
+                  <span className="calendar-carrier-name">{carrier}</span> {count}
+                </span>
+              ))}
+              {carriers.length > limit && <span className="calendar-more">+{carriers.length - limit} more carriers</span>}
+              {requested.slice(0, limit).map(group => {
+                const risk = groupRisk(group)
+                return (
+                  <span
+                    key={group.job}
+                    className="calendar-requested"
+                    style={risk ? { backgroundColor: RISK_COLORS[risk], color: 'white' } : undefined}
+                    title={`${group.job} needs ${group.shipments.length} shipments by this day${risk ? ` (${RISK_LABELS[risk]})` : ''}`}
+                  >
+                    🎯 {group.job}
+                  </span>
+                )
+              })}
+              {requested.length > limit && <span className="calendar-more">+{requested.length - limit} more jobs</span>}
+            </button>
+          )
+        })}
+      </div>
+
+      {selectedDate && (
+        <section className="calendar-day-detail">
+          <div className="calendar-day-detail-header">
+            <h3>{selectedDate.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}</h3>
+            <button className="calendar-day-detail-close" onClick={() => onSelectDay(null)} title="Close">×</button>
+          </div>
+
+          <h4>Arrivals ({selectedDay?.arrivals.length || 0})</h4>
+          {selectedDay && selectedDay.arrivals.length > 0 ? (
+            <ul className="calendar-list">
+              {selectedDay.arrivals.map(shipment => (
+                <li key={shipment.id} className="calendar-list-item" onClick={() => onOpenOrder(shipment.tracking_number)}>
+                  <span className="status-badge-table" style={{ backgroundColor: getStatusColor(shipment.tag) }}>
+                    {getStatusLabel(shipment.tag)}
+                  </span>
+                  <span className="calendar-list-tracking">{shipment.tracking_number}</span>
+                  <span>{getCarrierName(shipment.slug)}</span>
+                  <span className="calendar-list-context">
+                    {[shipment.from_company, shipment.po_number && `PO ${shipment.po_number}`, getShipmentSite(shipment)]
+                      .filter(Boolean).join(' · ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="calendar-note">No shipments are due this day.</p>
+          )}
+
+          {selectedDay && selectedDay.requested.length > 0 && (
+            <>
+              <h4>Needed by this day</h4>
+              {selectedDay.requested.map(group => (
+                <div key={group.job} className="calendar-requested-group">
+                  <span className="calendar-requested-job">🎯 {group.job}</span>
+                  <ul className="calendar-list">
+                    {group.shipments.map(shipment => (
+                      <li key={shipment.id} className="calendar-list-item" onClick={() => onOpenOrder(shipment.tracking_number)}>
+                        <span className="status-badge-table" style={{ backgroundColor: getStatusColor(shipment.tag) }}>
+                          {getStatusLabel(shipment.tag)}
+                        </span>
+                        <span className="calendar-list-tracking">{shipment.tracking_number}</span>
+                        {shipment.risk_level && shipment.risk_level !== 'on_track' && (
+                          <span className="calendar-risk" style={{ color: RISK_COLORS[shipment.risk_level] }}>
+                            {RISK_LABELS[shipment.risk_level]}
+                          </span>
+                        )}
+                        <span className="calendar-list-context">{shipment.risk_reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
+
+export default CalendarPage
@@ -0,0 +1,37 @@
+import './CheckpointTimeline.css'
+import { Checkpoint, normalizeTag } from '../services/aftership'
+import { getStatusColor, getStatusLabel, formatDate } from '../utils/format'
+
+interface CheckpointTimelineProps {
+  checkpoints: Checkpoint[]
+}
+
+function CheckpointTimeline({ checkpoints }: CheckpointTimelineProps) {
+  return (
+    <ol className="checkpoint-timeline">
+      {checkpoints.map((checkpoint, index) => {
+        const tag = normalizeTag(checkpoint.tag)
+        const location = checkpoint.location ||
+          [checkpoint.city, checkpoint.state, checkpoint.country_name].filter(Boolean).join(', ')
+
+        return (
+          <li key={`${checkpoint.created_at}-${index}`} className={`timeline-entry ${index === 0 ? 'latest' : ''}`}>
+            <span className="timeline-dot" style={{ backgroundColor: getStatusColor(tag) }} />
+            <div className="timeline-body">
+              <div className="timeline-header">
+                <span className="timeline-message">{checkpoint.message}</span>
+                <span className="timeline-tag" style={{ color: getStatusColor(tag) }}>
+                  {getStatusLabel(tag)}
+                </span>
+              </div>
+              {location && <div className="timeline-location">{location}</div>}
+              <div className="timeline-date">{formatDate(checkpoint.created_at)}</div>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+export default CheckpointTimeline
@@ -0,0 +1,95 @@
+import './ColumnMapper.css'
+import { CANONICAL_FIELDS, ColumnMapping } from '../services/columnMapping'
+import type { CSVFileKind } from '../services/importStore'
+
+interface ColumnMapperProps {
+  kind: CSVFileKind
+  fields: string[]
+  sampleRow?: Record<string, any>
+  mapping: ColumnMapping
+  profileName: string
+  matchedProfile?: string
+  onMappingChange: (mapping: ColumnMapping) => void
+  onProfileNameChange: (name: string) => void
+}
+
+function ColumnMapper({
+  kind,
+  fields,
+  sampleRow,
+  mapping,
+  profileName,
+  matchedProfile,
+  onMappingChange,
+  onProfileNameChange,
+}: ColumnMapperProps) {
+  const canonicalFields = CANONICAL_FIELDS[kind]
+  const mappedTargets = Object.values(mapping).filter(Boolean)
+  const missing = canonicalFields.filter(c => !mappedTargets.includes(c.field))
+
+  return (
+    <div className="column-mapper">
+      {matchedProfile && (
+        <p className="column-mapper-notice">
+          ✅ Recognized this layout - using the saved <strong>{matchedProfile}</strong> mapping profile.
+        </p>
+      )}
+
+      <table className="po-items-table">
+        <thead>
+          <tr>
+            <th>Detected Header</th>
+            <th>Sample Value</th>
+            <th>Maps To</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(header => {
+            const target = mapping[header] || ''
+            const duplicate = target && mappedTargets.filter(t => t === target).length > 1
+            return (
+              <tr key={header} className={duplicate ? 'mapping-duplicate' : ''}>
+                <td><code>{header}</code></td>
+                <td className="column-mapper-sample">{sampleRow?.[header] ?? ''}</td>
+                <td>
+                  <select
+                    className="search-column-select"
+                    value={target}
+                    onChange={(e) => onMappingChange({ ...mapping, [header]: e.target.value })}
+                  >
+                    <option value="">Keep as "{header}"</option>
+                    {canonicalFields.map(c => (
+                      <option key={c.field} value={c.field}>{c.label}</option>
+                    ))}
+                  </select>
+                  {duplicate && <span className="mapping-warning">Mapped more than once</span>}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      {missing.length > 0 && (
+        <p className="column-mapper-missing">
+          Not mapped: {missing.map(c => c.label).join(', ')}
+        </p>
+      )}
+
+      <div className="column-mapper-profile">
+        <label>
+          Save as mapping profile for supplier:
+          <input
+            type="text"
+            className="search-input"
+            placeholder="e.g. Exertis ProAV (leave empty to skip)"
+            value={profileName}
+            onChange={(e) => onProfileNameChange(e.target.value)}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
+
+export default ColumnMapper
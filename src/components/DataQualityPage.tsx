@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import Papa from 'papaparse'
+import './DataQualityPage.css'
+import { csvService } from '../services/csvService'
+import { ValidationReport, ValidationIssueCode, ISSUE_LABELS } from '../services/validation'
+import { formatDate } from '../utils/format'
+import { downloadFile } from '../utils/download'
+
+interface DataQualityPageProps {
+  refreshKey: number // Bumped by the parent whenever the data is reloaded
+}
+
+function DataQualityPage({ refreshKey }: DataQualityPageProps) {
+  const [report, setReport] = useState<ValidationReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [codeFilter, setCodeFilter] = useState<ValidationIssueCode | null>(null)
+
+  useEffect(() => {
+    runValidation()
+  }, [refreshKey])
+
+  const runValidation = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      setReport(await csvService.validate())
+    } catch (err: any) {
+      setError(err.message || 'Failed to validate CSV data')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const exportCSV = () => {
+    if (!report) return
+    const csv = Papa.unparse(report.issues.map(issue => ({
+      File: issue.file,
+      Line: issue.row,
+      Severity: issue.severity,
+      Issue: ISSUE_LABELS[issue.code],
+      Value: issue.value || '',
+      Details: issue.message,
+    })))
+    downloadFile(csv, `data-quality-${report.generatedAt.slice(0, 10)}.csv`, 'text/csv;charset=utf-8')
+  }
+
+  const exportJSON = () => {
+    if (!report) return
+    downloadFile(JSON.stringify(report, null, 2), `data-quality-${report.generatedAt.slice(0, 10)}.json`, 'application/json')
+  }
+
+  const counts = new Map<ValidationIssueCode, number>()
+  report?.issues.forEach(issue => counts.set(issue.code, (counts.get(issue.code) || 0) + 1))
+  const visibleIssues = report?.issues.filter(issue => !codeFilter || issue.code === codeFilter) || []
+  const errorCount = report?.issues.filter(issue => issue.severity === 'error').length || 0
+
+  return (
+    <div className="data-quality-page">
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="actions-bar">
+        <button className="refresh-button" onClick={runValidation} disabled={loading}>
+          Re-run Validation
+        </button>
+        <span className="tracking-count">
+          {report
+            ? `${report.issues.length} issues (${errorCount} errors) in ${Object.entries(report.rowCounts).map(([file, count]) => `${file}: ${count} rows`).join(', ')}`
+            : ''}
+        </span>
+        <div className="data-quality-exports">
+          <button className="refresh-button" onClick={exportCSV} disabled={!report}>Export CSV</button>
+          <button className="refresh-button" onClick={exportJSON} disabled={!report}>Export JSON</button>
+        </div>
+      </div>
+
+      {report && (
+        <div className="status-filters">
+          <button
+            className={`status-filter-button ${codeFilter === null ? 'active' : ''}`}
+            onClick={() => setCodeFilter(null)}
+          >
+            All ({report.issues.length})
+          </button>
+          {(Object.keys(ISSUE_LABELS) as ValidationIssueCode[]).filter(code => counts.has(code)).map(code => (
+            <button
+              key={code}
+              className={`status-filter-button ${codeFilter === code ? 'active' : ''}`}
+              onClick={() => setCodeFilter(codeFilter === code ? null : code)}
+            >
+              {ISSUE_LABELS[code]} ({counts.get(code)})
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="trackings-container">
+        {loading && !report ? (
+          <div className="loading-state">
+            <p>Validating CSV data...</p>
+          </div>
+        ) : report && report.issues.length === 0 ? (
+          <div className="empty-state">
+            <p>✅ No problems found. Last checked {formatDate(report.generatedAt)}.</p>
+          </div>
+        ) : report && (
+          <div className="table-wrapper">
+            <table className="trackings-table">
+              <thead>
+                <tr>
+                  <th>File</th>
+                  <th>Line</th>
+                  <th>Severity</th>
+                  <th>Issue</th>
+                  <th>Value</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleIssues.map((issue, index) => (
+                  <tr key={`${issue.file}-${issue.row}-${issue.code}-${index}`}>
+                    <td>{issue.file}</td>
+                    <td>{issue.row || 'N/A'}</td>
+                    <td>
+                      <span className={`severity-badge severity-${issue.severity}`}>
+                        {issue.severity === 'error' ? 'Error' : 'Warning'}
+                      </span>
+                    </td>
+                    <td>{ISSUE_LABELS[issue.code]}</td>
+                    <td>{issue.value || ''}</td>
+                    <td>{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default DataQualityPage
@@ -0,0 +1,55 @@
+import { useState } from 'react'
+import './ExportMenu.css'
+import type { ExportFormat } from '../services/exportService'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void
+  disabled?: boolean
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'pdf', label: 'PDF Packing Lists' },
+]
+
+function ExportMenu({ onExport, disabled }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false)
+    setExporting(true)
+    try {
+      await onExport(format)
+    } catch (err: any) {
+      console.error('Export failed:', err)
+      window.alert(`Export failed: ${err.message || err}`)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="export-menu">
+      <button
+        className="refresh-button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled || exporting}
+      >
+        {exporting ? 'Exporting...' : 'Export ▾'}
+      </button>
+      {open && (
+        <ul className="export-menu-list">
+          {FORMATS.map(({ format, label }) => (
+            <li key={format}>
+              <button onClick={() => handleExport(format)}>{label}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
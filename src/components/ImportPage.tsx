@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react'
+import './ImportPage.css'
+import { csvService, ParsedCSV } from '../services/csvService'
+import { importStore, CSVFileKind, ImportedFile } from '../services/importStore'
+import {
+  MappingProfile,
+  ColumnMapping,
+  getHeaderSignature,
+  suggestMapping,
+  applyMapping,
+  applyMappingToFields,
+} from '../services/columnMapping'
+import ColumnMapper from './ColumnMapper'
+import { formatDate } from '../utils/format'
+
+interface ImportPageProps {
+  onImported: () => void
+}
+
+interface PendingFile {
+  fileName: string
+  csvText: string
+  parsed: ParsedCSV
+  mapping: ColumnMapping
+  profileName: string
+  matchedProfile?: MappingProfile
+}
+
+const PREVIEW_ROWS = 5
+
+const FILE_KINDS: { kind: CSVFileKind; label: string; description: string }[] = [
+  { kind: 'shipments', label: 'Shipments', description: 'Tracking numbers, carriers and dates (replaces TestCSVFile.csv)' },
+  { kind: 'additional', label: 'Additional Order Info', description: 'Job name, requested-by date and type (replaces AdditionalOrderInfo.csv)' },
+  { kind: 'poItems', label: 'PO Items', description: 'Items per PO number (replaces mock_po_items_100.csv)' },
+]
+
+function ImportPage({ onImported }: ImportPageProps) {
+  const [savedFiles, setSavedFiles] = useState<ImportedFile[]>([])
+  const [profiles, setProfiles] = useState<MappingProfile[]>([])
+  const [pending, setPending] = useState<Partial<Record<CSVFileKind, PendingFile>>>({})
+  const [dragOver, setDragOver] = useState<CSVFileKind | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadSavedFiles()
+  }, [])
+
+  const loadSavedFiles = async () => {
+    setSavedFiles(await importStore.getAllFiles())
+    setProfiles(await importStore.getProfiles())
+  }
+
+  const updatePending = (kind: CSVFileKind, changes: Partial<PendingFile>) => {
+    setPending(prev => ({ ...prev, [kind]: { ...prev[kind]!, ...changes } }))
+  }
+
+  const handleDeleteProfile = async (profile: MappingProfile) => {
+    if (!window.confirm(`Delete the "${profile.name}" mapping profile?`)) return
+    await importStore.deleteProfile(profile.id)
+    setProfiles(await importStore.getProfiles())
+  }
+
+  const handleFile = async (kind: CSVFileKind, file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    try {
+      const csvText = await file.text()
+      const parsed = await csvService.parseCSV(csvText)
+      // Reuse a saved profile when this exact header layout was imported before
+      const signature = getHeaderSignature(parsed.fields)
+      const matchedProfile = profiles.find(p => p.kind === kind && p.signature === signature)
+      setPending(prev => ({
+        ...prev,
+        [kind]: {
+          fileName: file.name,
+          csvText,
+          parsed,
+          mapping: matchedProfile ? matchedProfile.mapping : suggestMapping(kind, parsed.fields),
+          profileName: matchedProfile?.name || '',
+          matchedProfile,
+        },
+      }))
+    } catch (err: any) {
+      setError(`Could not parse ${file.name}: ${err.message || err}`)
+    }
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const importedAt = new Date().toISOString()
+      for (const [kind, file] of Object.entries(pending) as [CSVFileKind, PendingFile][]) {
+        await importStore.saveFile({
+          kind,
+          fileName: file.fileName,
+          csvText: file.csvText,
+          importedAt,
+          mapping: file.mapping,
+        })
+
+        if (file.profileName.trim()) {
+          const signature = getHeaderSignature(file.parsed.fields)
+          await importStore.saveProfile({
+            id: file.matchedProfile?.id || `${kind}:${signature}`,
+            name: file.profileName.trim(),
+            kind,
+            signature,
+            mapping: file.mapping,
+            updatedAt: importedAt,
+          })
+        }
+      }
+      setPending({})
+      await loadSavedFiles()
+      onImported()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save imported files')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm('Discard all imported files and go back to the bundled CSV files?')) return
+    try {
+      await importStore.clearFiles()
+      setPending({})
+      await loadSavedFiles()
+      onImported()
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset imported files')
+    }
+  }
+
+  return (
+    <div className="import-page">
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="import-zones">
+        {FILE_KINDS.map(({ kind, label, description }) => {
+          const saved = savedFiles.find(f => f.kind === kind)
+          const file = pending[kind]
+          return (
+            <label
+              key={kind}
+              className={`import-dropzone ${dragOver === kind ? 'drag-over' : ''} ${file ? 'has-file' : ''}`}
+              onDragOver={(e) => { e.preventDefault(); setDragOver(kind) }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={(e) => {
+                e.preventDefault()
+                setDragOver(null)
+                handleFile(kind, e.dataTransfer.files[0])
+              }}
+            >
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(kind, e.target.files?.[0])}
+              />
+              <strong>{label}</strong>
+              <span className="import-description">{description}</span>
+              {file ? (
+                <span className="import-status">📄 {file.fileName} ({file.parsed.data.length} rows) - not saved yet</span>
+              ) : saved ? (
+                <span className="import-status">✅ {saved.fileName}, imported {formatDate(saved.importedAt)}</span>
+              ) : (
+                <span className="import-status">Using bundled file. Drop a CSV here or click to browse.</span>
+              )}
+            </label>
+          )
+        })}
+      </div>
+
+      <div className="actions-bar">
+        <button
+          className="refresh-button"
+          onClick={handleSave}
+          disabled={saving || Object.keys(pending).length === 0}
+        >
+          {saving ? 'Saving...' : 'Save Import'}
+        </button>
+        <button
+          className="refresh-button"
+          onClick={handleReset}
+          disabled={savedFiles.length === 0}
+        >
+          Reset to Bundled Files
+        </button>
+      </div>
+
+      {FILE_KINDS.filter(({ kind }) => pending[kind]).map(({ kind, label }) => {
+        const { fileName, parsed, mapping, profileName, matchedProfile } = pending[kind]!
+        const mappedFields = applyMappingToFields(parsed.fields, mapping)
+        const mappedRows = applyMapping(parsed.data.slice(0, PREVIEW_ROWS), mapping)
+        return (
+          <div key={kind} className="import-preview">
+            <h3>{label} column mapping - {fileName}</h3>
+            <ColumnMapper
+              kind={kind}
+              fields={parsed.fields}
+              sampleRow={parsed.data[0]}
+              mapping={mapping}
+              profileName={profileName}
+              matchedProfile={matchedProfile?.name}
+              onMappingChange={(next) => updatePending(kind, { mapping: next })}
+              onProfileNameChange={(name) => updatePending(kind, { profileName: name })}
+            />
+            <h3>{label} preview</h3>
+            <p className="import-preview-summary">
+              Showing {Math.min(PREVIEW_ROWS, parsed.data.length)} of {parsed.data.length} rows. Headers are shown after normalization and mapping.
+            </p>
+            <div className="table-wrapper">
+              <table className="trackings-table">
+                <thead>
+                  <tr>
+                    {mappedFields.map(field => <th key={field}>{field}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {mappedRows.map((row, index) => (
+                    <tr key={index}>
+                      {mappedFields.map(field => <td key={field}>{row[field]}</td>)}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      })}
+
+      {profiles.length > 0 && (
+        <div className="import-preview">
+          <h3>Saved Mapping Profiles</h3>
+          <p className="import-preview-summary">
+            A profile is applied automatically when a file with the same headers is imported again.
+          </p>
+          <div className="table-wrapper">
+            <table className="trackings-table">
+              <thead>
+                <tr>
+                  <th>Supplier</th>
+                  <th>File Type</th>
+                  <th>Mapped Columns</th>
+                  <th>Updated</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {profiles.map(profile => (
+                  <tr key={profile.id}>
+                    <td>{profile.name}</td>
+                    <td>{FILE_KINDS.find(k => k.kind === profile.kind)?.label || profile.kind}</td>
+                    <td>{Object.values(profile.mapping).filter(Boolean).length}</td>
+                    <td>{formatDate(profile.updatedAt)}</td>
+                    <td>
+                      <button className="clear-profile-button" onClick={() => handleDeleteProfile(profile)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ImportPage
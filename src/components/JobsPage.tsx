@@ -0,0 +1,213 @@
+import { useState } from 'react'
+import './JobsPage.css'
+import type { Shipment } from '../services/dataSources'
+import type { POItem } from '../services/csvService'
+import { summarizeJobs, countUnassignedShipments, JobSummary } from '../services/jobService'
+import { RISK_COLORS, RISK_LABELS } from '../services/riskService'
+import { exportToCSV, ExportColumn } from '../services/exportService'
+import { formatDate } from '../utils/format'
+import POSection from './POSection'
+import StatCards from './StatCards'
+
+interface JobsPageProps {
+  trackings: Shipment[]
+  poItemsMap: Map<string, POItem[]>
+  job: string | null // Job open in the drill-down view
+  onSelectJob: (job: string | null) => void
+  onOpenOrder: (trackingNumber: string) => void
+}
+
+type ReadinessFilter = 'all' | 'waiting' | 'ready'
+
+const READINESS_FILTERS: { id: ReadinessFilter; label: string }[] = [
+  { id: 'all', label: 'All Jobs' },
+  { id: 'waiting', label: 'Waiting on Deliveries' },
+  { id: 'ready', label: 'Ready to Install' },
+]
+
+const describeSlack = (job: JobSummary): string => {
+  if (job.etaSlackDays === null) return 'N/A'
+  if (job.etaSlackDays < 0) return `${-job.etaSlackDays} days late`
+  return `${job.etaSlackDays} days early`
+}
+
+const JOB_COLUMNS: ExportColumn<JobSummary>[] = [
+  { label: 'Job', value: job => job.name },
+  { label: 'Type', value: job => job.types.join(', ') },
+  { label: 'POs Delivered', value: job => `${job.deliveredPOCount}/${job.pos.length}` },
+  { label: 'Items Delivered (%)', value: job => job.percentDelivered },
+  { label: 'Latest ETA', value: job => job.latestEta || '' },
+  { label: 'Requested By', value: job => job.requestedBy || '' },
+  { label: 'ETA vs Requested By', value: describeSlack },
+  { label: 'Ready to Install', value: job => (job.readyToInstall ? 'Yes' : 'No') },
+]
+
+function ReadyBadge({ job }: { job: JobSummary }) {
+  return job.readyToInstall
+    ? <span className="ready-badge ready">✓ Ready to Install</span>
+    : <span className="ready-badge">Waiting on {job.pos.length - job.deliveredPOCount} of {job.pos.length} POs</span>
+}
+
+function SlackBadge({ job }: { job: JobSummary }) {
+  if (!job.etaRisk) {
+    return <>{describeSlack(job)}</>
+  }
+  return (
+    <span className="risk-badge" style={{ backgroundColor: RISK_COLORS[job.etaRisk] }} title={RISK_LABELS[job.etaRisk]}>
+      {describeSlack(job)}
+    </span>
+  )
+}
+
+function ProgressBar({ percent }: { percent: number }) {
+  return (
+    <span className="job-progress" title={`${percent}% delivered`}>
+      <span className="job-progress-track">
+        <span className="job-progress-fill" style={{ width: `${percent}%` }} />
+      </span>
+      <span className="job-progress-value">{percent}%</span>
+    </span>
+  )
+}
+
+function JobsPage({ trackings, poItemsMap, job, onSelectJob, onOpenOrder }: JobsPageProps) {
+  const [search, setSearch] = useState('')
+  const [readiness, setReadiness] = useState<ReadinessFilter>('all')
+  const jobs = summarizeJobs(trackings, poItemsMap)
+
+  if (job) {
+    const summary = jobs.find(entry => entry.name === job)
+
+    return (
+      <div className="jobs-page">
+        <div className="actions-bar">
+          <button className="refresh-button" onClick={() => onSelectJob(null)}>← All Jobs</button>
+          <h2 className="detail-title">{job}</h2>
+          {summary && <ReadyBadge job={summary} />}
+        </div>
+
+        {!summary ? (
+          <div className="empty-state">
+            <p>No shipments found for this job.</p>
+          </div>
+        ) : (
+          <>
+            <StatCards
+              stats={[
+                { label: 'Type', value: summary.types.join(', ') || 'N/A' },
+                { label: 'POs Delivered', value: `${summary.deliveredPOCount} / ${summary.pos.length}` },
+                {
+                  label: summary.itemUnits > 0 ? `Items Delivered (${summary.deliveredUnits} of ${summary.itemUnits})` : 'Shipments Delivered',
+                  value: `${summary.percentDelivered}%`,
+                },
+                { label: 'Latest ETA', value: formatDate(summary.latestEta) },
+                { label: 'Requested By', value: formatDate(summary.requestedBy) },
+                { label: 'ETA vs Requested By', value: <SlackBadge job={summary} /> },
+              ]}
+            />
+
+            {summary.pos.map(po => (
+              <POSection
+                key={po.poNumber || 'no-po'}
+                {...po}
+                onOpenOrder={onOpenOrder}
+                showSupplier
+                badge={<span className={`ready-badge ${po.delivered ? 'ready' : ''}`}>{po.delivered ? 'Delivered' : 'Waiting'}</span>}
+              />
+            ))}
+          </>
+        )}
+      </div>
+    )
+  }
+
+  const term = search.trim().toLowerCase()
+  const visible = jobs.filter(entry =>
+    (readiness === 'all' || entry.readyToInstall === (readiness === 'ready')) &&
+    (!term || entry.name.toLowerCase().includes(term) || entry.types.some(type => type.toLowerCase().includes(term)))
+  )
+  const unassigned = countUnassignedShipments(trackings)
+
+  return (
+    <div className="jobs-page">
+      <div className="search-section">
+        <input
+          type="text"
+          className="search-input"
+          placeholder="Search jobs or types..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="status-filters">
+        {READINESS_FILTERS.map(filter => (
+          <button
+            key={filter.id}
+            className={`status-filter-button ${readiness === filter.id ? 'active' : ''}`}
+            onClick={() => setReadiness(filter.id)}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="actions-bar">
+        <span className="tracking-count">
+          {visible.length} jobs{unassigned > 0 ? ` (${unassigned} shipments have no job)` : ''}
+        </span>
+        <button
+          className="refresh-button"
+          onClick={() => exportToCSV(visible, JOB_COLUMNS, 'jobs')}
+          disabled={visible.length === 0}
+        >
+          Export CSV
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="empty-state">
+          <p>{jobs.length === 0 ? 'No shipments have a Job Name. Import an order info file with a Job Name column.' : 'No jobs match your filters.'}</p>
+        </div>
+      ) : (
+        <div className="table-wrapper">
+          <table className="trackings-table">
+            <thead>
+              <tr>
+                <th>Job</th>
+                <th>Type</th>
+                <th>POs Delivered</th>
+                <th>Items Delivered</th>
+                <th>Latest ETA</th>
+                <th>Requested By</th>
+                <th>ETA vs Requested By</th>
+                <th>Ready</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr
+                  key={entry.name}
+                  className="clickable-row"
+                  onClick={() => onSelectJob(entry.name)}
+                  title="Click to view this job's POs and items"
+                >
+                  <td>{entry.name}</td>
+                  <td>{entry.types.join(', ') || 'N/A'}</td>
+                  <td>{entry.deliveredPOCount} / {entry.pos.length}</td>
+                  <td><ProgressBar percent={entry.percentDelivered} /></td>
+                  <td>{formatDate(entry.latestEta)}</td>
+                  <td>{formatDate(entry.requestedBy)}</td>
+                  <td><SlackBadge job={entry} /></td>
+                  <td><ReadyBadge job={entry} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default JobsPage
@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { geoAlbersUsa, geoPath } from 'd3-geo'
+import { feature } from 'topojson-client'
+import type { Topology, GeometryCollection } from 'topojson-specification'
+import './MapPage.css'
+import type { Shipment } from '../services/dataSources/types'
+import { buildMapPins, clusterPins, countByStatus, PinCluster, PinKind, PIN_KIND_LABELS } from '../services/mapService'
+import { formatDate, getStatusColor, getStatusLabel } from '../utils/format'
+
+interface MapPageProps {
+  trackings: Shipment[]
+  onOpenOrder: (trackingNumber: string) => void
+}
+
+// The projection's own coordinate space; the SVG scales it to fit
+const WIDTH = 975
+const HEIGHT = 610
+const CLUSTER_RADIUS = 24
+const MAX_ZOOM = 16
+
+const projection = geoAlbersUsa().scale(1300).translate([WIDTH / 2, HEIGHT / 2])
+const path = geoPath(projection)
+
+interface View {
+  k: number
+  x: number
+  y: number
+}
+
+const INITIAL_VIEW: View = { k: 1, x: 0, y: 0 }
+
+// Zoom by `factor` keeping the point (cx, cy) where it is on screen
+const zoomAround = (view: View, factor: number, cx = WIDTH / 2, cy = HEIGHT / 2): View => {
+  const k = Math.min(MAX_ZOOM, Math.max(1, view.k * factor))
+  const applied = k / view.k
+  return k === 1 ? INITIAL_VIEW : { k, x: cx - (cx - view.x) * applied, y: cy - (cy - view.y) * applied }
+}
+
+const markerRadius = (count: number) => 7 + Math.min(13, Math.sqrt(count) * 3)
+
+function ClusterMarker({ cluster, kind }: { cluster: PinCluster; kind: PinKind }) {
+  const radius = markerRadius(cluster.shipments.length)
+  const circumference = 2 * Math.PI * radius
+  let offset = 0
+
+  return (
+    <>
+      {kind === 'destination' && <circle r={radius + 4} className="map-marker-destination-ring" />}
+      <circle r={radius} className="map-marker-base" />
+      {countByStatus(cluster.shipments).map(({ tag, count }) => {
+        const length = (count / cluster.shipments.length) * circumference
+        const segment = (
+          <circle
+            key={tag}
+            r={radius}
+            className="map-marker-segment"
+            stroke={getStatusColor(tag)}
+            strokeDasharray={`${length} ${circumference - length}`}
+            strokeDashoffset={-offset}
+          />
+        )
+        offset += length
+        return segment
+      })}
+      <text className="map-marker-count" dy="0.35em">{cluster.shipments.length}</text>
+    </>
+  )
+}
+
+function MapPage({ trackings, onOpenOrder }: MapPageProps) {
+  const [statesPath, setStatesPath] = useState<string | null>(null)
+  const [outlineError, setOutlineError] = useState(false)
+  const [view, setView] = useState<View>(INITIAL_VIEW)
+  const [layers, setLayers] = useState<Record<PinKind, boolean>>({ current: true, destination: true })
+  const [selected, setSelected] = useState<{ kind: PinKind; key: string } | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ startX: number; startY: number; view: View; moved: boolean } | null>(null)
+
+  // State outlines are a separate chunk, bundled with the app so the map works offline
+  useEffect(() => {
+    let cancelled = false
+    import('us-atlas/states-10m.json')
+      .then(({ default: atlas }) => {
+        const topology = atlas as unknown as Topology
+        const states = feature(topology, topology.objects.states as GeometryCollection)
+        if (!cancelled) setStatesPath(path(states))
+      })
+      .catch(() => {
+        if (!cancelled) setOutlineError(true)
+      })
+    return () => { cancelled = true }
+  }, [])
+
+  const { pins, unplaced } = useMemo(() => buildMapPins(trackings), [trackings])
+
+  const projected = useMemo(() => pins.flatMap(pin => {
+    const point = projection([pin.place.lon, pin.place.lat])
+    return point ? [{ pin, point }] : []
+  }), [pins])
+
+  // Clusters are worked out in screen space, so they split apart as the map zooms in
+  const clusters = useMemo(() => (['current', 'destination'] as PinKind[])
+    .filter(kind => layers[kind])
+    .flatMap(kind => clusterPins(
+      projected
+        .filter(({ pin }) => pin.kind === kind)
+        .map(({ pin, point }) => ({ pin, x: point[0] * view.k + view.x, y: point[1] * view.k + view.y })),
+      CLUSTER_RADIUS,
+    ).map(cluster => ({ kind, cluster }))), [projected, layers, view])
+
+  const selectedCluster = selected
+    ? clusters.find(({ kind, cluster }) => kind === selected.kind && cluster.key === selected.key)?.cluster
+    : undefined
+
+  const placedCount = new Set(projected.flatMap(({ pin }) => pin.shipments)).size
+
+  // Pointer position in the projection's coordinate space
+  const toMapUnits = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return { x: ((clientX - rect.left) / rect.width) * WIDTH, y: ((clientY - rect.top) / rect.height) * HEIGHT }
+  }
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const { x, y } = toMapUnits(e.clientX, e.clientY)
+    dragRef.current = { startX: x, startY: y, view, moved: false }
+  }
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag || view.k === 1) return
+    const { x, y } = toMapUnits(e.clientX, e.clientY)
+    if (!drag.moved && Math.hypot(x - drag.startX, y - drag.startY) < 4) return
+    drag.moved = true
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setView({ ...drag.view, x: drag.view.x + x - drag.startX, y: drag.view.y + y - drag.startY })
+  }
+
+  const onPointerUp = () => {
+    // Let the click that ends a drag through first, so it can be ignored
+    setTimeout(() => { dragRef.current = null })
+  }
+
+  const openCluster = (kind: PinKind, cluster: PinCluster) => {
+    if (dragRef.current?.moved) return
+    if (cluster.shipments.length === 1) {
+      onOpenOrder(cluster.shipments[0].tracking_number)
+    } else {
+      setSelected({ kind, key: cluster.key })
+    }
+  }
+
+  const describeCluster = (cluster: PinCluster) => cluster.pins.length === 1
+    ? cluster.pins[0].label
+    : `${cluster.pins[0].label} and ${cluster.pins.length - 1} nearby`
+
+  if (trackings.length === 0) {
+    return (
+      <div className="empty-state">
+        <p>No shipments to map.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="map-page">
+      <div className="actions-bar">
+        <span className="tracking-count">
+          {placedCount} of {trackings.length} shipments on the map
+        </span>
+      </div>
+
+      <div className="status-filters">
+        {(['current', 'destination'] as PinKind[]).map(kind => (
+          <button
+            key={kind}
+            className={`status-filter-button ${layers[kind] ? 'active' : ''}`}
+            onClick={() => setLayers({ ...layers, [kind]: !layers[kind] })}
+          >
+            {PIN_KIND_LABELS[kind]}s
+          </button>
+        ))}
+      </div>
+
+      <div className="map-layout">
+        <div className="map-frame">
+          <svg
+            ref={svgRef}
+            className={`map-svg ${view.k > 1 ? 'pannable' : ''}`}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerLeave={onPointerUp}
+            onDoubleClick={(e) => {
+              const { x, y } = toMapUnits(e.clientX, e.clientY)
+              setView(zoomAround(view, 2, x, y))
+            }}
+          >
+            <g transform={`translate(${view.x},${view.y}) scale(${view.k})`}>
+              {statesPath && <path d={statesPath} className="map-states" />}
+            </g>
+            {clusters.map(({ kind, cluster }) => (
+              <g
+                key={`${kind}-${cluster.key}`}
+                className={`map-marker ${selected?.kind === kind && selected.key === cluster.key ? 'selected' : ''}`}
+                transform={`translate(${cluster.x},${cluster.y})`}
+                onClick={() => openCluster(kind, cluster)}
+                onDoubleClick={(e) => e.stopPropagation()}
+              >
+                <title>{`${describeCluster(cluster)} - ${cluster.shipments.length} shipments (${PIN_KIND_LABELS[kind].toLowerCase()})`}</title>
+                <ClusterMarker cluster={cluster} kind={kind} />
+              </g>
+            ))}
+          </svg>
+
+          <div className="map-zoom-controls">
+            <button onClick={() => setView(zoomAround(view, 2))} disabled={view.k >= MAX_ZOOM} title="Zoom in">+</button>
+            <button onClick={() => setView(zoomAround(view, 0.5))} disabled={view.k === 1} title="Zoom out">−</button>
+            <button onClick={() => setView(INITIAL_VIEW)} disabled={view.k === 1} title="Show the whole country">⟲</button>
+          </div>
+
+          {outlineError && <p className="map-note">State outlines couldn't be loaded; pins are still placed.</p>}
+        </div>
+
+        <aside className="map-panel">
+          {selectedCluster && selected ? (
+            <>
+              <div className="map-panel-header">
+                <h3>{describeCluster(selectedCluster)}</h3>
+                <button className="map-panel-close" onClick={() => setSelected(null)} title="Close">×</button>
+              </div>
+              <p className="map-panel-meta">
+                {selectedCluster.shipments.length} shipments · {PIN_KIND_LABELS[selected.kind]}
+                {selectedCluster.pins.some(pin => pin.place.precision === 'state') && ' · some placed at the state center'}
+              </p>
+              {selected.kind === 'destination' && (
+                <p className="map-panel-meta">Sites: {[...new Set(selectedCluster.pins.flatMap(pin => pin.sites))].join(', ')}</p>
+              )}
+              {selectedCluster.pins.length > 1 && (
+                <button
+                  className="map-panel-zoom"
+                  onClick={() => setView(zoomAround(view, 4, selectedCluster.x, selectedCluster.y))}
+                  disabled={view.k >= MAX_ZOOM}
+                >
+                  Zoom in here
+                </button>
+              )}
+              <ul className="map-shipment-list">
+                {selectedCluster.shipments.map(shipment => (
+                  <li key={shipment.id} className="map-shipment" onClick={() => onOpenOrder(shipment.tracking_number)}>
+                    <span className="status-badge-table" style={{ backgroundColor: getStatusColor(shipment.tag) }}>
+                      {getStatusLabel(shipment.tag)}
+                    </span>
+                    <span className="map-shipment-tracking">{shipment.tracking_number}</span>
+                    <span className="map-shipment-context">
+                      {[shipment.from_company, shipment.estimated_delivery && `ETA ${formatDate(shipment.estimated_delivery)}`]
+                        .filter(Boolean).join(' · ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <>
+              <h3>Legend</h3>
+              <ul className="map-legend">
+                <li><span className="map-legend-marker current" /> Current location - the latest carrier scan</li>
+                <li><span className="map-legend-marker destination" /> Destination site</li>
+                {countByStatus(trackings).map(({ tag, count }) => (
+                  <li key={tag}>
+                    <span className="map-legend-swatch" style={{ backgroundColor: getStatusColor(tag) }} />
+                    {getStatusLabel(tag)} ({count})
+                  </li>
+                ))}
+              </ul>
+              <p className="map-panel-meta">
+                Click a pin to open the order, or a group to list its shipments. Double-click or use + to zoom, then drag to pan.
+              </p>
+            </>
+          )}
+        </aside>
+      </div>
+
+      {unplaced.length > 0 && (
+        <details className="map-unplaced">
+          <summary>{unplaced.length} locations couldn't be placed</summary>
+          <ul className="map-shipment-list">
+            {unplaced.map(({ shipment, kind, reason }) => (
+              <li
+                key={`${kind}-${shipment.id}`}
+                className="map-shipment"
+                onClick={() => onOpenOrder(shipment.tracking_number)}
+              >
+                <span className="map-shipment-tracking">{shipment.tracking_number}</span>
+                <span className="map-shipment-context">{PIN_KIND_LABELS[kind]}: {reason}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
+
+export default MapPage
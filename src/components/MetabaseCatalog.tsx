@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import './MetabaseCatalog.css'
+import MetabaseFrame from './MetabaseFrame'
+import { fetchMetabaseEmbeds, getDateRangeContext, MetabaseContext, MetabaseEmbedConfig, MetabaseEmbedPlacement } from '../services/metabase'
+
+type CatalogLayout = 'tabs' | 'grid'
+
+interface MetabaseCatalogProps {
+  placement: MetabaseEmbedPlacement
+  context?: MetabaseContext // Locked context from the surrounding view (e.g. the open shipment)
+  suppliers?: string[] // Options for the supplier filter; omit to hide the filter controls
+  compact?: boolean // Tabs only, smaller frames and no configuration help (used in the order modal)
+  onAvailabilityChange?: (available: boolean) => void // Called once the catalogue has loaded (or failed to)
+}
+
+function MetabaseCatalog({ placement, context = {}, suppliers, compact, onAvailabilityChange }: MetabaseCatalogProps) {
+  const [embeds, setEmbeds] = useState<MetabaseEmbedConfig[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [layout, setLayout] = useState<CatalogLayout>('tabs')
+  const [activeEmbedId, setActiveEmbedId] = useState<string | null>(null)
+  const [supplier, setSupplier] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+
+  useEffect(() => {
+    fetchMetabaseEmbeds(placement)
+      .then(list => {
+        setEmbeds(list)
+        setActiveEmbedId(list[0]?.id || null)
+        onAvailabilityChange?.(list.length > 0)
+      })
+      .catch((err: any) => {
+        setError(err.message || 'Failed to load Metabase embeds')
+        onAvailabilityChange?.(false)
+      })
+      .finally(() => setLoading(false))
+  }, [placement])
+
+  if (loading) {
+    return compact ? null : (
+      <div className="loading-state">
+        <p>Loading Metabase visualization...</p>
+      </div>
+    )
+  }
+
+  if (error || embeds.length === 0) {
+    if (compact) {
+      return null
+    }
+    return (
+      <div className="metabase-config-message">
+        <p>⚠️ Metabase configuration issue detected</p>
+        <div className="metabase-instructions">
+          {error && <p>{error}</p>}
+          <p>Embed URLs are signed by the backend (<code>npm run server</code>), which could not provide one.</p>
+          <p><strong>Check the server configuration:</strong></p>
+          <ul>
+            <li><code>METABASE_SITE_URL</code> - use <code>https://</code> when this site is served over HTTPS, or browsers will block the embed as mixed content</li>
+            <li><code>METABASE_SECRET_KEY</code> - the static embedding secret (server-side only)</li>
+            <li><code>METABASE_QUESTION_ID</code> or <code>METABASE_EMBEDS_FILE</code> - the question or catalogue of embeds to show</li>
+          </ul>
+          <p><em>Check the browser console and the server log for details.</em></p>
+        </div>
+      </div>
+    )
+  }
+
+  const usesContext = (key: keyof MetabaseContext) => embeds.some(embed => embed.context.includes(key))
+  const showSupplierFilter = !!suppliers && usesContext('supplier')
+  const showDateFilter = !!suppliers && (usesContext('date_from') || usesContext('date_to') || usesContext('date_range'))
+
+  const embedContext: MetabaseContext = {
+    ...(supplier ? { supplier } : {}),
+    ...getDateRangeContext(dateFrom, dateTo),
+    ...context,
+  }
+
+  const activeLayout = compact ? 'tabs' : layout
+  const visibleEmbeds = activeLayout === 'grid'
+    ? embeds
+    : embeds.filter(embed => embed.id === activeEmbedId)
+
+  return (
+    <div className={`metabase-catalog ${compact ? 'compact' : ''}`}>
+      <div className="metabase-catalog-toolbar">
+        {activeLayout === 'tabs' && embeds.length > 1 && (
+          <div className="metabase-tabs">
+            {embeds.map(embed => (
+              <button
+                key={embed.id}
+                className={`status-filter-button ${embed.id === activeEmbedId ? 'active' : ''}`}
+                onClick={() => setActiveEmbedId(embed.id)}
+              >
+                {embed.type === 'dashboard' ? '📊' : '📈'} {embed.title}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {(showSupplierFilter || showDateFilter) && (
+          <div className="metabase-filters">
+            {showSupplierFilter && (
+              <select className="search-column-select" value={supplier} onChange={(e) => setSupplier(e.target.value)}>
+                <option value="">All suppliers</option>
+                {suppliers!.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            )}
+            {showDateFilter && (
+              <>
+                <input type="date" className="metabase-date-input" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} aria-label="From date" />
+                <input type="date" className="metabase-date-input" value={dateTo} onChange={(e) => setDateTo(e.target.value)} aria-label="To date" />
+              </>
+            )}
+          </div>
+        )}
+
+        {!compact && embeds.length > 1 && (
+          <div className="metabase-layout-toggle">
+            <button className={`status-filter-button ${layout === 'tabs' ? 'active' : ''}`} onClick={() => setLayout('tabs')}>Tabs</button>
+            <button className={`status-filter-button ${layout === 'grid' ? 'active' : ''}`} onClick={() => setLayout('grid')}>Grid</button>
+          </div>
+        )}
+      </div>
+
+      <div className={activeLayout === 'grid' ? 'metabase-grid' : 'metabase-single'}>
+        {visibleEmbeds.map(embed => (
+          <MetabaseFrame
+            key={embed.id}
+            embed={embed}
+            context={embedContext}
+            height={compact ? 360 : activeLayout === 'grid' ? 420 : 600}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default MetabaseCatalog
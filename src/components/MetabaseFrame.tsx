@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react'
+import { fetchMetabaseEmbed, MetabaseContext, MetabaseEmbedConfig } from '../services/metabase'
+
+// Embed tokens expire after 10 minutes, so re-sign shortly before that
+const REFRESH_INTERVAL_MS = 9 * 60 * 1000
+
+interface MetabaseFrameProps {
+  embed: MetabaseEmbedConfig
+  context: MetabaseContext
+  height?: number
+}
+
+function MetabaseFrame({ embed, context, height = 600 }: MetabaseFrameProps) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const contextKey = JSON.stringify(context)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const signed = await fetchMetabaseEmbed(embed.id, context)
+        if (!cancelled) {
+          setUrl(signed.url)
+          setError(null)
+        }
+      } catch (err: any) {
+        if (!cancelled) {
+          setError(err.message || 'Failed to load Metabase embed')
+        }
+      }
+    }
+
+    setUrl(null)
+    load()
+    const refreshInterval = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(refreshInterval)
+    }
+  }, [embed.id, contextKey])
+
+  if (error) {
+    return <div className="error-message">{embed.title}: {error}</div>
+  }
+
+  if (!url) {
+    return (
+      <div className="loading-state">
+        <p>Loading {embed.title}...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="metabase-embed-wrapper">
+      <iframe
+        src={url}
+        className="metabase-iframe"
+        style={{ height, minHeight: height }}
+        title={embed.title}
+        frameBorder="0"
+        allowTransparency
+        allow="fullscreen"
+      />
+    </div>
+  )
+}
+
+export default MetabaseFrame
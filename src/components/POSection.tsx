@@ -0,0 +1,96 @@
+import type { ReactNode } from 'react'
+import './POSection.css'
+import type { Shipment } from '../services/dataSources'
+import type { POItem } from '../services/csvService'
+import { getCarrierName } from '../services/carriers'
+import { getStatusColor, getStatusLabel, formatDate } from '../utils/format'
+
+interface POSectionProps {
+  poNumber: string
+  shipments: Shipment[]
+  items: POItem[]
+  onOpenOrder: (trackingNumber: string) => void
+  showSupplier?: boolean
+  badge?: ReactNode // Shown next to the PO heading
+}
+
+/**
+ * A PO's shipments and the items ordered on it, as used by the drill-down pages
+ */
+function POSection({ poNumber, shipments, items, onOpenOrder, showSupplier, badge }: POSectionProps) {
+  return (
+    <section className="po-section">
+      <h3>
+        {poNumber ? `PO ${poNumber}` : 'No PO Number'}
+        {badge}
+      </h3>
+      <div className="table-wrapper">
+        <table className="trackings-table">
+          <thead>
+            <tr>
+              <th>Tracking Number</th>
+              <th>Order ID</th>
+              {showSupplier && <th>Supplier</th>}
+              <th>Carrier</th>
+              <th>Status</th>
+              <th>Ship Date</th>
+              <th>ETA</th>
+              <th>Requested By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shipments.map(shipment => (
+              <tr
+                key={shipment.tracking_number}
+                className="clickable-row"
+                onClick={() => onOpenOrder(shipment.tracking_number)}
+              >
+                <td>{shipment.tracking_number}</td>
+                <td>{shipment.order_id || 'N/A'}</td>
+                {showSupplier && <td>{shipment.from_company || 'N/A'}</td>}
+                <td>{getCarrierName(shipment.slug)}</td>
+                <td>
+                  <span className="status-badge-table" style={{ backgroundColor: getStatusColor(shipment.tag) }}>
+                    {getStatusLabel(shipment.tag)}
+                  </span>
+                </td>
+                <td>{formatDate(shipment.ship_date)}</td>
+                <td>{formatDate(shipment.estimated_delivery)}</td>
+                <td>{formatDate(shipment.requested_by_date)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {items.length > 0 && (
+        <div className="po-items-table-wrapper">
+          <table className="po-items-table">
+            <thead>
+              <tr>
+                <th>Item Name</th>
+                <th>Part Number</th>
+                <th>Description</th>
+                <th>Color</th>
+                <th>Quantity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td>{item.item_name || 'N/A'}</td>
+                  <td>{item.part_number || 'N/A'}</td>
+                  <td>{item.description || 'N/A'}</td>
+                  <td>{item.color || 'N/A'}</td>
+                  <td>{item.quantity || 'N/A'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default POSection
@@ -0,0 +1,392 @@
+import { useState, useEffect } from 'react'
+import Papa from 'papaparse'
+import './ReceivingPage.css'
+import type { Shipment } from '../services/dataSources'
+import type { POItem } from '../services/csvService'
+import { receiptStore, Receipt } from '../services/receiptStore'
+import {
+  ReceivedQuantities,
+  ReceivingState,
+  getItemKey,
+  getOrderedQuantity,
+  getReceivedQuantity,
+  getOutstandingQuantity,
+  summarizePOReceiving,
+} from '../services/receivingService'
+import { getStatusColor, getStatusLabel } from '../utils/format'
+import { downloadFile } from '../utils/download'
+
+interface ReceivingPageProps {
+  trackings: Shipment[]
+  poItemsMap: Map<string, POItem[]>
+  receipts: Receipt[]
+  receivedQuantities: ReceivedQuantities
+  poNumber: string | null // PO open for receiving
+  onSelectPO: (poNumber: string | null) => void
+  onReceiptsChange: () => void
+  onOpenOrder: (trackingNumber: string) => void
+  canReceive: boolean // Viewers see quantities and history but can't record or undo receipts
+  userName?: string // Signed-in user, the default for "Received by"
+}
+
+type ReceivingFilter = 'open' | ReceivingState | 'all'
+
+const RECEIVING_FILTERS: { id: ReceivingFilter; label: string }[] = [
+  { id: 'open', label: 'Not Fully Received' },
+  { id: 'none', label: 'Nothing Received' },
+  { id: 'partial', label: 'Partially Received' },
+  { id: 'complete', label: 'Fully Received' },
+  { id: 'all', label: 'All POs' },
+]
+
+const STATE_LABELS: Record<ReceivingState, string> = {
+  none: 'Not Received',
+  partial: 'Partially Received',
+  complete: 'Received',
+}
+
+// Remember who is receiving so they don't have to retype it for every PO
+const RECEIVED_BY_KEY = 'order-tracker.received-by'
+
+const newReceiptId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+const formatTimestamp = (value: string) => new Date(value).toLocaleString('en-US', {
+  month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit',
+})
+
+function ReceivingPage({ trackings, poItemsMap, receipts, receivedQuantities, poNumber, onSelectPO, onReceiptsChange, onOpenOrder, canReceive, userName }: ReceivingPageProps) {
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<ReceivingFilter>('open')
+  const [receivedBy, setReceivedBy] = useState(() => localStorage.getItem(RECEIVED_BY_KEY) || userName || '')
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Start each PO with empty quantities
+  useEffect(() => {
+    setQuantities({})
+    setNote('')
+    setError(null)
+  }, [poNumber])
+
+  const exportCSV = () => {
+    const csv = Papa.unparse(receipts.map(receipt => ({
+      'PO Number': receipt.po_number,
+      'Part Number': receipt.part_number,
+      'Item Name': receipt.item_name,
+      'Quantity Received': receipt.quantity,
+      'Received By': receipt.received_by,
+      'Received At': receipt.received_at,
+      Note: receipt.note || '',
+    })))
+    downloadFile(csv, `receipts-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv;charset=utf-8')
+  }
+
+  const exportJSON = () => {
+    downloadFile(JSON.stringify(receipts, null, 2), `receipts-${new Date().toISOString().slice(0, 10)}.json`, 'application/json')
+  }
+
+  const exportButtons = (
+    <div className="receiving-exports">
+      <button className="refresh-button" onClick={exportCSV} disabled={receipts.length === 0}>Export Receipts CSV</button>
+      <button className="refresh-button" onClick={exportJSON} disabled={receipts.length === 0}>Export JSON</button>
+    </div>
+  )
+
+  if (poNumber) {
+    const items = poItemsMap.get(poNumber.toLowerCase()) || []
+    const shipments = trackings.filter(tracking => tracking.po_number?.toLowerCase() === poNumber.toLowerCase())
+    const summary = summarizePOReceiving(items, receivedQuantities, receipts)
+    const poReceipts = receipts.filter(receipt => receipt.po_number.toLowerCase() === poNumber.toLowerCase()).reverse()
+
+    const setQuantity = (item: POItem, value: string) =>
+      setQuantities(current => ({ ...current, [getItemKey(item)]: value }))
+
+    const fillOutstanding = () => {
+      const filled: Record<string, string> = {}
+      items.forEach(item => {
+        const outstanding = getOutstandingQuantity(item, receivedQuantities)
+        if (outstanding > 0) filled[getItemKey(item)] = String(outstanding)
+      })
+      setQuantities(filled)
+    }
+
+    const saveReceipt = async () => {
+      const receivedAt = new Date().toISOString()
+      const newReceipts: Receipt[] = items
+        .map(item => ({ item, quantity: Number(quantities[getItemKey(item)]) || 0 }))
+        .filter(({ quantity }) => quantity > 0)
+        .map(({ item, quantity }) => ({
+          id: newReceiptId(),
+          po_number: item.po_number,
+          item_key: getItemKey(item),
+          item_name: item.item_name,
+          part_number: item.part_number,
+          quantity,
+          received_by: receivedBy.trim(),
+          received_at: receivedAt,
+          note: note.trim() || undefined,
+        }))
+
+      if (!receivedBy.trim()) {
+        setError('Enter who received the items.')
+        return
+      }
+      if (newReceipts.length === 0) {
+        setError('Enter a quantity for at least one item.')
+        return
+      }
+
+      setSaving(true)
+      setError(null)
+      try {
+        localStorage.setItem(RECEIVED_BY_KEY, receivedBy.trim())
+        await receiptStore.saveReceipts(newReceipts)
+        setQuantities({})
+        setNote('')
+        onReceiptsChange()
+      } catch (err: any) {
+        setError(err.message || 'Failed to save the receipt')
+      } finally {
+        setSaving(false)
+      }
+    }
+
+    const undoReceipt = async (receipt: Receipt) => {
+      if (!window.confirm(`Remove the receipt of ${receipt.quantity} × ${receipt.part_number || receipt.item_name}?`)) return
+      await receiptStore.deleteReceipt(receipt.id)
+      onReceiptsChange()
+    }
+
+    return (
+      <div className="receiving-page">
+        <div className="actions-bar">
+          <button className="refresh-button" onClick={() => onSelectPO(null)}>← All POs</button>
+          <h2 className="detail-title">PO {items[0]?.po_number || poNumber}</h2>
+          {items.length > 0 && (
+            <span className={`receiving-state ${summary.state}`}>
+              {STATE_LABELS[summary.state]} · {summary.received} of {summary.ordered} units
+            </span>
+          )}
+        </div>
+
+        {shipments.length > 0 && (
+          <div className="receiving-shipments">
+            {shipments.map(shipment => (
+              <button key={shipment.tracking_number} className="receiving-shipment" onClick={() => onOpenOrder(shipment.tracking_number)}>
+                <span className="status-badge-table" style={{ backgroundColor: getStatusColor(shipment.tag) }}>
+                  {getStatusLabel(shipment.tag)}
+                </span>
+                {shipment.from_company || 'Unknown supplier'} · {shipment.tracking_number}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+
+        {items.length === 0 ? (
+          <div className="empty-state">
+            <p>No items are loaded for this PO.</p>
+          </div>
+        ) : (
+          <>
+            <div className="table-wrapper">
+              <table className="trackings-table">
+                <thead>
+                  <tr>
+                    <th>Item Name</th>
+                    <th>Part Number</th>
+                    <th>Color</th>
+                    <th>Ordered</th>
+                    <th>Received</th>
+                    <th>Outstanding</th>
+                    {canReceive && <th>Receive Now</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map(item => {
+                    const outstanding = getOutstandingQuantity(item, receivedQuantities)
+                    return (
+                      <tr key={getItemKey(item)}>
+                        <td>{item.item_name || 'N/A'}</td>
+                        <td>{item.part_number || 'N/A'}</td>
+                        <td>{item.color || 'N/A'}</td>
+                        <td>{getOrderedQuantity(item)}</td>
+                        <td>{getReceivedQuantity(item, receivedQuantities)}</td>
+                        <td className={outstanding > 0 ? 'outstanding-quantity' : ''}>{outstanding}</td>
+                        {canReceive && (
+                          <td>
+                            <input
+                              type="number"
+                              min={0}
+                              className="receiving-quantity-input"
+                              value={quantities[getItemKey(item)] || ''}
+                              placeholder="0"
+                              onChange={(e) => setQuantity(item, e.target.value)}
+                            />
+                          </td>
+                        )}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {canReceive && (
+              <div className="receiving-form">
+                <label>
+                  Received by
+                  <input type="text" value={receivedBy} onChange={(e) => setReceivedBy(e.target.value)} placeholder="Name" />
+                </label>
+                <label className="receiving-note">
+                  Note
+                  <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional, e.g. box 2 of 3 or damaged carton" />
+                </label>
+                <button className="refresh-button" onClick={fillOutstanding} disabled={summary.outstanding === 0}>
+                  Fill Outstanding
+                </button>
+                <button className="refresh-button" onClick={saveReceipt} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Receipt'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+
+        <h3 className="receiving-history-title">Receipt History</h3>
+        {poReceipts.length === 0 ? (
+          <p className="receiving-empty">Nothing has been received on this PO yet.</p>
+        ) : (
+          <div className="table-wrapper">
+            <table className="trackings-table">
+              <thead>
+                <tr>
+                  <th>Received At</th>
+                  <th>Received By</th>
+                  <th>Item</th>
+                  <th>Quantity</th>
+                  <th>Note</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {poReceipts.map(receipt => (
+                  <tr key={receipt.id}>
+                    <td>{formatTimestamp(receipt.received_at)}</td>
+                    <td>{receipt.received_by}</td>
+                    <td>{receipt.part_number ? `${receipt.part_number} - ${receipt.item_name}` : receipt.item_name}</td>
+                    <td>{receipt.quantity}</td>
+                    <td>{receipt.note || ''}</td>
+                    <td>
+                      {canReceive && <button className="receiving-undo" onClick={() => undoReceipt(receipt)}>Undo</button>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const term = search.trim().toLowerCase()
+  const pos = Array.from(poItemsMap.values())
+    .filter(items => items.length > 0)
+    .map(items => {
+      const shipment = trackings.find(tracking => tracking.po_number?.toLowerCase() === items[0].po_number.toLowerCase())
+      return { poNumber: items[0].po_number, items, shipment, summary: summarizePOReceiving(items, receivedQuantities, receipts) }
+    })
+    .filter(po => {
+      if (filter === 'open' && po.summary.state === 'complete') return false
+      if (filter !== 'open' && filter !== 'all' && po.summary.state !== filter) return false
+      return !term || [po.poNumber, po.shipment?.from_company, po.shipment?.tracking_number, po.shipment?.job_name]
+        .some(value => value?.toLowerCase().includes(term))
+    })
+    .sort((a, b) => a.poNumber.localeCompare(b.poNumber))
+
+  return (
+    <div className="receiving-page">
+      <div className="search-section">
+        <input
+          type="text"
+          className="search-input"
+          placeholder="Search by PO, supplier, tracking number or job..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="status-filters">
+        {RECEIVING_FILTERS.map(option => (
+          <button
+            key={option.id}
+            className={`status-filter-button ${filter === option.id ? 'active' : ''}`}
+            onClick={() => setFilter(option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="actions-bar">
+        <span className="tracking-count">{pos.length} POs · {receipts.length} receipts recorded</span>
+        {exportButtons}
+      </div>
+
+      {pos.length === 0 ? (
+        <div className="empty-state">
+          <p>{poItemsMap.size === 0 ? 'No PO items loaded. Import a PO items file first.' : 'No POs match your filters.'}</p>
+        </div>
+      ) : (
+        <div className="table-wrapper">
+          <table className="trackings-table">
+            <thead>
+              <tr>
+                <th>PO Number</th>
+                <th>Supplier</th>
+                <th>Shipment Status</th>
+                <th>Lines</th>
+                <th>Received</th>
+                <th>Outstanding</th>
+                <th>Last Received</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pos.map(po => (
+                <tr key={po.poNumber} className="clickable-row" onClick={() => onSelectPO(po.poNumber)} title="Click to receive items">
+                  <td>{po.poNumber}</td>
+                  <td>{po.shipment?.from_company || 'N/A'}</td>
+                  <td>
+                    {po.shipment ? (
+                      <span className="status-badge-table" style={{ backgroundColor: getStatusColor(po.shipment.tag) }}>
+                        {getStatusLabel(po.shipment.tag)}
+                      </span>
+                    ) : 'No shipment'}
+                  </td>
+                  <td>{po.items.length}</td>
+                  <td>
+                    <span className={`receiving-state ${po.summary.state}`}>
+                      {po.summary.received} / {po.summary.ordered}
+                    </span>
+                  </td>
+                  <td className={po.summary.outstanding > 0 ? 'outstanding-quantity' : ''}>{po.summary.outstanding}</td>
+                  <td>
+                    {po.summary.lastReceipt
+                      ? `${formatTimestamp(po.summary.lastReceipt.received_at)} by ${po.summary.lastReceipt.received_by}`
+                      : 'N/A'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ReceivingPage
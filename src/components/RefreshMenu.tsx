@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import './RefreshMenu.css'
+import { RefreshSettings, REFRESH_INTERVALS } from '../services/backgroundRefresh'
+import {
+  NotificationEvent,
+  NOTIFICATION_EVENT_LABELS,
+  notificationsSupported,
+  requestNotificationPermission,
+} from '../services/notificationService'
+
+interface RefreshMenuProps {
+  settings: RefreshSettings
+  onChange: (settings: RefreshSettings) => void
+  lastLoadedAt: string | null
+}
+
+const intervalLabel = (minutes: number) => (minutes === 0 ? 'Off' : `Every ${minutes} min`)
+
+function RefreshMenu({ settings, onChange, lastLoadedAt }: RefreshMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    notificationsSupported() ? Notification.permission : null
+  )
+
+  const toggleEvent = async (event: NotificationEvent) => {
+    const subscribed = settings.notifyEvents.includes(event)
+    if (!subscribed) {
+      setPermission(await requestNotificationPermission())
+    }
+    onChange({
+      ...settings,
+      notifyEvents: subscribed
+        ? settings.notifyEvents.filter(existing => existing !== event)
+        : [...settings.notifyEvents, event],
+    })
+  }
+
+  return (
+    <div className="refresh-menu">
+      <button
+        className="refresh-button"
+        onClick={() => setOpen(!open)}
+        title={lastLoadedAt ? `Last loaded ${new Date(lastLoadedAt).toLocaleTimeString()}` : undefined}
+      >
+        Auto-refresh: {intervalLabel(settings.intervalMinutes)} ▾
+      </button>
+      {open && (
+        <div className="refresh-menu-panel">
+          <div className="refresh-menu-heading">Refresh</div>
+          {REFRESH_INTERVALS.map(minutes => (
+            <label key={minutes} className="refresh-menu-option">
+              <input
+                type="radio"
+                name="refresh-interval"
+                checked={settings.intervalMinutes === minutes}
+                onChange={() => onChange({ ...settings, intervalMinutes: minutes })}
+              />
+              {intervalLabel(minutes)}
+            </label>
+          ))}
+
+          <div className="refresh-menu-heading">Notify me when</div>
+          {(Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEvent[]).map(event => (
+            <label key={event} className="refresh-menu-option">
+              <input
+                type="checkbox"
+                checked={settings.notifyEvents.includes(event)}
+                onChange={() => toggleEvent(event)}
+                disabled={permission === null}
+              />
+              {NOTIFICATION_EVENT_LABELS[event]}
+            </label>
+          ))}
+          {permission === null && (
+            <p className="refresh-menu-note">This browser doesn't support notifications.</p>
+          )}
+          {permission === 'denied' && (
+            <p className="refresh-menu-note">Notifications are blocked for this site. Allow them in the browser's site settings.</p>
+          )}
+          {settings.notifyEvents.length > 0 && settings.intervalMinutes === 0 && (
+            <p className="refresh-menu-note">Notifications only fire when the data is refreshed. Turn on auto-refresh to get them in the background.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RefreshMenu
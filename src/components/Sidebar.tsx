@@ -1,22 +1,48 @@
 import './Sidebar.css'
+import SiteSwitcher from './SiteSwitcher'
+import { authEnabled, canAccessPage, logout, ROLE_LABELS, AuthUser } from '../services/auth'
+import type { Site } from '../services/siteService'
 
 interface SidebarProps {
   activePage: string
   onNavigate: (page: string) => void
+  user: AuthUser
+  sites: Site[]
+  selectedSites: string[]
+  defaultSites: string[]
+  onSelectSites: (sites: string[]) => void
+  onSaveDefaultSites: (sites: string[]) => void
 }
 
-function Sidebar({ activePage, onNavigate }: SidebarProps) {
+function Sidebar({ activePage, onNavigate, user, sites, selectedSites, defaultSites, onSelectSites, onSaveDefaultSites }: SidebarProps) {
   const menuItems = [
     { id: 'tracking', label: 'Order Tracking', icon: '📦' },
     { id: 'order-history', label: 'Order History', icon: '📋' },
+    { id: 'activity', label: 'Activity', icon: '🔔' },
+    { id: 'map', label: 'Map', icon: '🗺️' },
+    { id: 'calendar', label: 'Calendar', icon: '📅' },
+    { id: 'receiving', label: 'Receiving', icon: '📬' },
+    { id: 'jobs', label: 'Jobs', icon: '🏗️' },
+    { id: 'suppliers', label: 'Suppliers', icon: '🏭' },
     { id: 'analytics', label: 'Analytics', icon: '📊' },
-  ]
+    { id: 'import', label: 'Import Data', icon: '📥' },
+    { id: 'data-quality', label: 'Data Quality', icon: '🩺' },
+  ].filter(item => canAccessPage(user.role, item.id))
 
   return (
     <nav className="sidebar">
       <div className="sidebar-header">
         <h2 className="sidebar-logo">Order Tracker</h2>
       </div>
+      {sites.length > 1 && (
+        <SiteSwitcher
+          sites={sites}
+          selected={selectedSites}
+          defaultSites={defaultSites}
+          onChange={onSelectSites}
+          onSaveDefault={onSaveDefaultSites}
+        />
+      )}
       <ul className="sidebar-menu">
         {menuItems.map(item => (
           <li key={item.id}>
@@ -30,6 +56,13 @@ function Sidebar({ activePage, onNavigate }: SidebarProps) {
           </li>
         ))}
       </ul>
+      {authEnabled() && (
+        <div className="sidebar-user">
+          <div className="sidebar-user-name" title={user.email}>{user.name}</div>
+          <div className="sidebar-user-role">{ROLE_LABELS[user.role]}</div>
+          <button className="sidebar-sign-out" onClick={() => logout()}>Sign Out</button>
+        </div>
+      )}
     </nav>
   )
 }
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import './SiteSwitcher.css'
+import { siteKey, Site } from '../services/siteService'
+
+interface SiteSwitcherProps {
+  sites: Site[] // Sites the user can choose from
+  selected: string[] // Empty for all sites
+  defaultSites: string[]
+  onChange: (sites: string[]) => void
+  onSaveDefault: (sites: string[]) => void
+}
+
+const sameSites = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(name => b.some(other => siteKey(other) === siteKey(name)))
+
+const describeSelection = (selected: string[]) =>
+  selected.length === 0 ? 'All sites' : selected.length === 1 ? selected[0] : `${selected.length} sites`
+
+function SiteSwitcher({ sites, selected, defaultSites, onChange, onSaveDefault }: SiteSwitcherProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState('')
+
+  const selectedKeys = new Set(selected.map(siteKey))
+  const term = search.trim().toLowerCase()
+  const visible = term ? sites.filter(site => site.name.toLowerCase().includes(term)) : sites
+
+  const toggleSite = (site: Site) => {
+    onChange(selectedKeys.has(site.key)
+      ? selected.filter(name => siteKey(name) !== site.key)
+      : [...selected, site.name])
+  }
+
+  return (
+    <div className="site-switcher">
+      <button
+        className="site-switcher-button"
+        onClick={() => setOpen(!open)}
+        title={selected.length > 1 ? selected.join('\n') : 'Choose the sites every page shows'}
+      >
+        <span className="site-switcher-icon">📍</span>
+        <span className="site-switcher-label">{describeSelection(selected)}</span>
+        <span className="site-switcher-caret">▾</span>
+      </button>
+      {open && (
+        <div className="site-switcher-panel">
+          {sites.length > 8 && (
+            <input
+              type="text"
+              className="site-switcher-search"
+              placeholder="Search sites..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          )}
+          <label className="site-switcher-option">
+            <input type="checkbox" checked={selected.length === 0} onChange={() => onChange([])} />
+            <span className="site-switcher-name">All sites</span>
+          </label>
+          {visible.map(site => (
+            <label key={site.key} className="site-switcher-option" title={site.company ? `${site.location} (${site.company})` : site.name}>
+              <input type="checkbox" checked={selectedKeys.has(site.key)} onChange={() => toggleSite(site)} />
+              <span className="site-switcher-name">{site.name}</span>
+              <span className="site-switcher-count" title={`${site.openCount} open of ${site.shipmentCount} shipments`}>
+                {site.openCount}
+              </span>
+            </label>
+          ))}
+          {visible.length === 0 && <p className="site-switcher-note">No sites match your search.</p>}
+          <div className="site-switcher-footer">
+            <button
+              className="site-switcher-save"
+              onClick={() => onSaveDefault(selected)}
+              disabled={sameSites(selected, defaultSites)}
+            >
+              Save as My Default
+            </button>
+            <span className="site-switcher-note">Default: {describeSelection(defaultSites)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SiteSwitcher
@@ -0,0 +1,22 @@
+import type { ReactNode } from 'react'
+import './StatCards.css'
+
+export interface StatCard {
+  label: string
+  value: ReactNode
+}
+
+function StatCards({ stats }: { stats: StatCard[] }) {
+  return (
+    <div className="stat-cards">
+      {stats.map(stat => (
+        <div key={stat.label} className="stat-card">
+          <span className="stat-card-value">{stat.value}</span>
+          <span className="stat-card-label">{stat.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default StatCards
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import type { Shipment } from '../services/dataSources'
+import type { POItem } from '../services/csvService'
+import { summarizeSuppliers, getSupplierPOs, SupplierSummary } from '../services/supplierService'
+import { getCarrierName } from '../services/carriers'
+import { exportToCSV, ExportColumn } from '../services/exportService'
+import POSection from './POSection'
+import StatCards from './StatCards'
+
+interface SuppliersPageProps {
+  trackings: Shipment[]
+  poItemsMap: Map<string, POItem[]>
+  supplier: string | null // Supplier open in the drill-down view
+  onSelectSupplier: (supplier: string | null) => void
+  onOpenOrder: (trackingNumber: string) => void
+}
+
+const formatRate = (rate: number | null) => (rate === null ? 'N/A' : `${Math.round(rate * 100)}%`)
+const formatDays = (days: number | null) => (days === null ? 'N/A' : `${days} days`)
+
+const SCORECARD_COLUMNS: ExportColumn<SupplierSummary>[] = [
+  { label: 'Supplier', value: row => row.name },
+  { label: 'Shipments', value: row => row.shipmentCount },
+  { label: 'Open', value: row => row.openCount },
+  { label: 'Delivered', value: row => row.deliveredCount },
+  { label: 'Avg Lead Time (days)', value: row => row.avgLeadTimeDays ?? '' },
+  { label: 'Late', value: row => row.lateCount },
+  { label: 'Late Rate', value: row => formatRate(row.lateRate) },
+  { label: 'Carriers', value: row => row.carriers.map(getCarrierName).join(', ') },
+  { label: 'POs', value: row => row.poNumbers.join(', ') },
+]
+
+function SupplierStats({ summary }: { summary: SupplierSummary }) {
+  const stats = [
+    { label: 'Shipments', value: summary.shipmentCount },
+    { label: 'Open', value: summary.openCount },
+    { label: 'Delivered', value: summary.deliveredCount },
+    { label: 'Avg Lead Time', value: formatDays(summary.avgLeadTimeDays) },
+    { label: 'Late Rate', value: formatRate(summary.lateRate) },
+    { label: 'Carriers', value: summary.carriers.map(getCarrierName).join(', ') || 'N/A' },
+  ]
+
+  return <StatCards stats={stats} />
+}
+
+function SuppliersPage({ trackings, poItemsMap, supplier, onSelectSupplier, onOpenOrder }: SuppliersPageProps) {
+  const [search, setSearch] = useState('')
+  const summaries = summarizeSuppliers(trackings)
+
+  if (supplier) {
+    const summary = summaries.find(entry => entry.name === supplier)
+    const pos = getSupplierPOs(supplier, trackings, poItemsMap)
+
+    return (
+      <div className="suppliers-page">
+        <div className="actions-bar">
+          <button className="refresh-button" onClick={() => onSelectSupplier(null)}>← All Suppliers</button>
+          <h2 className="detail-title">{supplier}</h2>
+        </div>
+
+        {!summary ? (
+          <div className="empty-state">
+            <p>No shipments found for this supplier.</p>
+          </div>
+        ) : (
+          <>
+            <SupplierStats summary={summary} />
+
+            {pos.map(po => (
+              <POSection key={po.poNumber || 'no-po'} {...po} onOpenOrder={onOpenOrder} />
+            ))}
+          </>
+        )}
+      </div>
+    )
+  }
+
+  const term = search.trim().toLowerCase()
+  const visible = term ? summaries.filter(summary => summary.name.toLowerCase().includes(term)) : summaries
+
+  return (
+    <div className="suppliers-page">
+      <div className="search-section">
+        <input
+          type="text"
+          className="search-input"
+          placeholder="Search suppliers..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="actions-bar">
+        <span className="tracking-count">{visible.length} suppliers</span>
+        <button
+          className="refresh-button"
+          onClick={() => exportToCSV(visible, SCORECARD_COLUMNS, 'supplier-scorecards')}
+          disabled={visible.length === 0}
+        >
+          Export CSV
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="empty-state">
+          <p>{summaries.length === 0 ? 'No shipments loaded.' : 'No suppliers match your search.'}</p>
+        </div>
+      ) : (
+        <div className="table-wrapper">
+          <table className="trackings-table">
+            <thead>
+              <tr>
+                <th>Supplier</th>
+                <th>Shipments</th>
+                <th>Open</th>
+                <th>Delivered</th>
+                <th>Avg Lead Time</th>
+                <th>Late Rate</th>
+                <th>Carriers</th>
+                <th>POs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(summary => (
+                <tr
+                  key={summary.name}
+                  className="clickable-row"
+                  onClick={() => onSelectSupplier(summary.name)}
+                  title="Click to view this supplier's POs and items"
+                >
+                  <td>{summary.name}</td>
+                  <td>{summary.shipmentCount}</td>
+                  <td>{summary.openCount}</td>
+                  <td>{summary.deliveredCount}</td>
+                  <td>{formatDays(summary.avgLeadTimeDays)}</td>
+                  <td title={summary.lateRate === null ? 'No requested-by dates to compare against' : `${summary.lateCount} late`}>
+                    {formatRate(summary.lateRate)}
+                  </td>
+                  <td>{summary.carriers.map(getCarrierName).join(', ') || 'N/A'}</td>
+                  <td>{summary.poNumbers.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SuppliersPage
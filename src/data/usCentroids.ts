@@ -0,0 +1,80 @@
+// Offline geocoding data - approximate [latitude, longitude] centroids for US states and larger cities.
+// Used by the Map page instead of a live geocoder; add cities here as new destinations come up.
+
+export const STATE_CENTROIDS: Record<string, [number, number]> = {
+  AL: [32.8, -86.8], AK: [64.7, -152.0], AZ: [34.3, -111.7], AR: [34.9, -92.4], CA: [37.2, -119.5],
+  CO: [39.0, -105.5], CT: [41.6, -72.7], DE: [39.0, -75.5], DC: [38.9, -77.0], FL: [28.6, -82.4],
+  GA: [32.7, -83.4], HI: [20.8, -156.3], ID: [44.4, -114.6], IL: [40.0, -89.2], IN: [39.9, -86.3],
+  IA: [42.1, -93.5], KS: [38.5, -98.4], KY: [37.5, -85.3], LA: [31.1, -92.0], ME: [45.4, -69.2],
+  MD: [39.0, -76.8], MA: [42.3, -71.8], MI: [44.3, -85.4], MN: [46.3, -94.3], MS: [32.7, -89.7],
+  MO: [38.4, -92.5], MT: [47.0, -109.6], NE: [41.5, -99.8], NV: [39.3, -116.6], NH: [43.7, -71.6],
+  NJ: [40.2, -74.7], NM: [34.4, -106.1], NY: [42.9, -75.5], NC: [35.6, -79.4], ND: [47.5, -100.5],
+  OH: [40.3, -82.8], OK: [35.6, -97.5], OR: [43.9, -120.6], PA: [40.9, -77.8], RI: [41.7, -71.5],
+  SC: [33.9, -80.9], SD: [44.4, -100.2], TN: [35.9, -86.4], TX: [31.5, -99.3], UT: [39.3, -111.7],
+  VT: [44.1, -72.7], VA: [37.5, -78.8], WA: [47.4, -120.5], WV: [38.6, -80.6], WI: [44.6, -89.9],
+  WY: [43.0, -107.6],
+}
+
+// Keyed by "<city>|<state code>", with the city lower-cased, periods dropped and "Saint" written "st"
+export const CITY_CENTROIDS: Record<string, [number, number]> = {
+  'akron|OH': [41.08, -81.52], 'albany|NY': [42.65, -73.76], 'albuquerque|NM': [35.08, -106.65],
+  'allentown|PA': [40.60, -75.49], 'amarillo|TX': [35.22, -101.83], 'anaheim|CA': [33.84, -117.91],
+  'anchorage|AK': [61.22, -149.90], 'ann arbor|MI': [42.28, -83.74], 'annapolis|MD': [38.98, -76.49],
+  'arlington|TX': [32.74, -97.11], 'atlanta|GA': [33.75, -84.39], 'augusta|GA': [33.47, -81.97],
+  'augusta|ME': [44.31, -69.78], 'aurora|CO': [39.73, -104.83], 'austin|TX': [30.27, -97.74],
+  'bakersfield|CA': [35.37, -119.02], 'baltimore|MD': [39.29, -76.61], 'baton rouge|LA': [30.45, -91.19],
+  'billings|MT': [45.78, -108.50], 'birmingham|AL': [33.52, -86.80], 'bismarck|ND': [46.81, -100.78],
+  'boise|ID': [43.62, -116.20], 'boston|MA': [42.36, -71.06], 'buffalo|NY': [42.89, -78.88],
+  'burlington|VT': [44.48, -73.21], 'carson city|NV': [39.16, -119.77], 'chandler|AZ': [33.31, -111.84],
+  'charleston|SC': [32.78, -79.93], 'charleston|WV': [38.35, -81.63], 'charlotte|NC': [35.23, -80.84],
+  'chattanooga|TN': [35.05, -85.31], 'chesapeake|VA': [36.77, -76.29], 'cheyenne|WY': [41.14, -104.82],
+  'chicago|IL': [41.88, -87.63], 'chula vista|CA': [32.64, -117.08], 'cincinnati|OH': [39.10, -84.51],
+  'cleveland|OH': [41.50, -81.69], 'colorado springs|CO': [38.83, -104.82], 'columbia|SC': [34.00, -81.03],
+  'columbus|GA': [32.46, -84.99], 'columbus|OH': [39.96, -83.00], 'concord|NH': [43.21, -71.54],
+  'corpus christi|TX': [27.80, -97.40], 'dallas|TX': [32.78, -96.80], 'dayton|OH': [39.76, -84.19],
+  'denver|CO': [39.74, -104.99], 'des moines|IA': [41.59, -93.62], 'detroit|MI': [42.33, -83.05],
+  'dover|DE': [39.16, -75.52], 'durham|NC': [35.99, -78.90], 'edison|NJ': [40.52, -74.41],
+  'el paso|TX': [31.76, -106.49], 'eugene|OR': [44.05, -123.09], 'fairbanks|AK': [64.84, -147.72],
+  'fargo|ND': [46.88, -96.79], 'fort lauderdale|FL': [26.12, -80.14], 'fort wayne|IN': [41.08, -85.14],
+  'fort worth|TX': [32.76, -97.33], 'frankfort|KY': [38.20, -84.87], 'fremont|CA': [37.55, -121.99],
+  'fresno|CA': [36.74, -119.79], 'garland|TX': [32.91, -96.64], 'gilbert|AZ': [33.35, -111.79],
+  'glendale|AZ': [33.54, -112.19], 'grand rapids|MI': [42.96, -85.67], 'greensboro|NC': [36.07, -79.79],
+  'harrisburg|PA': [40.27, -76.88], 'hartford|CT': [41.76, -72.67], 'hebron|KY': [39.07, -84.70],
+  'helena|MT': [46.59, -112.04], 'henderson|NV': [36.04, -114.98], 'hialeah|FL': [25.86, -80.28],
+  'hilo|HI': [19.72, -155.09], 'honolulu|HI': [21.31, -157.86], 'houston|TX': [29.76, -95.37],
+  'huntsville|AL': [34.73, -86.59], 'indianapolis|IN': [39.77, -86.16], 'irvine|CA': [33.68, -117.83],
+  'irving|TX': [32.81, -96.95], 'jackson|MS': [32.30, -90.18], 'jacksonville|FL': [30.33, -81.66],
+  'jefferson city|MO': [38.58, -92.17], 'jersey city|NJ': [40.73, -74.08], 'juneau|AK': [58.30, -134.42],
+  'kansas city|KS': [39.11, -94.63], 'kansas city|MO': [39.10, -94.58], 'knoxville|TN': [35.96, -83.92],
+  'lansing|MI': [42.73, -84.56], 'laredo|TX': [27.53, -99.49], 'las vegas|NV': [36.17, -115.14],
+  'lexington|KY': [38.04, -84.50], 'lincoln|NE': [40.81, -96.70], 'little rock|AR': [34.75, -92.29],
+  'long beach|CA': [33.77, -118.19], 'los angeles|CA': [34.05, -118.24], 'louisville|KY': [38.25, -85.76],
+  'lubbock|TX': [33.58, -101.86], 'madison|WI': [43.07, -89.40], 'manchester|NH': [42.99, -71.46],
+  'mcallen|TX': [26.20, -98.23], 'memphis|TN': [35.15, -90.05], 'mesa|AZ': [33.42, -111.83],
+  'miami|FL': [25.76, -80.19], 'milwaukee|WI': [43.04, -87.91], 'minneapolis|MN': [44.98, -93.27],
+  'mobile|AL': [30.69, -88.04], 'modesto|CA': [37.64, -121.00], 'montgomery|AL': [32.38, -86.30],
+  'montpelier|VT': [44.26, -72.58], 'nashville|TN': [36.16, -86.78], 'new haven|CT': [41.31, -72.92],
+  'new orleans|LA': [29.95, -90.07], 'new york|NY': [40.71, -74.01], 'newark|NJ': [40.74, -74.17],
+  'norfolk|VA': [36.85, -76.29], 'north las vegas|NV': [36.20, -115.12], 'oakland|CA': [37.80, -122.27],
+  'ogden|UT': [41.22, -111.97], 'oklahoma city|OK': [35.47, -97.52], 'olympia|WA': [47.04, -122.90],
+  'omaha|NE': [41.26, -95.93], 'ontario|CA': [34.06, -117.65], 'orlando|FL': [28.54, -81.38],
+  'philadelphia|PA': [39.95, -75.17], 'phoenix|AZ': [33.45, -112.07], 'pierre|SD': [44.37, -100.35],
+  'pittsburgh|PA': [40.44, -79.99], 'plano|TX': [33.02, -96.70], 'portland|ME': [43.66, -70.26],
+  'portland|OR': [45.52, -122.68], 'providence|RI': [41.82, -71.41], 'provo|UT': [40.23, -111.66],
+  'raleigh|NC': [35.78, -78.64], 'reno|NV': [39.53, -119.81], 'richmond|VA': [37.54, -77.44],
+  'riverside|CA': [33.98, -117.38], 'rochester|NY': [43.16, -77.61], 'sacramento|CA': [38.58, -121.49],
+  'st louis|MO': [38.63, -90.20], 'st paul|MN': [44.95, -93.09], 'st petersburg|FL': [27.77, -82.64],
+  'salem|OR': [44.94, -123.04], 'salt lake city|UT': [40.76, -111.89], 'san antonio|TX': [29.42, -98.49],
+  'san bernardino|CA': [34.11, -117.29], 'san diego|CA': [32.72, -117.16], 'san francisco|CA': [37.77, -122.42],
+  'san jose|CA': [37.34, -121.89], 'santa ana|CA': [33.75, -117.87], 'santa fe|NM': [35.69, -105.94],
+  'savannah|GA': [32.08, -81.09], 'scottsdale|AZ': [33.49, -111.93], 'seattle|WA': [47.61, -122.33],
+  'secaucus|NJ': [40.79, -74.06], 'shreveport|LA': [32.53, -93.75], 'sioux falls|SD': [43.54, -96.73],
+  'spokane|WA': [47.66, -117.43], 'springfield|IL': [39.78, -89.65], 'springfield|MA': [42.10, -72.59],
+  'springfield|MO': [37.21, -93.29], 'stamford|CT': [41.05, -73.54], 'stockton|CA': [37.96, -121.29],
+  'syracuse|NY': [43.05, -76.15], 'tacoma|WA': [47.25, -122.44], 'tallahassee|FL': [30.44, -84.28],
+  'tampa|FL': [27.95, -82.46], 'toledo|OH': [41.65, -83.54], 'topeka|KS': [39.05, -95.68],
+  'trenton|NJ': [40.22, -74.76], 'tucson|AZ': [32.22, -110.97], 'tulsa|OK': [36.15, -95.99],
+  'virginia beach|VA': [36.85, -75.98], 'washington|DC': [38.91, -77.04], 'wichita|KS': [37.69, -97.34],
+  'wilmington|DE': [39.74, -75.55], 'winston-salem|NC': [36.10, -80.24], 'worcester|MA': [42.26, -71.80],
+  'yonkers|NY': [40.93, -73.90],
+}
@@ -1,10 +1,25 @@
-// AfterShip API Integration
-// Get your API key from: https://accounts.aftership.com/register
-
-const AFTERSHIP_API_KEY = import.meta.env.VITE_AFTERSHIP_API_KEY || '';
-const AFTERSHIP_API_URL = 'https://api.aftership.com/v4';
-
-export interface TrackingInfo {
+// AfterShip live tracking, looked up through the backend so the API key never reaches the browser
+// (set AFTERSHIP_API_KEY for `npm run server`)
+import { authHeaders } from './auth';
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '');
+// Rows sent to the backend per lookup request
+const ENRICH_BATCH_SIZE = 50;
+
+// AfterShip tags (e.g. "InTransit") mapped to the snake_case statuses used by the app
+const TAG_MAP: Record<string, string> = {
+  Pending: 'pending',
+  InfoReceived: 'pending',
+  InTransit: 'in_transit',
+  OutForDelivery: 'out_for_delivery',
+  AvailableForPickup: 'out_for_delivery',
+  AttemptFail: 'exception',
+  Exception: 'exception',
+  Expired: 'exception',
+  Delivered: 'delivered',
+};
+
+export interface AfterShipTracking {
   id: string;
   tracking_number: string;
   slug: string;
@@ -45,90 +60,94 @@ export interface Checkpoint {
   location?: string;
 }
 
-export interface TrackingResponse {
-  tracking: TrackingInfo;
+/**
+ * Convert an AfterShip tag to the status values used throughout the app
+ */
+export function normalizeTag(tag: string): string {
+  return TAG_MAP[tag] || tag.replace(/([a-z])([A-Z])/g, '$1_$2').toLowerCase();
 }
 
-export interface TrackingsResponse {
-  trackings: TrackingInfo[];
-  total: number;
+/**
+ * Minimal shape a row needs to be enriched with live AfterShip data
+ */
+export interface EnrichableTracking {
+  tracking_number: string;
+  slug: string;
+  tag: string;
+  title?: string;
+  reported_status?: string;
+  checkpoint_message?: string;
+  checkpoint_location?: string;
+  checkpoint_date?: string;
+  checkpoints?: Checkpoint[];
 }
 
-class AfterShipService {
-  private apiKey: string;
+const trackingKey = (trackingNumber: string) => trackingNumber.trim().toUpperCase();
 
-  constructor() {
-    this.apiKey = AFTERSHIP_API_KEY;
+const request = async (path: string, options: RequestInit = {}): Promise<any> => {
+  const response = await fetch(`${API_BASE_URL}/api/aftership${path}`, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', ...authHeaders(), ...options.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `AfterShip request failed: ${response.status}`);
   }
+  return response.json();
+};
 
-  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
-    if (!this.apiKey) {
-      throw new Error('AfterShip API key is not configured. Please set VITE_AFTERSHIP_API_KEY in your .env file');
-    }
+class AfterShipService {
+  async getAllTrackings(): Promise<AfterShipTracking[]> {
+    const body = await request('/trackings');
+    return body.trackings || [];
+  }
 
-    const response = await fetch(`${AFTERSHIP_API_URL}${endpoint}`, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'aftership-api-key': this.apiKey,
-        ...options.headers,
-      },
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-      throw new Error(error.meta?.message || error.message || `API error: ${response.status}`);
+  /**
+   * Enrich rows with their live AfterShip tag and checkpoints. The backend registers trackings
+   * AfterShip doesn't know yet for receivers and admins only. Rows that AfterShip can't resolve
+   * are returned unchanged.
+   */
+  async enrichTrackings<T extends EnrichableTracking>(rows: T[]): Promise<T[]> {
+    const enriched: T[] = [];
+
+    for (let i = 0; i < rows.length; i += ENRICH_BATCH_SIZE) {
+      const batch = rows.slice(i, i + ENRICH_BATCH_SIZE);
+      const body = await request('/lookup', {
+        method: 'POST',
+        body: JSON.stringify({
+          trackings: batch.map(row => ({ tracking_number: row.tracking_number, slug: row.slug || undefined, title: row.title })),
+        }),
+      });
+      const live = new Map<string, AfterShipTracking>(
+        (body.trackings || []).map((tracking: AfterShipTracking) => [trackingKey(tracking.tracking_number), tracking])
+      );
+      enriched.push(...batch.map(row => {
+        const tracking = live.get(trackingKey(row.tracking_number));
+        return tracking ? this.mergeLiveTracking(row, tracking) : row;
+      }));
     }
 
-    return response.json();
+    return enriched;
   }
 
-  async createTracking(
-    trackingNumber: string,
-    slug?: string,
-    title?: string
-  ): Promise<TrackingInfo> {
-    const payload: any = {
-      tracking: {
-        tracking_number: trackingNumber,
-      },
+  private mergeLiveTracking<T extends EnrichableTracking>(row: T, live: AfterShipTracking): T {
+    const checkpoints = [...(live.checkpoints || [])].sort(
+      (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+    const latest = checkpoints[0];
+
+    return {
+      ...row,
+      slug: row.slug || live.slug,
+      tag: live.tag ? normalizeTag(live.tag) : row.tag,
+      reported_status: live.tag || row.reported_status,
+      checkpoints,
+      checkpoint_message: latest?.message || row.checkpoint_message,
+      checkpoint_location: latest
+        ? latest.location || [latest.city, latest.state, latest.country_name].filter(Boolean).join(', ')
+        : row.checkpoint_location,
+      checkpoint_date: latest?.created_at || row.checkpoint_date,
     };
-
-    if (slug) payload.tracking.slug = slug;
-    if (title) payload.tracking.title = title;
-
-    const response = await this.request('/trackings', {
-      method: 'POST',
-      body: JSON.stringify(payload),
-    });
-
-    return response.data.tracking;
-  }
-
-  async getAllTrackings(): Promise<TrackingInfo[]> {
-    const response = await this.request('/trackings');
-    return response.data.trackings || [];
-  }
-
-  async getTracking(trackingNumber: string, slug?: string): Promise<TrackingInfo> {
-    const params = slug ? `?slug=${slug}` : '';
-    const response = await this.request(`/trackings/${slug || 'none'}/${trackingNumber}${params}`);
-    return response.data.tracking;
-  }
-
-  async deleteTracking(trackingNumber: string, slug?: string): Promise<void> {
-    const slugParam = slug || 'none';
-    await this.request(`/trackings/${slugParam}/${trackingNumber}`, {
-      method: 'DELETE',
-    });
-  }
-
-  async retrack(trackingNumber: string, slug?: string): Promise<TrackingInfo> {
-    const slugParam = slug || 'none';
-    const response = await this.request(`/trackings/${slugParam}/${trackingNumber}/retrack`, {
-      method: 'POST',
-    });
-    return response.data.tracking;
   }
 }
 
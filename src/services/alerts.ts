@@ -0,0 +1,73 @@
+// Alert rules - sends each load's shipments to the backend, which finds what changed since the
+// previous load and runs the webhook and email rules configured in server/alert-rules.json
+import type { Shipment } from './dataSources/types'
+import { authHeaders } from './auth'
+import { importStore } from './importStore'
+import { getShipmentSite } from './siteService'
+import { getCarrierName } from './carriers'
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '')
+
+// What the rules see for each shipment, and for each change with its type, from/to and summary
+export interface AlertShipment {
+  tracking_number: string
+  order_id?: string
+  po_number?: string
+  supplier?: string
+  carrier: string
+  status: string
+  job?: string
+  eta?: string
+  requested_by?: string
+  risk?: string
+  site: string
+  carrier_name: string
+}
+
+const toAlertShipment = (shipment: Shipment): AlertShipment => ({
+  tracking_number: shipment.tracking_number,
+  order_id: shipment.order_id,
+  po_number: shipment.po_number,
+  supplier: shipment.from_company,
+  carrier: shipment.slug,
+  status: shipment.tag,
+  job: shipment.job_name,
+  eta: shipment.estimated_delivery,
+  requested_by: shipment.requested_by_date,
+  risk: shipment.risk_level,
+  site: getShipmentSite(shipment),
+  carrier_name: getCarrierName(shipment.slug),
+})
+
+// Whether the backend uses the loads - it has rules, or serves the calendar feed. Checked once so
+// loads don't post to a backend that isn't there.
+let loadsWanted: Promise<boolean> | null = null
+
+const backendWantsLoads = (): Promise<boolean> => {
+  if (!loadsWanted) {
+    loadsWanted = fetch(`${API_BASE_URL}/api/alerts/rules`, { cache: 'no-store', headers: authHeaders() })
+      .then(response => (response.ok ? response.json() : { rules: [] }))
+      .then(body => (Array.isArray(body.rules) && body.rules.length > 0) || body.calendarFeed === true)
+      .catch(() => false)
+  }
+  return loadsWanted
+}
+
+/**
+ * Post one load to the alert rules. The shipments are kept by the backend for digests and the calendar feed.
+ * Loads that include files imported in this browser aren't posted, since other browsers don't see them.
+ */
+export async function postLoad(shipments: Shipment[]): Promise<void> {
+  if (!(await backendWantsLoads())) return
+  if ((await importStore.getAllFiles()).length > 0) return
+
+  const response = await fetch(`${API_BASE_URL}/api/alerts/events`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ shipments: shipments.map(toAlertShipment) }),
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || `Alert request failed: ${response.status}`)
+  }
+}
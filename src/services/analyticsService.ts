@@ -0,0 +1,221 @@
+// Built-in analytics computed from the loaded shipments and PO items (no Metabase required)
+import type { Shipment } from './dataSources/types'
+import type { POItem } from './csvService'
+import { getCarrierName } from './carriers'
+import { normalizeTag } from './aftership'
+import { SHIPMENT_STATUSES, ShipmentStatus } from './statusEngine'
+import { parseDate, startOfDay, daysBetween } from '../utils/dates'
+
+export interface ChartDatum {
+  label: string
+  value: number
+  count?: number // Number of shipments/rows behind an averaged or rated value
+}
+
+export interface StatusBucket {
+  label: string
+  start: Date
+  counts: Record<ShipmentStatus, number>
+}
+
+export interface OnTimeSummary {
+  onTime: number
+  total: number
+  rate: number | null // 0-1, null when nothing can be compared
+  bySupplier: ChartDatum[] // value is the on-time rate as a percentage
+}
+
+// Buckets switch from weeks to months once the data spans more than this many weeks
+const MAX_WEEKLY_BUCKETS = 26
+
+const OTHER_LABEL = 'Other'
+
+const sortDescending = (data: ChartDatum[]): ChartDatum[] =>
+  [...data].sort((a, b) => b.value - a.value || a.label.localeCompare(b.label))
+
+// Keep the largest `limit` entries and fold the rest into "Other"
+const limitWithOther = (data: ChartDatum[], limit: number): ChartDatum[] => {
+  const sorted = sortDescending(data)
+  if (sorted.length <= limit) return sorted
+
+  const rest = sorted.slice(limit)
+  return [...sorted.slice(0, limit), { label: OTHER_LABEL, value: rest.reduce((sum, datum) => sum + datum.value, 0) }]
+}
+
+const countBy = (shipments: Shipment[], getKey: (shipment: Shipment) => string): ChartDatum[] => {
+  const counts = new Map<string, number>()
+  shipments.forEach(shipment => {
+    const key = getKey(shipment) || 'Unknown'
+    counts.set(key, (counts.get(key) || 0) + 1)
+  })
+  return Array.from(counts, ([label, value]) => ({ label, value }))
+}
+
+export const getSupplier = (shipment: Shipment) => shipment.from_company?.trim() || 'Unknown'
+
+/**
+ * When a shipment arrived (delivered checkpoint) or is expected to (ETA)
+ */
+const getArrivalDate = (shipment: Shipment): Date | null => {
+  if (shipment.tag === 'delivered') {
+    const delivered = shipment.checkpoints?.find(checkpoint => normalizeTag(checkpoint.tag) === 'delivered')
+    const deliveredAt = parseDate(delivered?.created_at)
+    if (deliveredAt) return deliveredAt
+  }
+  return parseDate(shipment.estimated_delivery)
+}
+
+/**
+ * Days from ship date to ETA, or null when either is missing or out of order
+ */
+export function getLeadTimeDays(shipment: Shipment): number | null {
+  const shipDate = parseDate(shipment.ship_date)
+  const eta = parseDate(shipment.estimated_delivery)
+  if (!shipDate || !eta || eta < shipDate) return null
+  return daysBetween(shipDate, eta)
+}
+
+/**
+ * Whether a shipment arrived (or is expected) on or before its requested-by date;
+ * null when there is nothing to compare
+ */
+export function isOnTime(shipment: Shipment): boolean | null {
+  const requestedBy = parseDate(shipment.requested_by_date)
+  const arrival = getArrivalDate(shipment)
+  if (!requestedBy || !arrival) return null
+  return daysBetween(arrival, requestedBy) >= 0
+}
+
+export function shipmentsByCarrier(shipments: Shipment[]): ChartDatum[] {
+  return sortDescending(countBy(shipments, shipment => shipment.slug ? getCarrierName(shipment.slug) : ''))
+}
+
+export function shipmentsBySupplier(shipments: Shipment[], limit = 10): ChartDatum[] {
+  return limitWithOther(countBy(shipments, getSupplier), limit)
+}
+
+/**
+ * Shipments per week (or month, for longer ranges) by ship date, split by status
+ */
+export function statusOverTime(shipments: Shipment[]): StatusBucket[] {
+  const dated = shipments
+    .map(shipment => ({ shipment, date: parseDate(shipment.ship_date) || parseDate(shipment.last_updated_at) }))
+    .filter((entry): entry is { shipment: Shipment; date: Date } => entry.date !== null)
+  if (dated.length === 0) return []
+
+  const times = dated.map(entry => entry.date.getTime())
+  const spanDays = daysBetween(new Date(Math.min(...times)), new Date(Math.max(...times)))
+  const monthly = spanDays > MAX_WEEKLY_BUCKETS * 7
+
+  const bucketStart = (date: Date): Date => {
+    const start = startOfDay(date)
+    if (monthly) {
+      start.setDate(1)
+    } else {
+      // Weeks start on Monday
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+    }
+    return start
+  }
+
+  const buckets = new Map<number, StatusBucket>()
+  dated.forEach(({ shipment, date }) => {
+    const start = bucketStart(date)
+    let bucket = buckets.get(start.getTime())
+    if (!bucket) {
+      bucket = {
+        label: monthly
+          ? start.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+          : start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        start,
+        counts: Object.fromEntries(SHIPMENT_STATUSES.map(status => [status, 0])) as Record<ShipmentStatus, number>,
+      }
+      buckets.set(start.getTime(), bucket)
+    }
+    const status = SHIPMENT_STATUSES.find(candidate => candidate === shipment.tag) || 'pending'
+    bucket.counts[status]++
+  })
+
+  return Array.from(buckets.values()).sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Average days from ship date to ETA per supplier
+ */
+export function leadTimeBySupplier(shipments: Shipment[]): ChartDatum[] {
+  const totals = new Map<string, { days: number; count: number }>()
+  shipments.forEach(shipment => {
+    const leadTime = getLeadTimeDays(shipment)
+    if (leadTime === null) return
+
+    const supplier = getSupplier(shipment)
+    const total = totals.get(supplier) || { days: 0, count: 0 }
+    total.days += leadTime
+    total.count++
+    totals.set(supplier, total)
+  })
+
+  return sortDescending(Array.from(totals, ([label, { days, count }]) => ({
+    label,
+    value: Math.round((days / count) * 10) / 10,
+    count,
+  })))
+}
+
+/**
+ * Share of shipments delivered (or expected) on or before their requested-by date
+ */
+export function onTimeRate(shipments: Shipment[]): OnTimeSummary {
+  let onTimeCount = 0
+  let total = 0
+  const suppliers = new Map<string, { onTime: number; total: number }>()
+
+  shipments.forEach(shipment => {
+    const onTime = isOnTime(shipment)
+    if (onTime === null) return
+
+    const supplier = suppliers.get(getSupplier(shipment)) || { onTime: 0, total: 0 }
+    supplier.total++
+    total++
+    if (onTime) {
+      supplier.onTime++
+      onTimeCount++
+    }
+    suppliers.set(getSupplier(shipment), supplier)
+  })
+
+  return {
+    onTime: onTimeCount,
+    total,
+    rate: total > 0 ? onTimeCount / total : null,
+    bySupplier: sortDescending(Array.from(suppliers, ([label, supplier]) => ({
+      label,
+      value: Math.round((supplier.onTime / supplier.total) * 100),
+      count: supplier.total,
+    }))),
+  }
+}
+
+/**
+ * Most-ordered items by total quantity across all POs
+ */
+export function topItems(poItemsMap: Map<string, POItem[]>, limit = 10): ChartDatum[] {
+  const totals = new Map<string, { label: string; quantity: number; count: number }>()
+  poItemsMap.forEach(items => items.forEach(item => {
+    const key = (item.part_number || item.item_name).trim()
+    if (!key) return
+
+    const quantity = Number(item.quantity) || 0
+    const total = totals.get(key) || {
+      label: item.part_number && item.item_name ? `${item.part_number} - ${item.item_name}` : key,
+      quantity: 0,
+      count: 0,
+    }
+    total.quantity += quantity
+    total.count++
+    totals.set(key, total)
+  }))
+
+  return sortDescending(Array.from(totals.values(), ({ label, quantity, count }) => ({ label, value: quantity, count })))
+    .slice(0, limit)
+}
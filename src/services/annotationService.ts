@@ -0,0 +1,61 @@
+// Notes, tags and manual status overrides, re-applied to every load by tracking number
+import type { Shipment } from './dataSources/types'
+import type { Annotation } from './annotationStore'
+import { applyRisk } from './riskService'
+import { getStatusLabel } from '../utils/format'
+
+export type AnnotationMap = Map<string, Annotation>
+
+const normalizeKey = (trackingNumber: string) => trackingNumber.trim().toUpperCase()
+
+export function buildAnnotationMap(annotations: Annotation[]): AnnotationMap {
+  return new Map(annotations.map(annotation => [normalizeKey(annotation.tracking_number), annotation]))
+}
+
+export function getAnnotation(annotations: AnnotationMap, trackingNumber: string): Annotation {
+  return annotations.get(normalizeKey(trackingNumber)) || { tracking_number: trackingNumber, notes: [], tags: [], updated_at: '' }
+}
+
+/**
+ * Tags are compared case-insensitively and stored trimmed and lowercase
+ */
+export function normalizeTagName(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * Every tag in use, most used first, for suggestions
+ */
+export function getKnownTags(annotations: Annotation[]): string[] {
+  const counts = new Map<string, number>()
+  annotations.forEach(annotation => annotation.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)))
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag)
+}
+
+/**
+ * Copy the annotation onto the shipment. A manual status override wins over every
+ * automatic rule, including receipts, and keeps the decided status for reference.
+ */
+export function applyAnnotation(shipment: Shipment, annotations: AnnotationMap): Shipment {
+  const annotation = annotations.get(normalizeKey(shipment.tracking_number))
+  if (!annotation) return shipment
+
+  const annotated: Shipment = {
+    ...shipment,
+    tags: annotation.tags,
+    notes: annotation.notes,
+  }
+
+  const override = annotation.status_override
+  if (!override || override.status === shipment.tag) {
+    return annotated
+  }
+
+  return applyRisk({
+    ...annotated,
+    tag: override.status,
+    status_rule: 'manual_override',
+    status_reason: `Manually set to ${getStatusLabel(override.status)} (was ${getStatusLabel(shipment.tag)}): ${override.reason}`,
+    status_override: override,
+  })
+}
@@ -0,0 +1,48 @@
+// Browser storage (IndexedDB) for notes, tags and status overrides added in the Order Details modal
+import { runInStore } from './db'
+import type { ShipmentStatus } from './statusEngine'
+
+const ANNOTATIONS_STORE = 'annotations'
+
+export interface AnnotationNote {
+  id: string
+  text: string
+  created_at: string // ISO timestamp
+}
+
+export interface StatusOverride {
+  status: ShipmentStatus
+  reason: string
+  set_at: string // ISO timestamp
+}
+
+export interface Annotation {
+  tracking_number: string // Annotations are kept apart from the CSV and matched back by tracking number
+  notes: AnnotationNote[]
+  tags: string[]
+  status_override?: StatusOverride
+  updated_at: string
+}
+
+class AnnotationStore {
+  async getAnnotations(): Promise<Annotation[]> {
+    try {
+      return await runInStore<Annotation[]>(ANNOTATIONS_STORE, 'readonly', store => store.getAll())
+    } catch (error: any) {
+      console.warn('Failed to read annotations:', error.message)
+      return []
+    }
+  }
+
+  /**
+   * Save an annotation, or remove it once it has no notes, tags or override left
+   */
+  async saveAnnotation(annotation: Annotation): Promise<void> {
+    const isEmpty = annotation.notes.length === 0 && annotation.tags.length === 0 && !annotation.status_override
+    await runInStore(ANNOTATIONS_STORE, 'readwrite', store =>
+      isEmpty ? store.delete(annotation.tracking_number) : store.put({ ...annotation, updated_at: new Date().toISOString() })
+    )
+  }
+}
+
+export const annotationStore = new AnnotationStore()
@@ -0,0 +1,295 @@
+// Sign-in with any OpenID Connect provider (authorization code flow with PKCE) and role-based access.
+// Without VITE_OIDC_ISSUER, sign-in is off and everyone is an admin.
+// Compared with the ID token's iss exactly as configured, so keep any trailing slash the provider uses
+const ISSUER = (import.meta.env.VITE_OIDC_ISSUER || '').trim()
+const CLIENT_ID = import.meta.env.VITE_OIDC_CLIENT_ID || ''
+const SCOPE = import.meta.env.VITE_OIDC_SCOPE || 'openid profile email'
+const ROLES_CLAIM = import.meta.env.VITE_OIDC_ROLES_CLAIM || 'roles'
+// Provider role or group names -> app roles, e.g. "tracker-admins=admin,warehouse=receiver"
+const ROLE_MAP = import.meta.env.VITE_OIDC_ROLE_MAP || ''
+// Claim listing the sites a user may see; users without it see every site
+const SITES_CLAIM = import.meta.env.VITE_OIDC_SITES_CLAIM || 'sites'
+
+export const CALLBACK_PATH = '/auth/callback'
+
+const SESSION_KEY = 'order-tracker.session'
+const PENDING_KEY = 'order-tracker.pending-login'
+
+export type Role = 'viewer' | 'receiver' | 'admin'
+export type Permission = 'view' | 'receive' | 'annotate' | 'import' | 'configure'
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  receiver: 'Receiver',
+  admin: 'Admin',
+}
+
+// Each role has the permissions of the roles before it
+const ROLE_ORDER: Role[] = ['viewer', 'receiver', 'admin']
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['view'],
+  receiver: ['view', 'receive', 'annotate'],
+  admin: ['view', 'receive', 'annotate', 'import', 'configure'],
+}
+
+// Pages that need more than 'view'
+const PAGE_PERMISSIONS: Record<string, Permission> = {
+  'import': 'import',
+}
+
+export interface AuthUser {
+  name: string
+  email?: string
+  role: Role
+  sites?: string[] // Sites (recipient names) the user is limited to; unset means all
+}
+
+export interface AuthSession {
+  user: AuthUser
+  accessToken: string
+  idToken: string
+  expiresAt: number // Epoch milliseconds
+}
+
+interface PendingLogin {
+  state: string
+  nonce: string
+  verifier: string
+  returnTo: string
+}
+
+interface ProviderMetadata {
+  authorization_endpoint: string
+  token_endpoint: string
+  end_session_endpoint?: string
+}
+
+export const authEnabled = (): boolean => !!ISSUER
+
+// Used when sign-in is off, so the app behaves as it did before roles existed
+export const LOCAL_USER: AuthUser = { name: 'Local user', role: 'admin' }
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function canAccessPage(role: Role, page: string): boolean {
+  const permission = PAGE_PERMISSIONS[page]
+  return !permission || hasPermission(role, permission)
+}
+
+/**
+ * Pick the highest app role named in the token's roles claim. Signed-in users without one are viewers.
+ */
+export function resolveRole(claims: Record<string, any>): Role {
+  const value = claims[ROLES_CLAIM]
+  const names: string[] = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[\s,]+/) : []
+
+  const mapping = new Map<string, string>()
+  ROLE_MAP.split(',').map((pair: string) => pair.split('=').map(part => part.trim())).forEach(([from, to]: string[]) => {
+    if (from && to) mapping.set(from.toLowerCase(), to.toLowerCase())
+  })
+
+  const roles = names
+    .map(name => mapping.get(name.toLowerCase()) || name.toLowerCase())
+    .filter((name): name is Role => ROLE_ORDER.includes(name as Role))
+  return roles.reduce<Role>((best, role) => (ROLE_ORDER.indexOf(role) > ROLE_ORDER.indexOf(best) ? role : best), 'viewer')
+}
+
+/**
+ * The sites named in the token's sites claim, or undefined when the user isn't limited to any.
+ * Site names can contain commas, so a single-string claim separates them with semicolons.
+ */
+export function resolveSites(claims: Record<string, any>): string[] | undefined {
+  const value = claims[SITES_CLAIM]
+  const names: string[] = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(';') : []
+  const sites = names.map(name => name.trim()).filter(Boolean)
+  return sites.length > 0 ? sites : undefined
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const randomString = () => base64Url(crypto.getRandomValues(new Uint8Array(32)))
+
+const decodeJwt = (token: string): Record<string, any> => {
+  const payload = token.split('.')[1] || ''
+  const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+  return JSON.parse(decodeURIComponent(Array.from(json, ch => `%${ch.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')))
+}
+
+// Access tokens may be opaque; only JWTs carry claims
+const decodeJwtSafe = (token?: string): Record<string, any> => {
+  try {
+    return token ? decodeJwt(token) : {}
+  } catch {
+    return {}
+  }
+}
+
+const redirectUri = () => `${window.location.origin}${CALLBACK_PATH}`
+
+let metadata: Promise<ProviderMetadata> | null = null
+
+const getMetadata = (): Promise<ProviderMetadata> => {
+  if (!metadata) {
+    metadata = fetch(`${ISSUER.replace(/\/$/, '')}/.well-known/openid-configuration`)
+      .then(response => {
+        if (!response.ok) throw new Error(`Sign-in provider discovery failed: ${response.status}`)
+        return response.json()
+      })
+      .catch(error => {
+        metadata = null
+        throw error
+      })
+  }
+  return metadata
+}
+
+/**
+ * The signed-in session, or null when there is none or it has expired
+ */
+export function getSession(): AuthSession | null {
+  try {
+    const session: AuthSession | null = JSON.parse(sessionStorage.getItem(SESSION_KEY) || 'null')
+    return session && session.expiresAt > Date.now() ? session : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Send the browser to the provider's sign-in page. Returns to the current URL afterwards.
+ */
+export async function login(): Promise<void> {
+  const { authorization_endpoint } = await getMetadata()
+  const pending: PendingLogin = {
+    state: randomString(),
+    nonce: randomString(),
+    verifier: randomString(),
+    returnTo: window.location.pathname === CALLBACK_PATH ? '/' : window.location.pathname + window.location.search,
+  }
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending))
+
+  const challenge = base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pending.verifier))))
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: CLIENT_ID,
+    redirect_uri: redirectUri(),
+    scope: SCOPE,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  })
+  window.location.assign(`${authorization_endpoint}?${params}`)
+}
+
+let completion: Promise<string> | null = null
+
+/**
+ * Finish sign-in on the callback URL: exchange the code for tokens and store the session.
+ * Returns the URL the user started from. The code can only be used once, so repeated calls
+ * (e.g. React StrictMode running effects twice) share the first exchange.
+ */
+export function completeLogin(search: string): Promise<string> {
+  if (!completion) {
+    completion = exchangeCode(search)
+  }
+  return completion
+}
+
+async function exchangeCode(search: string): Promise<string> {
+  const params = new URLSearchParams(search)
+  const pending: PendingLogin | null = JSON.parse(sessionStorage.getItem(PENDING_KEY) || 'null')
+  sessionStorage.removeItem(PENDING_KEY)
+
+  if (params.get('error')) {
+    throw new Error(params.get('error_description') || params.get('error')!)
+  }
+  if (!pending || params.get('state') !== pending.state) {
+    throw new Error('Sign-in response did not match the request. Please sign in again.')
+  }
+
+  const { token_endpoint } = await getMetadata()
+  const response = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code') || '',
+      redirect_uri: redirectUri(),
+      client_id: CLIENT_ID,
+      code_verifier: pending.verifier,
+    }),
+  })
+  const tokens = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(tokens.error_description || tokens.error || `Token request failed: ${response.status}`)
+  }
+
+  // The tokens come straight from the provider over TLS; the backend verifies signatures on API calls
+  const claims = decodeJwt(tokens.id_token)
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== ISSUER || !audience.includes(CLIENT_ID) || claims.nonce !== pending.nonce) {
+    throw new Error('Sign-in token was not issued for this app')
+  }
+
+  // Role and sites come from the access token, the one the backend checks, so the app offers what the API allows
+  const accessClaims = decodeJwtSafe(tokens.access_token)
+  const session: AuthSession = {
+    user: {
+      name: claims.name || claims.preferred_username || claims.email || claims.sub,
+      email: claims.email,
+      role: resolveRole(accessClaims),
+      sites: resolveSites(accessClaims),
+    },
+    accessToken: tokens.access_token,
+    idToken: tokens.id_token,
+    expiresAt: Date.now() + Number(tokens.expires_in || 3600) * 1000,
+  }
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify(session))
+  return pending.returnTo
+}
+
+/**
+ * Clear the session and sign out at the provider when it supports it
+ */
+export async function logout(): Promise<void> {
+  const session = getSession()
+  sessionStorage.removeItem(SESSION_KEY)
+
+  const { end_session_endpoint } = await getMetadata().catch(() => ({} as Partial<ProviderMetadata>))
+  if (!end_session_endpoint) {
+    window.location.assign('/')
+    return
+  }
+  const params = new URLSearchParams({ client_id: CLIENT_ID, post_logout_redirect_uri: window.location.origin })
+  if (session) params.set('id_token_hint', session.idToken)
+  window.location.assign(`${end_session_endpoint}?${params}`)
+}
+
+// Web Workers have no sessionStorage, so the page hands them the access token instead
+let workerAccessToken: string | null = null
+
+export function setWorkerAccessToken(token: string | null): void {
+  workerAccessToken = token
+}
+
+/**
+ * The sites the signed-in user is limited to, or undefined when they see every site.
+ * Workers read them from the access token they were handed.
+ */
+export function currentSites(): string[] | undefined {
+  const session = getSession()
+  return session ? session.user.sites : resolveSites(decodeJwtSafe(workerAccessToken || undefined))
+}
+
+/**
+ * Authorization header for backend requests
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getSession()?.accessToken || workerAccessToken
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
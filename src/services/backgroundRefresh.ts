@@ -0,0 +1,85 @@
+// Scheduled background refresh - reloads the shipments in a Web Worker on an interval
+import type { Shipment } from './dataSources/types'
+import type { NotificationEvent } from './notificationService'
+import { getSession } from './auth'
+
+export interface RefreshSettings {
+  intervalMinutes: number // 0 turns auto-refresh off
+  notifyEvents: NotificationEvent[]
+}
+
+// Messages between the page and src/workers/refreshWorker.ts
+export type RefreshWorkerRequest =
+  | { type: 'start'; intervalMinutes: number; accessToken: string | null }
+  | { type: 'stop' }
+
+export type RefreshWorkerResponse =
+  | { type: 'loaded'; shipments: Shipment[]; loadedAt: string }
+  | { type: 'error'; message: string }
+
+export const REFRESH_INTERVALS = [0, 5, 15, 30, 60]
+
+const SETTINGS_KEY = 'order-tracker.refresh-settings'
+
+const intervalSetting = Number(import.meta.env.VITE_AUTO_REFRESH_MINUTES)
+const DEFAULT_SETTINGS: RefreshSettings = {
+  intervalMinutes: intervalSetting > 0 ? intervalSetting : 0,
+  notifyEvents: [],
+}
+
+export function getRefreshSettings(): RefreshSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY)
+    return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveRefreshSettings(settings: RefreshSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+interface RefreshHandlers {
+  onLoaded: (shipments: Shipment[], loadedAt: string) => void
+  onError: (message: string) => void
+}
+
+/**
+ * Runs the loads in a worker so the timer isn't throttled like page timers in a background tab,
+ * and parsing large CSVs doesn't block the UI
+ */
+class BackgroundRefresh {
+  private worker: Worker | null = null
+
+  start(intervalMinutes: number, handlers: RefreshHandlers): void {
+    this.stop()
+    if (intervalMinutes <= 0 || typeof Worker === 'undefined') return
+
+    this.worker = new Worker(new URL('../workers/refreshWorker.ts', import.meta.url), { type: 'module' })
+    this.worker.onmessage = (event: MessageEvent<RefreshWorkerResponse>) => {
+      const message = event.data
+      if (message.type === 'loaded') {
+        handlers.onLoaded(message.shipments, message.loadedAt)
+      } else {
+        handlers.onError(message.message)
+      }
+    }
+    this.worker.onerror = (event) => handlers.onError(event.message || 'Background refresh failed')
+    // The worker's data loads call the backend as the signed-in user
+    this.post({ type: 'start', intervalMinutes, accessToken: getSession()?.accessToken || null })
+  }
+
+  stop(): void {
+    if (!this.worker) return
+    this.post({ type: 'stop' })
+    this.worker.terminate()
+    this.worker = null
+  }
+
+  private post(message: RefreshWorkerRequest): void {
+    this.worker?.postMessage(message)
+  }
+}
+
+export const backgroundRefresh = new BackgroundRefresh()
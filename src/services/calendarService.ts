@@ -0,0 +1,176 @@
+// Delivery calendar - shipments placed on their estimated delivery date, with the jobs' requested-by
+// dates alongside, and the same calendar as an iCalendar (.ics) file
+import type { Shipment } from './dataSources/types'
+import { authHeaders } from './auth'
+import { getCarrierName } from './carriers'
+import { getShipmentSite } from './siteService'
+import { daysBetween, parseDate, startOfDay } from '../utils/dates'
+import { downloadFile } from '../utils/download'
+import { getStatusLabel } from '../utils/format'
+import { allDayEvent, buildCalendarText, calendarStamp } from '../../shared/ical.js'
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '')
+
+export type CalendarView = 'month' | 'week'
+
+export interface RequestedByGroup {
+  job: string // Job name, or the PO when the shipment has no job
+  shipments: Shipment[]
+}
+
+export interface CalendarDay {
+  key: string // YYYY-MM-DD
+  arrivals: Shipment[] // Shipments with their ETA on this day
+  requested: RequestedByGroup[] // Jobs that need their shipments by this day
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Local calendar date as YYYY-MM-DD, the form used for day keys and in /calendar/:day links
+ */
+export const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date)
+  next.setDate(next.getDate() + days)
+  return next
+}
+
+const requestedByJob = (shipment: Shipment) =>
+  shipment.job_name || (shipment.po_number ? `PO ${shipment.po_number}` : shipment.tracking_number)
+
+/**
+ * Shipments grouped by ETA day, with requested-by dates grouped by job on their own day
+ */
+export function buildCalendarDays(trackings: Shipment[]): Map<string, CalendarDay> {
+  const days = new Map<string, CalendarDay>()
+  const dayFor = (date: Date) => {
+    const key = toDayKey(date)
+    let day = days.get(key)
+    if (!day) {
+      day = { key, arrivals: [], requested: [] }
+      days.set(key, day)
+    }
+    return day
+  }
+
+  trackings.forEach(shipment => {
+    const eta = parseDate(shipment.estimated_delivery)
+    if (eta) dayFor(eta).arrivals.push(shipment)
+
+    const requestedBy = parseDate(shipment.requested_by_date)
+    if (requestedBy) {
+      const day = dayFor(requestedBy)
+      const job = requestedByJob(shipment)
+      const group = day.requested.find(entry => entry.job === job)
+      if (group) {
+        group.shipments.push(shipment)
+      } else {
+        day.requested.push({ job, shipments: [shipment] })
+      }
+    }
+  })
+
+  return days
+}
+
+/**
+ * Arrivals per carrier, busiest first
+ */
+export function countByCarrier(shipments: Shipment[]): { carrier: string; count: number }[] {
+  const counts = new Map<string, number>()
+  shipments.forEach(shipment => {
+    const carrier = getCarrierName(shipment.slug)
+    counts.set(carrier, (counts.get(carrier) || 0) + 1)
+  })
+  return [...counts].map(([carrier, count]) => ({ carrier, count })).sort((a, b) => b.count - a.count)
+}
+
+/**
+ * The days shown for the view around `anchor`: whole weeks (Sunday first) covering its month,
+ * or the week it falls in
+ */
+export function getVisibleDays(anchor: Date, view: CalendarView): Date[] {
+  const start = view === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : startOfDay(anchor)
+  const end = view === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0) : start
+  const first = addDays(start, -start.getDay())
+  const last = addDays(end, 6 - end.getDay())
+  return Array.from({ length: daysBetween(first, last) + 1 }, (_, index) => addDays(first, index))
+}
+
+/**
+ * Move the anchor by one month or week
+ */
+export function shiftAnchor(anchor: Date, view: CalendarView, step: number): Date {
+  return view === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + step, 1)
+    : addDays(anchor, step * 7)
+}
+
+/**
+ * An iCalendar file with an all-day event per shipment on its ETA and one per job on its
+ * requested-by date. UIDs are stable, so re-importing updates the events instead of duplicating them.
+ */
+export function buildICalendar(trackings: Shipment[]): string {
+  const stamp = calendarStamp()
+  const events: string[][] = []
+
+  buildCalendarDays(trackings).forEach(day => {
+    const date = parseDate(day.key)!
+    day.arrivals.forEach(shipment => {
+      events.push(allDayEvent(
+        `eta-${shipment.tracking_number}@order-tracker`,
+        date,
+        `📦 ${getCarrierName(shipment.slug)} ${shipment.po_number ? `PO ${shipment.po_number}` : shipment.tracking_number}${shipment.from_company ? ` - ${shipment.from_company}` : ''}`,
+        [
+          `Tracking: ${shipment.tracking_number}`,
+          `Status: ${getStatusLabel(shipment.tag)}`,
+          `Site: ${getShipmentSite(shipment)}`,
+          shipment.job_name ? `Job: ${shipment.job_name}` : '',
+        ],
+        stamp,
+      ))
+    })
+    day.requested.forEach(group => {
+      events.push(allDayEvent(
+        `requested-${day.key}-${group.job.replace(/[^A-Za-z0-9-]+/g, '_')}@order-tracker`,
+        date,
+        `🎯 Needed by: ${group.job}`,
+        group.shipments.map(shipment => `${shipment.tracking_number} - ${getStatusLabel(shipment.tag)}`),
+        stamp,
+      ))
+    })
+  })
+
+  return buildCalendarText(events)
+}
+
+export function exportICalendar(trackings: Shipment[], baseName: string): void {
+  downloadFile(buildICalendar(trackings), `${baseName}-${new Date().toISOString().slice(0, 10)}.ics`, 'text/calendar;charset=utf-8')
+}
+
+const requestFeedUrl = async (path: string, method: 'GET' | 'POST'): Promise<string> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, { method, cache: 'no-store', headers: authHeaders() })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Calendar feed request failed: ${response.status}`)
+  }
+  return new URL(`${API_BASE_URL}${body.path}`, window.location.origin).href
+}
+
+/**
+ * The signed-in user's calendar subscription URL. The backend signs a token into it that keeps the
+ * feed to the user's sites, so it works in calendar clients that can't sign in.
+ */
+export function fetchCalendarFeedUrl(): Promise<string> {
+  return requestFeedUrl('/api/calendar/feed-url', 'GET')
+}
+
+/**
+ * Stop every calendar feed URL the user was given so far, e.g. one that was shared, and get a new one
+ */
+export function renewCalendarFeedUrl(): Promise<string> {
+  return requestFeedUrl('/api/calendar/revoke', 'POST')
+}
@@ -0,0 +1,216 @@
+// Carrier registry - tracking-number recognition and per-carrier tracking URLs
+// To add a carrier, add an entry to CARRIERS below.
+import type { Shipment } from './dataSources/types'
+
+export type DetectionConfidence = 'high' | 'medium'
+
+export interface CarrierDefinition {
+  slug: string
+  name: string
+  aliases: string[] // Lowercase names seen in CSV exports
+  patterns: RegExp[]
+  checkDigit?: (trackingNumber: string) => boolean
+  trackingUrl: (encodedTracking: string) => string
+}
+
+export interface CarrierDetection {
+  slug: string
+  confidence: DetectionConfidence // 'high' when the check digit validates
+  candidates: string[] // Every carrier whose format matches (some formats are shared)
+}
+
+const digitsOf = (value: string) => value.split('').map(Number)
+
+// Mod 10 with alternating 3/1 weights from the right (USPS IMpb, FedEx Ground SSCC)
+const mod10Weighted = (trackingNumber: string): boolean => {
+  const digits = digitsOf(trackingNumber)
+  const check = digits.pop()!
+  const sum = digits.reverse().reduce((acc, digit, i) => acc + digit * (i % 2 === 0 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === check
+}
+
+// UPS 1Z numbers: letters map to digits, odd positions count once and even positions twice
+const upsCheckDigit = (trackingNumber: string): boolean => {
+  if (trackingNumber.length !== 18) return false
+  const body = trackingNumber.slice(2, 17).split('').map(ch =>
+    /\d/.test(ch) ? Number(ch) : (ch.charCodeAt(0) - 63) % 10
+  )
+  const sum = body.reduce((acc, value, i) => acc + (i % 2 === 0 ? value : value * 2), 0)
+  return (10 - (sum % 10)) % 10 === Number(trackingNumber[17])
+}
+
+// FedEx Express 12-digit numbers: weights 1, 3, 7 from the right, mod 11
+const fedexCheckDigit = (trackingNumber: string): boolean => {
+  if (trackingNumber.length === 12) {
+    const weights = [1, 3, 7]
+    const digits = digitsOf(trackingNumber)
+    const check = digits.pop()!
+    const sum = digits.reverse().reduce((acc, digit, i) => acc + digit * weights[i % 3], 0)
+    return (sum % 11) % 10 === check
+  }
+  return mod10Weighted(trackingNumber)
+}
+
+// DHL Express 10-digit waybills: first nine digits mod 7
+const dhlCheckDigit = (trackingNumber: string): boolean => {
+  if (!/^\d{10}$/.test(trackingNumber)) return false
+  return Number(trackingNumber.slice(0, 9)) % 7 === Number(trackingNumber[9])
+}
+
+const CARRIERS: CarrierDefinition[] = [
+  {
+    slug: 'ups',
+    name: 'UPS',
+    aliases: ['ups', 'united parcel service'],
+    patterns: [/^1Z[0-9A-Z]{14,17}$/, /^T\d{10}$/],
+    checkDigit: upsCheckDigit,
+    trackingUrl: tracking => `https://www.ups.com/track?tracknum=${tracking}`,
+  },
+  {
+    slug: 'amazon',
+    name: 'Amazon Logistics',
+    aliases: ['amazon', 'amazon logistics', 'amzl'],
+    patterns: [/^TBA\d{12}$/],
+    trackingUrl: tracking => `https://www.amazon.com/progress-tracker/package/${tracking}`,
+  },
+  {
+    slug: 'ontrac',
+    name: 'OnTrac',
+    aliases: ['ontrac'],
+    patterns: [/^[CD]\d{14}$/],
+    trackingUrl: tracking => `https://www.ontrac.com/tracking-results?tracking_number=${tracking}`,
+  },
+  {
+    slug: 'lasership',
+    name: 'LaserShip',
+    aliases: ['lasership', 'laser ship'],
+    patterns: [/^L[A-Z]\d{8}$/, /^1LS\d{12,15}$/],
+    trackingUrl: tracking => `https://lasership.com/track/${tracking}`,
+  },
+  {
+    slug: 'usps',
+    name: 'USPS',
+    aliases: ['usps', 'us postal service', 'united states postal service'],
+    patterns: [/^9[1-5]\d{18,20}$/, /^[A-Z]{2}\d{9}US$/],
+    checkDigit: tracking => /^\d+$/.test(tracking) && mod10Weighted(tracking),
+    trackingUrl: tracking => `https://tools.usps.com/go/TrackConfirmAction?qtc_tLabels1=${tracking}`,
+  },
+  {
+    slug: 'fedex',
+    name: 'FedEx',
+    aliases: ['fedex', 'fedex express', 'fedex ground', 'federal express'],
+    patterns: [/^\d{12}$/, /^\d{15}$/, /^96\d{20}$/],
+    checkDigit: fedexCheckDigit,
+    trackingUrl: tracking => `https://www.fedex.com/fedextrack/?trknbr=${tracking}`,
+  },
+  {
+    slug: 'dhl',
+    name: 'DHL',
+    aliases: ['dhl', 'dhl express', 'dhl ecommerce'],
+    // Includes UPU S10 numbers (e.g. JD123456789US) used by DHL eCommerce
+    patterns: [/^\d{10}$/, /^JJD\d{18}$/, /^JD\d{18}$/, /^GM\d{16,18}$/, /^[A-Z]{2}\d{9}[A-Z]{2}$/],
+    checkDigit: dhlCheckDigit,
+    trackingUrl: tracking => `https://www.dhl.com/en/express/tracking.html?AWB=${tracking}`,
+  },
+]
+
+const normalizeTrackingNumber = (trackingNumber: string) => trackingNumber.replace(/[\s-]/g, '').toUpperCase()
+
+export function getCarriers(): CarrierDefinition[] {
+  return CARRIERS
+}
+
+/**
+ * Find a carrier by slug or any alias (case-insensitive)
+ */
+export function findCarrier(nameOrSlug?: string): CarrierDefinition | null {
+  if (!nameOrSlug) return null
+  const key = nameOrSlug.trim().toLowerCase()
+  return CARRIERS.find(c => c.slug === key || c.aliases.includes(key)) || null
+}
+
+export function getCarrierName(nameOrSlug?: string): string {
+  return findCarrier(nameOrSlug)?.name || (nameOrSlug ? nameOrSlug.toUpperCase() : 'N/A')
+}
+
+/**
+ * Detect the carrier from the tracking number's format and check digit
+ */
+export function detectCarrier(trackingNumber?: string): CarrierDetection | null {
+  if (!trackingNumber) return null
+  const normalized = normalizeTrackingNumber(trackingNumber)
+
+  const matches = CARRIERS.filter(c => c.patterns.some(pattern => pattern.test(normalized)))
+  if (matches.length === 0) return null
+
+  const candidates = matches.map(c => c.slug)
+
+  // Prefer a carrier whose check digit validates
+  const validated = matches.find(c => c.checkDigit?.(normalized))
+  if (validated) return { slug: validated.slug, confidence: 'high', candidates }
+
+  return { slug: matches[0].slug, confidence: 'medium', candidates }
+}
+
+/**
+ * Carrier tracking page for a shipment, or a web search when the carrier is unknown
+ */
+export function getTrackingUrl(trackingNumber: string, carrier: string): string | null {
+  if (!trackingNumber) return null
+
+  const encodedTracking = encodeURIComponent(trackingNumber)
+  const definition = findCarrier(carrier) || findCarrier(detectCarrier(trackingNumber)?.slug)
+  if (definition) {
+    return definition.trackingUrl(encodedTracking)
+  }
+
+  // Try generic tracking search
+  return `https://www.google.com/search?q=${encodedTracking}+tracking`
+}
+
+export interface CarrierResolution {
+  slug: string
+  reportedCarrier?: string // Carrier as given by the source
+  detectedCarrier?: string // Carrier recognized from the tracking number
+  mismatch: boolean
+}
+
+/**
+ * Reconcile the carrier given by the source with the one detected from the tracking number.
+ * Missing carriers are filled in; a conflicting carrier is corrected only when the
+ * check digit validates, and flagged either way.
+ */
+export function resolveCarrier(reportedCarrier: string | undefined, trackingNumber: string): CarrierResolution {
+  const reported = findCarrier(reportedCarrier)
+  const detection = detectCarrier(trackingNumber)
+
+  if (!detection) {
+    return { slug: reported?.slug || (reportedCarrier || '').trim().toLowerCase(), reportedCarrier, mismatch: false }
+  }
+
+  if (!reportedCarrier || !reportedCarrier.trim()) {
+    return { slug: detection.slug, detectedCarrier: detection.slug, mismatch: false }
+  }
+
+  // A format shared by several carriers only conflicts when the reported carrier isn't one of them
+  const mismatch = !reported || !detection.candidates.includes(reported.slug)
+  const slug = mismatch && detection.confidence === 'high'
+    ? detection.slug
+    : reported?.slug || reportedCarrier.trim().toLowerCase()
+
+  return { slug, reportedCarrier, detectedCarrier: detection.slug, mismatch }
+}
+
+/**
+ * Return a copy of the shipment with its carrier filled in or corrected from the tracking number
+ */
+export function applyCarrier(shipment: Shipment): Shipment {
+  const resolution = resolveCarrier(shipment.slug, shipment.tracking_number)
+  return {
+    ...shipment,
+    slug: resolution.slug,
+    carrier_reported: resolution.reportedCarrier,
+    carrier_detected: resolution.detectedCarrier,
+    carrier_mismatch: resolution.mismatch,
+  }
+}
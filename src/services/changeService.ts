@@ -0,0 +1,95 @@
+// Change detection - diffs consecutive snapshots of the loaded shipments. The diff itself is
+// shared with the backend's alert rules (shared/changes.js).
+import type { Shipment } from './dataSources/types'
+import { describeChange as describeSnapshotChange, diffSnapshots, normalizeKey } from '../../shared/changes.js'
+import type { ChangeType, ShipmentChange, SnapshotEntry } from '../../shared/changes.js'
+import { getCarrierName } from './carriers'
+
+export { diffSnapshots }
+export type { ChangeType, ShipmentChange, SnapshotEntry }
+
+export interface Snapshot {
+  id: string // ISO timestamp of the load, so snapshots sort by id
+  taken_at: string
+  shipments: SnapshotEntry[]
+}
+
+export interface ChangeSet {
+  id: string // Id of the snapshot the changes were found in
+  detected_at: string
+  previous_at: string
+  changes: ShipmentChange[]
+}
+
+export const CHANGE_LABELS: Record<ChangeType, string> = {
+  added: 'New',
+  removed: 'Removed',
+  tracking_changed: 'Tracking Changed',
+  carrier_changed: 'Carrier Changed',
+  eta_changed: 'ETA Changed',
+  status_changed: 'Status Changed',
+}
+
+export const CHANGE_COLORS: Record<ChangeType, string> = {
+  added: '#10b981',
+  removed: '#6b7280',
+  tracking_changed: '#8b5cf6',
+  carrier_changed: '#8b5cf6',
+  eta_changed: '#f59e0b',
+  status_changed: '#3b82f6',
+}
+
+export function toSnapshotEntry(shipment: Shipment): SnapshotEntry {
+  return {
+    tracking_number: shipment.tracking_number,
+    order_id: shipment.order_id,
+    po_number: shipment.po_number,
+    from_company: shipment.from_company,
+    recipient_name: shipment.recipient_name || '',
+    slug: shipment.slug,
+    tag: shipment.tag,
+    estimated_delivery: shipment.estimated_delivery,
+  }
+}
+
+/**
+ * One-line summary of a change, e.g. "ETA Nov 10, 2025 → Nov 14, 2025 (4 days later)"
+ */
+export function describeChange(change: ShipmentChange): string {
+  return describeSnapshotChange(change, getCarrierName)
+}
+
+/**
+ * Turn the stored snapshots (oldest first) into change sets, newest first
+ */
+export function buildChangeSets(snapshots: Snapshot[]): ChangeSet[] {
+  const changeSets: ChangeSet[] = []
+  for (let i = 1; i < snapshots.length; i++) {
+    const changes = diffSnapshots(snapshots[i - 1].shipments, snapshots[i].shipments)
+    if (changes.length > 0) {
+      changeSets.push({
+        id: snapshots[i].id,
+        detected_at: snapshots[i].taken_at,
+        previous_at: snapshots[i - 1].taken_at,
+        changes,
+      })
+    }
+  }
+  return changeSets.reverse()
+}
+
+/**
+ * Changes from the most recent load that changed anything, by tracking number, for row badges
+ */
+export function getLatestChanges(changeSets: ChangeSet[]): Map<string, ShipmentChange[]> {
+  const byTrackingNumber = new Map<string, ShipmentChange[]>()
+  changeSets[0]?.changes.forEach(change => {
+    const key = normalizeKey(change.tracking_number)
+    byTrackingNumber.set(key, [...(byTrackingNumber.get(key) || []), change])
+  })
+  return byTrackingNumber
+}
+
+export function getShipmentChanges(latestChanges: Map<string, ShipmentChange[]>, trackingNumber: string): ShipmentChange[] {
+  return latestChanges.get(normalizeKey(trackingNumber)) || []
+}
@@ -0,0 +1,119 @@
+// Column mapping - translate vendor CSV headers to the field names the loaders understand
+import type { CSVFileKind } from './importStore'
+
+export interface CanonicalField {
+  field: string
+  label: string
+  synonyms: string[]
+}
+
+export type ColumnMapping = Record<string, string> // normalized source header -> canonical field ('' keeps the header as-is)
+
+export interface MappingProfile {
+  id: string
+  name: string // Usually the supplier the export comes from
+  kind: CSVFileKind
+  signature: string
+  mapping: ColumnMapping
+  updatedAt: string
+}
+
+// Header names understood by CSVService for each kind of file
+export const CANONICAL_FIELDS: Record<CSVFileKind, CanonicalField[]> = {
+  shipments: [
+    { field: 'tracking_number', label: 'Tracking Number', synonyms: ['tracking', 'tracking_no', 'tracking_#', 'awb', 'waybill'] },
+    { field: 'carrier', label: 'Carrier', synonyms: ['courier', 'shipper', 'ship_via', 'shipping_method', 'slug'] },
+    { field: 'po_number', label: 'PO Number', synonyms: ['po', 'po_#', 'purchase_order', 'customer_po'] },
+    { field: 'order_number', label: 'Order Number', synonyms: ['order', 'order_id', 'order_#', 'sales_order', 'so_number'] },
+    { field: 'from_company', label: 'From (Company)', synonyms: ['supplier', 'vendor', 'company', 'from', 'seller'] },
+    { field: 'recipient_site_name', label: 'Recipient / Site Name', synonyms: ['recipient', 'ship_to', 'site', 'site_name', 'deliver_to'] },
+    { field: 'recipient_email', label: 'Recipient Email', synonyms: ['email', 'contact_email'] },
+    { field: 'address', label: 'Ship To Address', synonyms: ['street', 'street_address', 'address_line_1', 'address1', 'ship_to_address', 'delivery_address'] },
+    { field: 'city', label: 'City', synonyms: ['ship_to_city', 'destination_city', 'ship_city', 'delivery_city', 'town'] },
+    { field: 'state', label: 'State / Province', synonyms: ['province', 'state_province', 'ship_to_state', 'destination_state', 'ship_state'] },
+    { field: 'postal_code', label: 'ZIP / Postal Code', synonyms: ['zip', 'zip_code', 'zipcode', 'postcode', 'ship_to_zip', 'ship_to_postal_code'] },
+    { field: 'country', label: 'Country', synonyms: ['ship_to_country', 'destination_country', 'country_code'] },
+    { field: 'ship_date', label: 'Ship Date', synonyms: ['shipped', 'shipped_date', 'date_shipped', 'shipment_date'] },
+    { field: 'estimated_delivery', label: 'Estimated Delivery', synonyms: ['eta', 'delivery_date', 'expected_delivery', 'est_delivery'] },
+    { field: 'email_date', label: 'Email Date', synonyms: ['notification_date', 'received_date'] },
+    { field: 'subject', label: 'Subject', synonyms: ['title', 'email_subject'] },
+    { field: 'body_preview', label: 'Body Preview', synonyms: ['body', 'message', 'notes', 'description'] },
+  ],
+  additional: [
+    { field: 'order_number', label: 'Order Number', synonyms: ['order', 'order_id', 'order_#'] },
+    { field: 'po_number', label: 'PO Number', synonyms: ['po', 'po_#', 'purchase_order'] },
+    { field: 'job_name', label: 'Job Name', synonyms: ['job', 'project', 'project_name'] },
+    { field: 'requested_by_date', label: 'Requested By Date', synonyms: ['requested_by', 'need_by', 'need_by_date', 'due_date', 'required_date'] },
+    { field: 'type', label: 'Type', synonyms: ['item_type', 'order_type', 'category'] },
+  ],
+  poItems: [
+    { field: 'po_number', label: 'PO Number', synonyms: ['po', 'po_#', 'purchase_order'] },
+    { field: 'item_name', label: 'Item Name', synonyms: ['item', 'product', 'product_name', 'name'] },
+    { field: 'part_number', label: 'Part Number', synonyms: ['part', 'sku', 'mpn', 'part_#', 'model'] },
+    { field: 'description', label: 'Description', synonyms: ['desc', 'item_description', 'details'] },
+    { field: 'color', label: 'Color', synonyms: ['colour', 'finish'] },
+    { field: 'quantity', label: 'Quantity', synonyms: ['qty', 'qty_ordered', 'quantity_ordered', 'units'] },
+  ],
+}
+
+/**
+ * Identifies a file layout regardless of column order
+ */
+export function getHeaderSignature(fields: string[]): string {
+  return [...fields].sort().join('|')
+}
+
+/**
+ * Suggest a canonical field for each detected header
+ */
+export function suggestMapping(kind: CSVFileKind, fields: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+  const canonical = CANONICAL_FIELDS[kind]
+
+  // Exact matches first so they can't be claimed by a looser synonym match
+  fields.forEach(header => {
+    if (canonical.some(c => c.field === header)) {
+      mapping[header] = header
+      used.add(header)
+    }
+  })
+
+  fields.forEach(header => {
+    if (mapping[header]) return
+
+    // Partial matches compare whole words so that e.g. "po" doesn't match "report_date"
+    const words = header.split('_')
+    const matchesPartially = (synonym: string) =>
+      synonym.includes('_') ? header.includes(synonym) : words.includes(synonym)
+
+    const match = canonical.find(c => !used.has(c.field) && c.synonyms.includes(header)) ||
+      canonical.find(c => !used.has(c.field) && c.synonyms.some(matchesPartially))
+
+    mapping[header] = match ? match.field : ''
+    if (match) used.add(match.field)
+  })
+
+  return mapping
+}
+
+/**
+ * Rename the keys of each parsed row according to the mapping
+ */
+export function applyMapping(rows: any[], mapping: ColumnMapping): any[] {
+  return rows.map(row => {
+    const mapped: Record<string, any> = {}
+    Object.keys(row).forEach(header => {
+      const target = mapping[header] || header
+      // Don't let an unmapped duplicate overwrite a value already mapped to that field
+      if (mapped[target] === undefined || mapped[target] === '') {
+        mapped[target] = row[header]
+      }
+    })
+    return mapped
+  })
+}
+
+export function applyMappingToFields(fields: string[], mapping: ColumnMapping): string[] {
+  return [...new Set(fields.map(header => mapping[header] || header))]
+}
@@ -1,25 +1,14 @@
 // CSV Service for reading tracking data from CSV file
 import Papa from 'papaparse'
+import type { Shipment } from './dataSources/types'
+import { importStore, CSVFileKind } from './importStore'
+import { applyMapping, applyMappingToFields } from './columnMapping'
+import { validateCSVData, ValidationReport } from './validation'
+import { applyStatus } from './statusEngine'
+import { readAddressColumns } from './locationService'
+import { authHeaders } from './auth'
 
-export interface TrackingInfo {
-  id: string
-  tracking_number: string
-  slug: string
-  tag: string
-  title?: string
-  order_id?: string
-  po_number?: string
-  destination_city?: string
-  destination_state?: string
-  last_updated_at?: string
-  estimated_delivery?: string
-  checkpoint_message?: string
-  checkpoint_location?: string
-  checkpoint_date?: string
-  recipient_name?: string
-  from_company?: string
-  [key: string]: any // Allow additional fields from second CSV
-}
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '')
 
 export interface POItem {
   po_number: string
@@ -30,43 +19,100 @@ export interface POItem {
   quantity: string | number
 }
 
+export interface ParsedCSV {
+  data: any[]
+  fields: string[] // Normalized header names
+  errors: CSVRowError[]
+}
+
+export interface CSVRowError {
+  row: number // 0-based data row index, as reported by Papa.parse
+  message: string
+}
+
+export type AdditionalMatch = 'order_number' | 'tracking_number' | 'po_number' | 'index' | null
+
+interface LoadedCSVFile {
+  fileName: string
+  parsed: ParsedCSV
+}
+
 class CSVService {
   private csvPath: string
   private additionalCsvPath: string
   private poItemsCsvPath: string
 
   constructor() {
-    // CSV files should be in the public folder
-    this.csvPath = '/TestCSVFile.csv'
-    this.additionalCsvPath = '/AdditionalOrderInfo.csv'
-    this.poItemsCsvPath = '/mock_po_items_100.csv'
+    // Served by the backend from its data/ folder (GET /api/data/<file>) to signed-in users
+    this.csvPath = 'TestCSVFile.csv'
+    this.additionalCsvPath = 'AdditionalOrderInfo.csv'
+    this.poItemsCsvPath = 'mock_po_items_100.csv'
+  }
+
+  private getFileKind(path: string): CSVFileKind {
+    if (path === this.additionalCsvPath) return 'additional'
+    if (path === this.poItemsCsvPath) return 'poItems'
+    return 'shipments'
   }
 
   private async loadCSVFile(path: string): Promise<any[]> {
-    const timestamp = new Date().getTime()
-    const response = await fetch(`${path}?t=${timestamp}`, {
-      cache: 'no-store'
+    const { parsed } = await this.loadParsedCSVFile(path)
+    return parsed.data
+  }
+
+  private async loadParsedCSVFile(path: string): Promise<LoadedCSVFile> {
+    // Files imported in the browser take precedence over the bundled ones
+    const imported = await importStore.getFile(this.getFileKind(path))
+    if (imported) {
+      const parsed = await this.parseCSV(imported.csvText)
+      return {
+        fileName: imported.fileName,
+        parsed: imported.mapping
+          ? { ...parsed, data: applyMapping(parsed.data, imported.mapping), fields: applyMappingToFields(parsed.fields, imported.mapping) }
+          : parsed,
+      }
+    }
+
+    const response = await fetch(`${API_BASE_URL}/api/data/${path}`, {
+      cache: 'no-store',
+      headers: authHeaders(),
     })
     
     if (!response.ok) {
       // If additional CSV doesn't exist, return empty array
       if (path === this.additionalCsvPath) {
-        return []
+        return { fileName: path, parsed: { data: [], fields: [], errors: [] } }
       }
-      throw new Error(`Failed to load CSV: ${response.statusText}`)
+      const body = await response.json().catch(() => ({}))
+      throw new Error(`Failed to load CSV: ${body.error || response.statusText}`)
     }
 
     const csvText = await response.text()
-    
+    return { fileName: path, parsed: await this.parseCSV(csvText) }
+  }
+
+  /**
+   * Parse CSV text with the same header normalization used for the bundled files
+   */
+  parseCSV(csvText: string): Promise<ParsedCSV> {
     return new Promise((resolve, reject) => {
       Papa.parse(csvText, {
         header: true,
         skipEmptyLines: true,
+        // Every run of spaces and punctuation becomes one underscore: "Recipient / Site Name" -> recipient_site_name,
+        // "From (Company)" -> from_company
         transformHeader: (header) => {
-          return header.trim().toLowerCase().replace(/\s+/g, '_').replace(/[()]/g, '')
+          return header.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '')
         },
         complete: (results) => {
-          resolve(results.data || [])
+          resolve({
+            data: results.data || [],
+            fields: results.meta.fields || [],
+            errors: (results.errors || []).map(error => ({
+              row: error.row ?? -1,
+              message: error.message,
+            })),
+          })
         },
         error: (error: any) => {
           reject(error)
@@ -75,7 +121,7 @@ class CSVService {
     })
   }
 
-  async loadTrackings(): Promise<TrackingInfo[]> {
+  async loadTrackings(): Promise<Shipment[]> {
     try {
       // Load both CSV files
       const [ordersData, additionalData] = await Promise.all([
@@ -83,48 +129,35 @@ class CSVService {
         this.loadCSVFile(this.additionalCsvPath).catch(() => []) // Silently fail if additional CSV doesn't exist
       ])
 
-      // Create a map of additional data by order_id or tracking_number, and also keep array for index matching
-      const additionalDataMap = new Map<string, any>()
-      additionalData.forEach((row: any) => {
-        const key = row.order_number || row.order_id || row.tracking_number || row.po_number || ''
-        if (key) {
-          additionalDataMap.set(key.toLowerCase(), row)
-        }
-      })
+      const additionalDataMap = this.buildAdditionalDataMap(additionalData)
 
       // Parse orders and merge with additional data
-      const trackings: TrackingInfo[] = ordersData.map((row: any, index: number) => {
+      const trackings: Shipment[] = ordersData.map((row: any, index: number) => {
         const trackingNumber = row.tracking_number || ''
         const estimatedDelivery = row.estimated_delivery || ''
         const shipDate = row.ship_date || row.email_date || ''
         const orderId = row.order_number || ''
         
-        // Determine status based on estimated delivery date
-        const tag = this.determineStatus(estimatedDelivery)
-        
-        // Parse recipient/site name - might contain location info
+        // The destination is parsed from these address columns, or the recipient/site name, once all sources are merged
         const recipientName = row.recipient_site_name || row.recipient || ''
-        const destinationParts = this.parseDestination(recipientName)
+        const addressColumns = readAddressColumns(row)
         
-        // Find matching additional data by order_id, tracking_number, PO number, or row index (fallback)
-        const additionalInfo = additionalDataMap.get(orderId.toLowerCase()) || 
-                               additionalDataMap.get(trackingNumber.toLowerCase()) ||
-                               additionalDataMap.get((row.po_number || '').toLowerCase()) ||
-                               (additionalData[index] || {}) // Fallback to row index matching
+        const { info: additionalInfo } = this.findAdditionalInfo(row, index, additionalDataMap, additionalData)
         
         // Merge additional fields (exclude fields that are already in base tracking)
         const baseTracking: any = {
           id: orderId || row.po_number || `tracking-${index}`,
           tracking_number: trackingNumber,
           slug: (row.carrier || '').toLowerCase(),
-          tag: tag,
+          tag: '',
           title: row.subject || `${row.from_company || ''} Order ${orderId || ''}`.trim(),
           order_id: orderId,
           po_number: row.po_number || '',
-          destination_city: destinationParts.city || '',
-          destination_state: destinationParts.state || '',
+          ...addressColumns,
           last_updated_at: shipDate || row.email_date || '',
+          ship_date: row.ship_date || '',
           estimated_delivery: estimatedDelivery,
+          reported_status: row.status || row.delivery_status || '',
           checkpoint_message: row.body_preview || row.subject || '',
           checkpoint_location: recipientName,
           checkpoint_date: estimatedDelivery || shipDate || row.email_date || '',
@@ -139,8 +172,8 @@ class CSVService {
           }
         })
 
-        return baseTracking
-      }).filter((tracking: TrackingInfo) => 
+        return applyStatus(baseTracking)
+      }).filter((tracking: Shipment) => 
         tracking.tracking_number && tracking.tracking_number.trim() !== ''
       )
 
@@ -150,67 +183,61 @@ class CSVService {
     }
   }
 
-  private determineStatus(estimatedDelivery: string): string {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    
-    if (!estimatedDelivery) {
-      return 'in_transit'
-    }
-    
-    try {
-      const trimmed = estimatedDelivery.trim()
-      let estDate: Date
-
-      const dateOnlyMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-      if (dateOnlyMatch) {
-        const [, year, month, day] = dateOnlyMatch
-        estDate = new Date(Number(year), Number(month) - 1, Number(day))
-      } else {
-        estDate = new Date(trimmed)
+  // Map of additional data by order number, tracking number or PO number
+  private buildAdditionalDataMap(additionalData: any[]): Map<string, any> {
+    const additionalDataMap = new Map<string, any>()
+    additionalData.forEach((row: any) => {
+      const key = row.order_number || row.order_id || row.tracking_number || row.po_number || ''
+      if (key) {
+        additionalDataMap.set(key.toLowerCase(), row)
       }
+    })
+    return additionalDataMap
+  }
 
-      estDate.setHours(0, 0, 0, 0)
-      
-      if (isNaN(estDate.getTime())) {
-        return 'in_transit'
-      }
-      
-      // If estimated delivery is in the past, likely delivered
-      if (estDate < today) {
-        return 'delivered'
-      }
-      // If estimated delivery is today, might be out for delivery
-      if (estDate.getTime() === today.getTime()) {
-        return 'out_for_delivery'
+  // Find matching additional data by order_id, tracking_number, PO number, or row index (fallback)
+  private findAdditionalInfo(
+    row: any,
+    index: number,
+    additionalDataMap: Map<string, any>,
+    additionalData: any[]
+  ): { info: any; matchedBy: AdditionalMatch } {
+    const candidates: [AdditionalMatch, string][] = [
+      ['order_number', row.order_number || ''],
+      ['tracking_number', row.tracking_number || ''],
+      ['po_number', row.po_number || ''],
+    ]
+    for (const [matchedBy, key] of candidates) {
+      const info = key && additionalDataMap.get(key.toLowerCase())
+      if (info) {
+        return { info, matchedBy }
       }
-      // If estimated delivery is in the future, in transit
-      return 'in_transit'
-    } catch {
-      return 'in_transit'
     }
-  }
 
-  private parseDestination(recipientName: string): { city?: string; state?: string } {
-    if (!recipientName) {
-      return {}
-    }
-    
-    // Try to extract city and state from recipient name
-    // Format might be "Site Name - City, ST" or "City, ST" or just site name
-    const parts = recipientName.split(/[-,]/).map(p => p.trim())
-    
-    // Look for state abbreviations (2-letter codes)
-    const statePattern = /\b([A-Z]{2})\b/
-    const stateMatch = recipientName.match(statePattern)
-    
-    if (stateMatch && parts.length >= 2) {
-      const state = stateMatch[1]
-      const city = parts.find(p => !p.match(/^[A-Z]{2}$/) && p.length > 0) || ''
-      return { city, state }
+    // Fallback to row index matching
+    if (additionalData[index]) {
+      return { info: additionalData[index], matchedBy: 'index' }
     }
-    
-    return {}
+    return { info: {}, matchedBy: null }
+  }
+
+  /**
+   * Re-read the source files and report row-level problems without changing what gets loaded
+   */
+  async validate(): Promise<ValidationReport> {
+    const [shipments, additional, poItems] = await Promise.all([
+      this.loadParsedCSVFile(this.csvPath),
+      this.loadParsedCSVFile(this.additionalCsvPath).catch(() => null),
+      this.loadParsedCSVFile(this.poItemsCsvPath).catch(() => null),
+    ])
+
+    const additionalData = additional?.parsed.data || []
+    const additionalDataMap = this.buildAdditionalDataMap(additionalData)
+    const additionalMatches = shipments.parsed.data.map((row: any, index: number) =>
+      this.findAdditionalInfo(row, index, additionalDataMap, additionalData).matchedBy
+    )
+
+    return validateCSVData({ shipments, additional, poItems, additionalMatches })
   }
 
   async loadPOItems(): Promise<Map<string, POItem[]>> {
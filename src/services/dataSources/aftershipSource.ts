@@ -0,0 +1,48 @@
+// AfterShip adapter - live carrier status and checkpoints
+import { aftershipService, normalizeTag, AfterShipTracking } from '../aftership'
+import { Shipment, TrackingDataSource } from './types'
+
+const toShipment = (tracking: AfterShipTracking): Shipment => {
+  const checkpoints = [...(tracking.checkpoints || [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )
+  const latest = checkpoints[0]
+
+  return {
+    id: tracking.id,
+    tracking_number: tracking.tracking_number,
+    slug: tracking.slug,
+    tag: normalizeTag(tracking.tag || ''),
+    reported_status: tracking.tag,
+    title: tracking.title,
+    order_id: tracking.order_id,
+    recipient_name: tracking.customer_name,
+    origin_city: tracking.origin_city,
+    origin_state: tracking.origin_state,
+    origin_country_iso3: tracking.origin_country_iso3,
+    destination_city: tracking.destination_city,
+    destination_state: tracking.destination_state,
+    destination_country_iso3: tracking.destination_country_iso3,
+    last_updated_at: tracking.last_updated_at,
+    ship_date: tracking.tracking_ship_date,
+    estimated_delivery: tracking.order_promised_delivery_date,
+    checkpoint_message: latest?.message,
+    checkpoint_location: latest?.location,
+    checkpoint_date: latest?.created_at,
+    checkpoints,
+  }
+}
+
+export const aftershipSource: TrackingDataSource = {
+  id: 'aftership',
+  name: 'AfterShip',
+  async load(existing: Shipment[]): Promise<Shipment[]> {
+    // When other sources already produced rows, enrich those; otherwise list everything AfterShip tracks
+    if (existing.length > 0) {
+      return aftershipService.enrichTrackings(existing)
+    }
+
+    const trackings = await aftershipService.getAllTrackings()
+    return trackings.map(toShipment)
+  },
+}
@@ -0,0 +1,11 @@
+// CSV adapter - shipments from the bundled CSV files
+import { csvService } from '../csvService'
+import { Shipment, TrackingDataSource } from './types'
+
+export const csvSource: TrackingDataSource = {
+  id: 'csv',
+  name: 'CSV files',
+  load(): Promise<Shipment[]> {
+    return csvService.loadTrackings()
+  },
+}
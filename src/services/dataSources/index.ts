@@ -0,0 +1,117 @@
+// Data source registry - picks the configured adapters and merges their results
+import { csvSource } from './csvSource'
+import { aftershipSource } from './aftershipSource'
+import { restSource } from './restSource'
+import { Shipment, TrackingDataSource } from './types'
+import { applyStatus } from '../statusEngine'
+import { applyRisk } from '../riskService'
+import { applyCarrier } from '../carriers'
+import { applyLocation } from '../locationService'
+
+export type { Shipment, TrackingDataSource } from './types'
+
+const registry: Record<string, TrackingDataSource> = {
+  [csvSource.id]: csvSource,
+  [aftershipSource.id]: aftershipSource,
+  [restSource.id]: restSource,
+}
+
+/**
+ * Source ids from VITE_DATA_SOURCES (comma separated, loaded in order).
+ * Defaults to CSV, plus AfterShip when live mode is enabled.
+ */
+const getConfiguredSourceIds = (): string[] => {
+  const configured = import.meta.env.VITE_DATA_SOURCES
+  if (configured) {
+    return configured.split(',').map((id: string) => id.trim().toLowerCase()).filter(Boolean)
+  }
+  return import.meta.env.VITE_AFTERSHIP_LIVE === 'true' ? ['csv', 'aftership'] : ['csv']
+}
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+/**
+ * Merge shipment lists by tracking number. Later lists win for any field they actually fill in.
+ */
+export function mergeShipments(lists: { sourceId: string; shipments: Shipment[] }[]): Shipment[] {
+  const merged = new Map<string, Shipment>()
+
+  lists.forEach(({ sourceId, shipments }) => {
+    shipments.forEach(shipment => {
+      const key = shipment.tracking_number.trim().toLowerCase()
+      if (!key) return
+
+      const current = merged.get(key)
+      if (!current) {
+        merged.set(key, { ...shipment, sources: [sourceId] })
+        return
+      }
+
+      const next: Shipment = { ...current }
+      Object.keys(shipment).forEach(field => {
+        if (field !== 'sources' && !isEmpty(shipment[field])) {
+          next[field] = shipment[field]
+        }
+      })
+      next.sources = [...new Set([...(current.sources || []), sourceId])]
+      merged.set(key, next)
+    })
+  })
+
+  return [...merged.values()]
+}
+
+class DataSourceService {
+  getSources(): TrackingDataSource[] {
+    return getConfiguredSourceIds()
+      .map(id => {
+        const source = registry[id]
+        if (!source) {
+          console.warn(`Unknown data source "${id}" in VITE_DATA_SOURCES`)
+        }
+        return source
+      })
+      .filter((source): source is TrackingDataSource => !!source)
+  }
+
+  async loadShipments(): Promise<Shipment[]> {
+    const sources = this.getSources()
+    const results: { sourceId: string; shipments: Shipment[] }[] = []
+    let merged: Shipment[] = []
+    // Carrier as the first source to name one gave it, so the mismatch check sees the original value
+    const reportedCarriers = new Map<string, string>()
+
+    for (const source of sources) {
+      try {
+        // Later sources (e.g. AfterShip) look shipments up by carrier, so they get the corrected slugs
+        const shipments = await source.load(merged.map(applyCarrier))
+        results.push({ sourceId: source.id, shipments })
+        shipments.forEach(shipment => {
+          const key = shipment.tracking_number.trim().toLowerCase()
+          if (shipment.slug && !reportedCarriers.has(key)) reportedCarriers.set(key, shipment.slug)
+        })
+        merged = mergeShipments(results)
+      } catch (error: any) {
+        // The first source is the primary one; secondary sources degrade gracefully
+        if (source === sources[0]) {
+          throw error
+        }
+        console.warn(`Data source "${source.name}" failed:`, error.message)
+      }
+    }
+
+    // Resolve carriers once against the reported value, then re-run the status engine now that every
+    // source (e.g. carrier checkpoints) has contributed, and compare the result against the job's
+    // requested-by date. Destinations are parsed last too, so address fields from any source win
+    // over the recipient name.
+    return merged
+      .map(shipment => applyCarrier({
+        ...shipment,
+        slug: reportedCarriers.get(shipment.tracking_number.trim().toLowerCase()) ?? shipment.slug,
+      }))
+      .map(shipment => applyRisk(applyStatus(applyLocation(shipment))))
+  }
+}
+
+export const dataSourceService = new DataSourceService()
@@ -0,0 +1,69 @@
+// JSON/REST adapter - shipments from any endpoint returning a JSON array
+import { Shipment, TrackingDataSource } from './types'
+import { currentSites } from '../auth'
+
+const REST_SOURCE_URL = import.meta.env.VITE_REST_SOURCE_URL || ''
+
+// Common alternative field names, mapped to the canonical shipment fields
+const FIELD_ALIASES: Record<string, string[]> = {
+  tracking_number: ['trackingNumber', 'tracking', 'tracking_no'],
+  slug: ['carrier', 'courier'],
+  tag: ['status', 'state'],
+  order_id: ['orderId', 'order_number', 'orderNumber'],
+  po_number: ['poNumber', 'po'],
+  from_company: ['fromCompany', 'supplier', 'vendor'],
+  recipient_name: ['recipientName', 'recipient', 'site'],
+  ship_to_address: ['shipToAddress', 'address'],
+  destination_city: ['destinationCity', 'city'],
+  destination_state: ['destinationState', 'province'],
+  destination_postal_code: ['destinationPostalCode', 'postalCode', 'postal_code', 'zip'],
+  destination_country: ['destinationCountry', 'country'],
+  estimated_delivery: ['estimatedDelivery', 'eta'],
+  ship_date: ['shipDate', 'shipped_at', 'shippedAt'],
+  last_updated_at: ['updated_at', 'updatedAt'],
+}
+
+const normalizeRecord = (record: Record<string, any>, index: number): Shipment => {
+  const shipment: Record<string, any> = { ...record }
+
+  Object.entries(FIELD_ALIASES).forEach(([field, aliases]) => {
+    if (shipment[field] !== undefined && shipment[field] !== '') return
+    const alias = aliases.find(name => record[name] !== undefined && record[name] !== '')
+    if (alias) {
+      shipment[field] = record[alias]
+    }
+  })
+
+  return {
+    ...shipment,
+    id: String(shipment.id || shipment.order_id || shipment.tracking_number || `rest-${index}`),
+    tracking_number: String(shipment.tracking_number || ''),
+    slug: String(shipment.slug || '').toLowerCase(),
+    // Left empty without a status, like CSV rows, so the merge keeps other sources' status and the status engine decides
+    tag: String(shipment.tag || '').toLowerCase().replace(/[\s-]+/g, '_'),
+    reported_status: shipment.tag ? String(shipment.tag) : undefined,
+  }
+}
+
+export const restSource: TrackingDataSource = {
+  id: 'rest',
+  name: 'JSON/REST endpoint',
+  async load(): Promise<Shipment[]> {
+    if (!REST_SOURCE_URL) {
+      throw new Error('REST data source URL is not configured. Please set VITE_REST_SOURCE_URL in your .env file')
+    }
+    // The endpoint is fetched by the browser as is, with no way to leave out other sites' shipments
+    if (currentSites()) {
+      throw new Error('The REST data source is off for users limited to some sites')
+    }
+
+    const response = await fetch(REST_SOURCE_URL, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Failed to load REST data source: ${response.statusText}`)
+    }
+
+    const body = await response.json()
+    const records: Record<string, any>[] = Array.isArray(body) ? body : body.shipments || body.trackings || body.data || []
+    return records.map(normalizeRecord)
+  },
+}
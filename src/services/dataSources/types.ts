@@ -0,0 +1,63 @@
+// Canonical shipment model shared by every data source
+import type { Checkpoint } from '../aftership'
+import type { AnnotationNote, StatusOverride } from '../annotationStore'
+import type { ParsedLocation } from '../locationService'
+
+export interface Shipment {
+  id: string
+  tracking_number: string
+  slug: string
+  tag: string
+  title?: string
+  order_id?: string
+  po_number?: string
+  from_company?: string
+  recipient_name?: string
+  origin_city?: string
+  origin_state?: string
+  origin_country_iso3?: string
+  ship_to_address?: string // Street address, when the source has one
+  destination_city?: string
+  destination_state?: string // Two-letter state or province code once the location service has run
+  destination_postal_code?: string
+  destination_country?: string // 'US' or 'CA' when recognized
+  destination_country_iso3?: string
+  location_parse?: ParsedLocation // How the destination fields were worked out, and how sure that is
+  last_updated_at?: string
+  ship_date?: string
+  estimated_delivery?: string
+  carrier_reported?: string // Carrier as given by the source, before detection
+  carrier_detected?: string // Carrier slug recognized from the tracking number
+  carrier_mismatch?: boolean // Source carrier disagrees with the tracking number format
+  reported_status?: string // Status as given by the source (status column, API field, carrier tag)
+  status_rule?: string // Status engine rule that decided `tag`
+  status_reason?: string // Human-readable explanation of that decision
+  checkpoint_message?: string
+  checkpoint_location?: string
+  checkpoint_date?: string
+  job_name?: string // From the additional order info file
+  type?: string // Inventory / Non-Inventory, from the additional order info file
+  requested_by_date?: string // Date the job needs the shipment by
+  risk_level?: 'late' | 'at_risk' | 'on_track' // Set by the risk service when a requested-by date is known
+  risk_slack_days?: number
+  risk_reason?: string
+  items_ordered?: number // Set from receipts on the Receiving page
+  items_received?: number
+  tags?: string[] // Annotations added in the Order Details modal
+  notes?: AnnotationNote[]
+  status_override?: StatusOverride // Set when a manual override replaced the decided status
+  checkpoints?: Checkpoint[] // Carrier scans, newest first
+  sources?: string[] // Ids of the data sources that contributed to this shipment
+  [key: string]: any // Allow additional fields from secondary files and sources
+}
+
+/**
+ * A backend that can supply shipments. Sources are loaded in order and each one
+ * receives the shipments merged so far, so enrichment-style sources (like AfterShip)
+ * can look up the rows other sources produced.
+ */
+export interface TrackingDataSource {
+  id: string
+  name: string
+  load(existing: Shipment[]): Promise<Shipment[]>
+}
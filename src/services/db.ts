@@ -0,0 +1,55 @@
+// Shared IndexedDB database for everything the app keeps in the browser
+const DB_NAME = 'order-tracker'
+const DB_VERSION = 5
+
+// Object stores and their key paths. Adding a store means listing it here and bumping DB_VERSION.
+const STORES: Record<string, string> = {
+  'imported-files': 'kind',
+  'mapping-profiles': 'id',
+  'receipts': 'id',
+  'annotations': 'tracking_number',
+  'snapshots': 'id',
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath })
+          }
+        })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Run one request against a store in its own transaction and resolve once it commits
+ */
+export async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
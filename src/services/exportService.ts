@@ -0,0 +1,104 @@
+// Export the visible table rows to CSV, XLSX and a printable PDF packing list
+// The XLSX and PDF libraries are loaded on first use to keep them out of the main bundle
+import Papa from 'papaparse'
+import type { Shipment } from './dataSources/types'
+import type { POItem } from './csvService'
+import { downloadFile } from '../utils/download'
+import { formatDate, getStatusLabel } from '../utils/format'
+import { getCarrierName } from './carriers'
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export interface ExportColumn<T> {
+  label: string
+  value: (row: T) => string | number
+}
+
+export interface PackingList {
+  poNumber: string
+  shipment?: Shipment
+  items: POItem[]
+}
+
+const timestamped = (baseName: string, extension: string) =>
+  `${baseName}-${new Date().toISOString().slice(0, 10)}.${extension}`
+
+const toTable = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  rows.map(row => columns.map(column => column.value(row)))
+
+export function exportToCSV<T>(rows: T[], columns: ExportColumn<T>[], baseName: string): void {
+  const csv = Papa.unparse({
+    fields: columns.map(column => column.label),
+    data: toTable(rows, columns),
+  })
+  downloadFile(csv, timestamped(baseName, 'csv'), 'text/csv;charset=utf-8')
+}
+
+export async function exportToXLSX<T>(rows: T[], columns: ExportColumn<T>[], baseName: string, sheetName: string): Promise<void> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+  const header = columns.map(column => ({ value: column.label, fontWeight: 'bold' as const }))
+  const body = toTable(rows, columns)
+  const blob = await writeXlsxFile([header, ...body], {
+    sheet: sheetName,
+    // Size each column to its longest value, capped so descriptions don't get too wide
+    columns: columns.map((column, index) => ({
+      width: Math.min(40, Math.max(column.label.length, ...body.map(row => String(row[index] ?? '').length)) + 2),
+    })),
+    stickyRowsCount: 1,
+  }).toBlob()
+  downloadFile(blob, timestamped(baseName, 'xlsx'), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+}
+
+/**
+ * One page per PO with the shipment details, the items to check off and a signature line
+ */
+export async function exportPackingListsPDF(packingLists: PackingList[], baseName: string): Promise<void> {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')])
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' })
+  const margin = 40
+
+  packingLists.forEach((list, index) => {
+    if (index > 0) doc.addPage()
+    const { shipment } = list
+
+    doc.setFontSize(18)
+    doc.text(`Packing List - ${list.poNumber}`, margin, 50)
+
+    doc.setFontSize(10)
+    const details: [string, string][] = [
+      ['Order Number', shipment?.order_id || 'N/A'],
+      ['Supplier', shipment?.from_company || 'N/A'],
+      ['Ship To', shipment?.recipient_name || 'N/A'],
+      ['Carrier', getCarrierName(shipment?.slug)],
+      ['Tracking Number', shipment?.tracking_number || 'N/A'],
+      ['Status', shipment ? getStatusLabel(shipment.tag) : 'N/A'],
+      ['Ship Date', formatDate(shipment?.ship_date || shipment?.last_updated_at)],
+      ['Est. Delivery', formatDate(shipment?.estimated_delivery)],
+    ]
+    if (shipment?.job_name) details.push(['Job', shipment.job_name])
+    details.forEach(([label, value], row) => {
+      doc.setFont('helvetica', 'bold')
+      doc.text(`${label}:`, margin, 75 + row * 14)
+      doc.setFont('helvetica', 'normal')
+      doc.text(value, margin + 95, 75 + row * 14)
+    })
+
+    autoTable(doc, {
+      startY: 75 + details.length * 14 + 10,
+      margin: { left: margin, right: margin },
+      head: [['Rcvd', 'Item Name', 'Part Number', 'Description', 'Color', 'Qty']],
+      body: list.items.map(item => ['[  ]', item.item_name, item.part_number, item.description, item.color, String(item.quantity)]),
+      headStyles: { fillColor: [0, 101, 143] },
+      columnStyles: { 0: { cellWidth: 36 }, 5: { halign: 'right' } },
+    })
+
+    const pageHeight = doc.internal.pageSize.getHeight()
+    doc.text('Received by: ______________________________    Date: ______________', margin, pageHeight - 50)
+  })
+
+  if (packingLists.length === 0) {
+    doc.text('No POs with items in the current view.', margin, 50)
+  }
+
+  doc.save(timestamped(baseName, 'pdf'))
+}
@@ -0,0 +1,64 @@
+// Browser storage (IndexedDB) for CSV files imported through the Import Data page
+import type { ColumnMapping, MappingProfile } from './columnMapping'
+import { runInStore } from './db'
+
+const FILES_STORE = 'imported-files'
+const PROFILES_STORE = 'mapping-profiles'
+
+export type CSVFileKind = 'shipments' | 'additional' | 'poItems'
+
+export interface ImportedFile {
+  kind: CSVFileKind
+  fileName: string
+  csvText: string
+  importedAt: string
+  mapping?: ColumnMapping // Applied to the parsed rows before they are loaded
+}
+
+class ImportStore {
+  async getFile(kind: CSVFileKind): Promise<ImportedFile | null> {
+    try {
+      const file = await runInStore<ImportedFile | undefined>(FILES_STORE, 'readonly', store => store.get(kind))
+      return file || null
+    } catch (error: any) {
+      console.warn('Failed to read imported file:', error.message)
+      return null
+    }
+  }
+
+  async getAllFiles(): Promise<ImportedFile[]> {
+    try {
+      return await runInStore<ImportedFile[]>(FILES_STORE, 'readonly', store => store.getAll())
+    } catch (error: any) {
+      console.warn('Failed to read imported files:', error.message)
+      return []
+    }
+  }
+
+  async saveFile(file: ImportedFile): Promise<void> {
+    await runInStore(FILES_STORE, 'readwrite', store => store.put(file))
+  }
+
+  async clearFiles(): Promise<void> {
+    await runInStore(FILES_STORE, 'readwrite', store => store.clear())
+  }
+
+  async getProfiles(): Promise<MappingProfile[]> {
+    try {
+      return await runInStore<MappingProfile[]>(PROFILES_STORE, 'readonly', store => store.getAll())
+    } catch (error: any) {
+      console.warn('Failed to read mapping profiles:', error.message)
+      return []
+    }
+  }
+
+  async saveProfile(profile: MappingProfile): Promise<void> {
+    await runInStore(PROFILES_STORE, 'readwrite', store => store.put(profile))
+  }
+
+  async deleteProfile(id: string): Promise<void> {
+    await runInStore(PROFILES_STORE, 'readwrite', store => store.delete(id))
+  }
+}
+
+export const importStore = new ImportStore()
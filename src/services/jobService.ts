@@ -0,0 +1,118 @@
+// Jobs - shipments and PO items grouped by the job they were ordered for (job_name from AdditionalOrderInfo.csv)
+import type { Shipment } from './dataSources/types'
+import type { POItem } from './csvService'
+import { DEFAULT_RISK_BUFFER_DAYS, RiskLevel } from './riskService'
+import { parseDate, daysBetween } from '../utils/dates'
+
+export interface JobPO {
+  poNumber: string
+  shipments: Shipment[]
+  items: POItem[]
+  delivered: boolean // Every shipment on the PO has been delivered
+}
+
+export interface JobSummary {
+  name: string
+  types: string[] // e.g. Inventory / Non-Inventory
+  shipments: Shipment[]
+  pos: JobPO[]
+  deliveredPOCount: number
+  itemUnits: number
+  deliveredUnits: number
+  percentDelivered: number // By item quantity, or by shipment when the job has no PO items
+  latestEta?: string
+  requestedBy?: string // Earliest requested-by date on the job
+  etaSlackDays: number | null // Days between the latest ETA and the requested-by date (negative when later)
+  etaRisk: RiskLevel | null
+  readyToInstall: boolean // Every PO for the job has been delivered
+}
+
+const getJobName = (shipment: Shipment) => (shipment.job_name || '').trim()
+
+const isDelivered = (shipment: Shipment) => shipment.tag === 'delivered'
+
+// Date strings sorted by their parsed value, ignoring blanks and unparseable values
+const sortDates = (values: (string | undefined)[]): string[] =>
+  values
+    .map(value => ({ value, date: parseDate(value) }))
+    .filter((entry): entry is { value: string; date: Date } => entry.date !== null)
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map(entry => entry.value)
+
+function summarizeJob(name: string, shipments: Shipment[], poItemsMap: Map<string, POItem[]>): JobSummary {
+  const poGroups = new Map<string, Shipment[]>()
+  shipments.forEach(shipment => {
+    const poNumber = shipment.po_number || ''
+    poGroups.set(poNumber, [...(poGroups.get(poNumber) || []), shipment])
+  })
+
+  const pos: JobPO[] = Array.from(poGroups, ([poNumber, poShipments]) => ({
+    poNumber,
+    shipments: poShipments,
+    items: poNumber ? poItemsMap.get(poNumber.toLowerCase()) || [] : [],
+    delivered: poShipments.every(isDelivered),
+  })).sort((a, b) => a.poNumber.localeCompare(b.poNumber))
+
+  const units = (items: POItem[]) => items.reduce((sum, item) => sum + (Number(item.quantity) || 0), 0)
+  const itemUnits = pos.reduce((sum, po) => sum + units(po.items), 0)
+  const deliveredUnits = pos.filter(po => po.delivered).reduce((sum, po) => sum + units(po.items), 0)
+  const deliveredShipments = shipments.filter(isDelivered).length
+
+  const readyToInstall = pos.every(po => po.delivered)
+  const etas = sortDates(shipments.map(shipment => shipment.estimated_delivery))
+  const latestEta = etas[etas.length - 1]
+  const requestedBy = sortDates(shipments.map(shipment => shipment.requested_by_date))[0]
+
+  const etaDate = parseDate(latestEta)
+  const requestedByDate = parseDate(requestedBy)
+  const etaSlackDays = etaDate && requestedByDate ? daysBetween(etaDate, requestedByDate) : null
+
+  let etaRisk: RiskLevel | null = null
+  if (etaSlackDays !== null && !readyToInstall) {
+    etaRisk = etaSlackDays < 0 ? 'late' : etaSlackDays <= DEFAULT_RISK_BUFFER_DAYS ? 'at_risk' : 'on_track'
+  }
+
+  return {
+    name,
+    types: [...new Set(shipments.map(shipment => (shipment.type || '').trim()).filter(Boolean))].sort(),
+    shipments,
+    pos,
+    deliveredPOCount: pos.filter(po => po.delivered).length,
+    itemUnits,
+    deliveredUnits,
+    percentDelivered: itemUnits > 0
+      ? Math.round((deliveredUnits / itemUnits) * 100)
+      : Math.round((deliveredShipments / shipments.length) * 100),
+    latestEta,
+    requestedBy,
+    etaSlackDays,
+    etaRisk,
+    readyToInstall,
+  }
+}
+
+/**
+ * One summary per job, the ones still waiting on deliveries first (soonest requested-by date first)
+ */
+export function summarizeJobs(shipments: Shipment[], poItemsMap: Map<string, POItem[]>): JobSummary[] {
+  const groups = new Map<string, Shipment[]>()
+  shipments.forEach(shipment => {
+    const name = getJobName(shipment)
+    if (name) groups.set(name, [...(groups.get(name) || []), shipment])
+  })
+
+  const requestedByTime = (job: JobSummary) => parseDate(job.requestedBy)?.getTime() ?? Infinity
+  return Array.from(groups, ([name, group]) => summarizeJob(name, group, poItemsMap))
+    .sort((a, b) =>
+      Number(a.readyToInstall) - Number(b.readyToInstall) ||
+      requestedByTime(a) - requestedByTime(b) ||
+      a.name.localeCompare(b.name)
+    )
+}
+
+/**
+ * Shipments that aren't assigned to any job
+ */
+export function countUnassignedShipments(shipments: Shipment[]): number {
+  return shipments.filter(shipment => !getJobName(shipment)).length
+}
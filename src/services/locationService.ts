@@ -0,0 +1,374 @@
+// Location parsing - turns address columns and recipient / site text into structured destinations
+import type { Shipment } from './dataSources/types'
+
+export type LocationMethod = 'address_fields' | 'site_pattern' | 'text'
+
+export interface ParsedLocation {
+  city?: string
+  state?: string // Two-letter US state or Canadian province code
+  postal_code?: string
+  country?: string // 'US' or 'CA' when recognized, otherwise as given
+  site?: string // From "Site - Company - City, ST"
+  company?: string
+  confidence: number // 0 (nothing found) to 1
+  method: LocationMethod | null
+  source: string // The text or fields the location was read from
+  warnings: string[]
+}
+
+export const LOCATION_METHOD_LABELS: Record<LocationMethod, string> = {
+  address_fields: 'From the address columns',
+  site_pattern: 'Parsed from "Site - Company - City, ST"',
+  text: 'Parsed from the recipient name',
+}
+
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', PR: 'Puerto Rico', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+  VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+}
+
+export const CA_PROVINCES: Record<string, string> = {
+  AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick', NL: 'Newfoundland and Labrador',
+  NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut', ON: 'Ontario', PE: 'Prince Edward Island',
+  QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon',
+}
+
+// First ZIP digit -> states, and first postal code letter -> provinces, to catch mismatched codes
+const ZIP_REGIONS: Record<string, string[]> = {
+  '0': ['CT', 'MA', 'ME', 'NH', 'NJ', 'NY', 'PR', 'RI', 'VT'],
+  '1': ['DE', 'NY', 'PA'],
+  '2': ['DC', 'MD', 'NC', 'SC', 'VA', 'WV'],
+  '3': ['AL', 'FL', 'GA', 'MS', 'TN'],
+  '4': ['IN', 'KY', 'MI', 'OH'],
+  '5': ['IA', 'MN', 'MT', 'ND', 'SD', 'WI'],
+  '6': ['IL', 'KS', 'MO', 'NE'],
+  '7': ['AR', 'LA', 'OK', 'TX'],
+  '8': ['AZ', 'CO', 'ID', 'NM', 'NV', 'UT', 'WY'],
+  '9': ['AK', 'CA', 'HI', 'OR', 'WA'],
+}
+
+const POSTAL_REGIONS: Record<string, string[]> = {
+  A: ['NL'], B: ['NS'], C: ['PE'], E: ['NB'], G: ['QC'], H: ['QC'], J: ['QC'], K: ['ON'], L: ['ON'],
+  M: ['ON'], N: ['ON'], P: ['ON'], R: ['MB'], S: ['SK'], T: ['AB'], V: ['BC'], X: ['NT', 'NU'], Y: ['YT'],
+}
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'us': 'US', 'usa': 'US', 'u.s.': 'US', 'u.s.a.': 'US', 'united states': 'US', 'united states of america': 'US',
+  'ca': 'CA', 'can': 'CA', 'canada': 'CA',
+}
+
+// Address columns in source files or records, with their common names after header normalization
+const ADDRESS_COLUMNS: Record<string, string[]> = {
+  ship_to_address: ['address', 'ship_to_address', 'street', 'street_address', 'address_line_1', 'address1', 'delivery_address'],
+  destination_city: ['city', 'ship_to_city', 'destination_city', 'ship_city', 'delivery_city'],
+  destination_state: ['state', 'province', 'state_province', 'ship_to_state', 'destination_state', 'ship_state', 'region'],
+  destination_postal_code: ['postal_code', 'zip', 'zip_code', 'zipcode', 'postcode', 'ship_to_zip', 'destination_postal_code'],
+  destination_country: ['country', 'ship_to_country', 'destination_country', 'country_code'],
+}
+
+const ZIP_PATTERN = /(?:^|[\s,])(\d{5})(?:-(\d{4}))?$/
+const CA_POSTAL_PATTERN = /(?:^|[\s,])([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?(\d[ABCEGHJ-NPRSTV-Z]\d)$/i
+// "CA" is left out: at the end of an address it is California, not Canada
+const COUNTRY_SUFFIX = /[,\s]+(USA|U\.S\.A\.|U\.S\.|US|United States(?: of America)?|Canada)\.?$/i
+const CITY_PATTERN = /^[A-Za-zÀ-ÿ][A-Za-zÀ-ÿ .'-]*$/
+
+const REGION_NAMES = new Map(
+  [...Object.entries(US_STATES), ...Object.entries(CA_PROVINCES)].map(([code, name]) => [name.toLowerCase(), code])
+)
+
+const countryOf = (code: string) => (CA_PROVINCES[code] ? 'CA' : 'US')
+
+/**
+ * The state or province code for a code or full name. In free text only upper-case codes count,
+ * so words like "in", "or" and "me" aren't read as states.
+ */
+export function lookupRegion(value: string, strict = true): string | null {
+  const trimmed = value.trim().replace(/\.$/, '')
+  const code = strict ? trimmed : trimmed.toUpperCase()
+  if (/^[A-Z]{2}$/.test(code) && (US_STATES[code] || CA_PROVINCES[code])) {
+    return code
+  }
+  return REGION_NAMES.get(trimmed.toLowerCase()) || null
+}
+
+export function normalizeCountry(value: string): string | undefined {
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+  return COUNTRY_NAMES[trimmed.toLowerCase()] || trimmed
+}
+
+/**
+ * Normalize a ZIP (12345 or 12345-6789) or Canadian postal code (A1A 1A1). Returns null for anything else.
+ */
+export function normalizePostalCode(value: string): { postal_code: string; country: string } | null {
+  const trimmed = value.trim()
+  const zip = trimmed.match(/^(\d{5})(?:-?(\d{4}))?$/)
+  if (zip) {
+    return { postal_code: zip[2] ? `${zip[1]}-${zip[2]}` : zip[1], country: 'US' }
+  }
+  const postal = trimmed.match(/^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?(\d[ABCEGHJ-NPRSTV-Z]\d)$/i)
+  if (postal) {
+    return { postal_code: `${postal[1]} ${postal[2]}`.toUpperCase(), country: 'CA' }
+  }
+  return null
+}
+
+const postalMatchesRegion = (postalCode: string, state: string): boolean => {
+  const regions = /^\d/.test(postalCode) ? ZIP_REGIONS[postalCode[0]] : POSTAL_REGIONS[postalCode[0].toUpperCase()]
+  return !!regions && regions.includes(state)
+}
+
+interface TailMatch {
+  city?: string
+  state?: string
+  postal_code?: string
+  country?: string
+}
+
+/**
+ * Read "City, ST 12345", "City, State", "City ST 12345" or a bare postal code from the end of a string
+ */
+function parseTail(text: string): TailMatch | null {
+  let rest = text.trim()
+  const match: TailMatch = {}
+
+  const country = rest.match(COUNTRY_SUFFIX)
+  if (country) {
+    match.country = normalizeCountry(country[1])
+    rest = rest.slice(0, country.index).trim()
+  }
+
+  const postal = rest.match(ZIP_PATTERN) || rest.match(CA_POSTAL_PATTERN)
+  if (postal) {
+    const normalized = normalizePostalCode(postal[0].replace(/^[\s,]+/, ''))
+    if (normalized) {
+      match.postal_code = normalized.postal_code
+      match.country = match.country || normalized.country
+      rest = rest.slice(0, postal.index).trim()
+    }
+  }
+  rest = rest.replace(/,$/, '').trim()
+
+  // "..., City, ST" or "..., City, State Name"
+  const withComma = rest.match(/(?:^|,)\s*([^,]+?)\s*,\s*([^,]+?)$/)
+  const commaRegion = withComma && lookupRegion(withComma[2])
+  if (withComma && commaRegion) {
+    match.state = commaRegion
+    if (CITY_PATTERN.test(withComma[1])) match.city = withComma[1]
+  } else {
+    // "City ST" without a comma is only trusted with a postal code after it
+    const noComma = rest.match(/^(.+?)\s+([A-Z]{2})$/)
+    const region = noComma && lookupRegion(noComma[2])
+    if (noComma && region && match.postal_code) {
+      match.state = region
+      if (CITY_PATTERN.test(noComma[1])) match.city = noComma[1]
+    } else {
+      // A region on its own after a comma, e.g. "Warehouse 4, TX"
+      const regionOnly = rest.match(/,\s*([^,]+)$/)
+      const lone = regionOnly && lookupRegion(regionOnly[1])
+      if (lone) match.state = lone
+    }
+  }
+
+  if (match.state) {
+    match.country = match.country || countryOf(match.state)
+  }
+  return match.city || match.state || match.postal_code ? match : null
+}
+
+const round = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 100) / 100
+
+/**
+ * Score a match and note anything inconsistent about it
+ */
+function score(match: TailMatch, base: { cityAndState: number; stateOnly: number; postalOnly: number }): { confidence: number; warnings: string[] } {
+  const warnings: string[] = []
+  let confidence = match.city && match.state ? base.cityAndState
+    : match.state ? base.stateOnly
+    : match.postal_code ? base.postalOnly
+    : match.city ? base.stateOnly
+    : 0
+
+  if (match.postal_code && match.state) {
+    if (postalMatchesRegion(match.postal_code, match.state)) {
+      confidence += 0.05
+    } else {
+      confidence -= 0.3
+      warnings.push(`Postal code ${match.postal_code} is not in ${match.state}`)
+    }
+  }
+  if (match.state && match.country && match.country !== countryOf(match.state)) {
+    confidence -= 0.2
+    warnings.push(`${match.state} is not in ${match.country}`)
+  }
+  return { confidence: round(confidence), warnings }
+}
+
+/**
+ * Parse a recipient / site name such as "Training Center - VisionTech - Austin, TX 78701".
+ * Only the last " - " part is read as a location, so names like "Conference Hall B - OmniTech" have none.
+ */
+export function parseLocationText(text: string): ParsedLocation {
+  const source = text.trim().replace(/\s+/g, ' ')
+  const segments = source.split(/\s+[-–—]\s+/).filter(Boolean)
+  const tail = segments.length > 0 ? parseTail(segments[segments.length - 1]) : null
+
+  if (!tail) {
+    return {
+      site: segments[0] || undefined,
+      company: segments.slice(1).join(' - ') || undefined,
+      confidence: 0,
+      method: null,
+      source,
+      warnings: [],
+    }
+  }
+
+  const patterned = segments.length > 1
+  const { confidence, warnings } = score(tail, patterned
+    ? { cityAndState: 0.85, stateOnly: 0.5, postalOnly: 0.45 }
+    : { cityAndState: 0.75, stateOnly: 0.45, postalOnly: 0.4 })
+
+  return {
+    ...tail,
+    site: patterned ? segments[0] : undefined,
+    company: segments.length > 2 ? segments.slice(1, -1).join(' - ') : undefined,
+    confidence,
+    method: patterned ? 'site_pattern' : 'text',
+    source,
+    warnings,
+  }
+}
+
+/**
+ * Build a location from explicit address fields. Returns null when none are filled in.
+ */
+export function parseAddressFields(fields: {
+  address?: string
+  city?: string
+  state?: string
+  postal_code?: string
+  country?: string
+}): ParsedLocation | null {
+  const address = (fields.address || '').trim()
+  const city = (fields.city || '').trim()
+  const state = (fields.state || '').trim()
+  const postalCode = (fields.postal_code || '').trim()
+  const country = (fields.country || '').trim()
+  if (!address && !city && !state && !postalCode && !country) {
+    return null
+  }
+
+  const warnings: string[] = []
+  const match: TailMatch = { city: city || undefined, country: normalizeCountry(country) }
+
+  if (state) {
+    const region = lookupRegion(state, false)
+    if (region) {
+      match.state = region
+    } else {
+      warnings.push(`Unknown state or province "${state}"`)
+    }
+  }
+  if (postalCode) {
+    const normalized = normalizePostalCode(postalCode)
+    if (normalized) {
+      match.postal_code = normalized.postal_code
+      match.country = match.country || normalized.country
+    } else {
+      warnings.push(`Unrecognized postal code "${postalCode}"`)
+    }
+  }
+
+  // A one-line address fills in whatever the separate columns left out
+  const fromAddress = address ? parseTail(address) : null
+  if (fromAddress) {
+    match.city = match.city || fromAddress.city
+    match.state = match.state || fromAddress.state
+    match.postal_code = match.postal_code || fromAddress.postal_code
+    match.country = match.country || fromAddress.country
+  }
+  if (match.state) {
+    match.country = match.country || countryOf(match.state)
+  }
+
+  const scored = score(match, { cityAndState: 0.95, stateOnly: 0.55, postalOnly: 0.6 })
+  return {
+    ...match,
+    confidence: round(scored.confidence - warnings.length * 0.2),
+    method: 'address_fields',
+    source: [address, city, state, postalCode, country].filter(Boolean).join(', '),
+    warnings: [...warnings, ...scored.warnings],
+  }
+}
+
+/**
+ * Pick the address columns out of a source row, whatever they are called
+ */
+export function readAddressColumns(row: Record<string, any>): Partial<Shipment> {
+  const fields: Record<string, string> = {}
+  Object.entries(ADDRESS_COLUMNS).forEach(([field, names]) => {
+    const name = names.find(column => row[column] !== undefined && String(row[column]).trim() !== '')
+    if (name) fields[field] = String(row[name]).trim()
+  })
+  return fields
+}
+
+const ISO3_COUNTRIES: Record<string, string> = { USA: 'US', CAN: 'CA' }
+
+/**
+ * Fill in the structured destination. Address fields from any source win over parsing the recipient name.
+ */
+export function applyLocation(shipment: Shipment): Shipment {
+  const iso3 = (shipment.destination_country_iso3 || '').toUpperCase()
+  const parsed = parseAddressFields({
+    address: shipment.ship_to_address,
+    city: shipment.destination_city,
+    state: shipment.destination_state,
+    postal_code: shipment.destination_postal_code,
+    country: shipment.destination_country || ISO3_COUNTRIES[iso3] || iso3,
+  }) || parseLocationText(shipment.recipient_name || '')
+
+  return {
+    ...shipment,
+    destination_city: parsed.city || '',
+    destination_state: parsed.state || '',
+    destination_postal_code: parsed.postal_code || '',
+    destination_country: parsed.country || '',
+    location_parse: parsed,
+  }
+}
+
+/**
+ * "Austin, TX 78701, US"
+ */
+export function formatLocation(location: Pick<ParsedLocation, 'city' | 'state' | 'postal_code' | 'country'>): string {
+  const region = [location.state, location.postal_code].filter(Boolean).join(' ')
+  return [location.city, region, location.country].filter(Boolean).join(', ')
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'none'
+
+export const CONFIDENCE_LABELS: Record<ConfidenceLevel, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+  none: 'None',
+}
+
+export const CONFIDENCE_COLORS: Record<ConfidenceLevel, string> = {
+  high: '#10b981',
+  medium: '#f59e0b',
+  low: '#ef4444',
+  none: '#6b7280',
+}
+
+export const getConfidenceLevel = (confidence: number): ConfidenceLevel =>
+  confidence >= 0.8 ? 'high' : confidence >= 0.5 ? 'medium' : confidence > 0 ? 'low' : 'none'
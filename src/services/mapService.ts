@@ -0,0 +1,159 @@
+// Map pins - where open shipments are now (their latest carrier scan) and where they are headed.
+// Places come from the bundled centroid tables, so the map works offline without a geocoder.
+import type { Shipment } from './dataSources/types'
+import { lookupRegion, normalizeCountry, US_STATES } from './locationService'
+import { getShipmentSite } from './siteService'
+import { CITY_CENTROIDS, STATE_CENTROIDS } from '../data/usCentroids'
+
+export type PinKind = 'current' | 'destination'
+
+export const PIN_KIND_LABELS: Record<PinKind, string> = {
+  current: 'Current location',
+  destination: 'Destination',
+}
+
+export interface MapPlace {
+  city?: string
+  state: string // Two-letter code
+  lat: number
+  lon: number
+  precision: 'city' | 'state' // 'state' when the city isn't in the centroid table
+}
+
+export interface MapPin {
+  key: string
+  kind: PinKind
+  place: MapPlace
+  label: string // e.g. "Memphis, TN"
+  sites: string[] // Destination sites at this place
+  shipments: Shipment[]
+}
+
+export interface MapPins {
+  pins: MapPin[]
+  unplaced: { shipment: Shipment; kind: PinKind; reason: string }[]
+}
+
+const cityKey = (city: string, state: string) =>
+  `${city.trim().toLowerCase().replace(/\./g, '').replace(/\bsaint\b/g, 'st').replace(/\bft\b/g, 'fort').replace(/\s+/g, ' ')}|${state}`
+
+/**
+ * Coordinates for a US city and state, falling back to the state's centroid. Null when the
+ * state isn't recognized or isn't a US state.
+ */
+export function locatePlace(city: string | undefined, state: string | undefined): MapPlace | null {
+  const code = state ? lookupRegion(state, false) : null
+  if (!code || !US_STATES[code] || !STATE_CENTROIDS[code]) return null
+  const cityName = city?.trim() || undefined
+  const cityPoint = cityName ? CITY_CENTROIDS[cityKey(cityName, code)] : undefined
+  const [lat, lon] = cityPoint || STATE_CENTROIDS[code]
+  return { city: cityName, state: code, lat, lon, precision: cityPoint ? 'city' : 'state' }
+}
+
+const isUS = (country?: string) => {
+  if (!country?.trim()) return true
+  const normalized = normalizeCountry(country)
+  return normalized === 'US' || normalized?.toUpperCase() === 'USA'
+}
+
+/**
+ * Where the carrier last scanned a shipment, from the newest checkpoint that has a place
+ */
+export function getCurrentPlace(shipment: Shipment): MapPlace | null {
+  const checkpoint = (shipment.checkpoints || []).find(cp => cp.city || cp.state)
+  if (!checkpoint || !isUS(checkpoint.country_name)) return null
+  return locatePlace(checkpoint.city, checkpoint.state)
+}
+
+export function getDestinationPlace(shipment: Shipment): MapPlace | null {
+  if (shipment.destination_country && shipment.destination_country !== 'US') return null
+  return locatePlace(shipment.destination_city, shipment.destination_state)
+}
+
+const placeLabel = (place: MapPlace) => place.city ? `${place.city}, ${place.state}` : US_STATES[place.state]
+
+/**
+ * Group shipments into one pin per place. Delivered shipments only have a destination pin, since
+ * their last scan is where they already arrived.
+ */
+export function buildMapPins(trackings: Shipment[]): MapPins {
+  const pins = new Map<string, MapPin>()
+  const unplaced: MapPins['unplaced'] = []
+
+  const addPin = (kind: PinKind, place: MapPlace, shipment: Shipment) => {
+    const key = `${kind}:${place.precision === 'city' ? `${place.lat},${place.lon}` : place.state}`
+    let pin = pins.get(key)
+    if (!pin) {
+      pin = { key, kind, place, label: placeLabel(place), sites: [], shipments: [] }
+      pins.set(key, pin)
+    }
+    pin.shipments.push(shipment)
+    if (kind === 'destination') {
+      const site = getShipmentSite(shipment)
+      if (!pin.sites.includes(site)) pin.sites.push(site)
+    }
+  }
+
+  trackings.forEach(shipment => {
+    const destination = getDestinationPlace(shipment)
+    if (destination) {
+      addPin('destination', destination, shipment)
+    } else {
+      unplaced.push({
+        shipment,
+        kind: 'destination',
+        reason: shipment.destination_state ? 'Destination is outside the US' : 'No destination state',
+      })
+    }
+
+    if (shipment.tag === 'delivered') return
+    const current = getCurrentPlace(shipment)
+    if (current) {
+      addPin('current', current, shipment)
+    } else if (shipment.checkpoints?.length) {
+      unplaced.push({ shipment, kind: 'current', reason: 'Latest scan has no US city or state' })
+    }
+  })
+
+  return { pins: [...pins.values()], unplaced }
+}
+
+export interface PinCluster {
+  key: string
+  x: number
+  y: number
+  pins: MapPin[]
+  shipments: Shipment[]
+}
+
+/**
+ * Greedy screen-space clustering: each pin joins the first cluster whose center is within
+ * `radius` pixels, otherwise it starts a new one. Pins are taken busiest first so clusters
+ * center on the places with the most shipments.
+ */
+export function clusterPins(points: { pin: MapPin; x: number; y: number }[], radius: number): PinCluster[] {
+  const clusters: PinCluster[] = []
+  const sorted = [...points].sort((a, b) => b.pin.shipments.length - a.pin.shipments.length)
+
+  sorted.forEach(({ pin, x, y }) => {
+    const cluster = clusters.find(c => Math.hypot(c.x - x, c.y - y) <= radius)
+    if (cluster) {
+      cluster.pins.push(pin)
+      // A shipment can be both here now and headed nearby; list it once
+      cluster.shipments.push(...pin.shipments.filter(shipment => !cluster.shipments.includes(shipment)))
+    } else {
+      clusters.push({ key: pin.key, x, y, pins: [pin], shipments: [...pin.shipments] })
+    }
+  })
+
+  return clusters
+}
+
+/**
+ * Shipment counts by status, largest first, for coloring a pin
+ */
+export function countByStatus(shipments: Shipment[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>()
+  shipments.forEach(shipment => counts.set(shipment.tag, (counts.get(shipment.tag) || 0) + 1))
+  return [...counts].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count)
+}
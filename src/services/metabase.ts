@@ -1,100 +1,120 @@
 // Metabase Static Embedding Service
-import { SignJWT } from 'jose'
+// Tokens are signed by the backend (server/index.js); the embedding secret never reaches the browser.
+import type { Shipment } from './dataSources/types'
+import { authHeaders } from './auth'
 
-export interface MetabaseConfig {
-  siteUrl: string
-  secretKey: string
-  questionId: number
-  expirationMinutes?: number
-  params?: Record<string, any>
-}
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '').replace(/\/$/, '')
 
-/**
- * Generate a signed JWT token for Metabase static embedding
- */
-export async function generateMetabaseEmbedUrl(config: MetabaseConfig): Promise<string> {
-  const {
-    siteUrl,
-    secretKey,
-    questionId,
-    expirationMinutes = 10,
-    params = {}
-  } = config
+export type MetabaseEmbedType = 'question' | 'dashboard'
+export type MetabaseEmbedPlacement = 'analytics' | 'order'
 
-  // Create the payload according to Metabase static embedding spec
-  // Note: 'exp' should be set via setExpirationTime, not in payload
-  // Metabase requires 'params' to always be present, even if empty
-  const payload: any = {
-    resource: { question: questionId },
-    params: params || {} // Always include params, even if empty
-  }
+// App context that can lock a Metabase parameter (see server/metabase-embeds.example.json)
+export interface MetabaseContext {
+  supplier?: string
+  po_number?: string
+  order_id?: string
+  tracking_number?: string
+  job_name?: string
+  date_from?: string
+  date_to?: string
+  date_range?: string
+  site?: string[] // Selected sites; locks the parameter to any of them
+}
 
-  // Convert secret key to Uint8Array for jose
-  const secretKeyBytes = new TextEncoder().encode(secretKey)
+export interface MetabaseEmbedConfig {
+  id: string
+  title: string
+  type: MetabaseEmbedType
+  placements: MetabaseEmbedPlacement[]
+  context: (keyof MetabaseContext)[] // Context keys this embed is filtered by
+}
 
-  // Calculate expiration time
-  const expTime = Math.round(Date.now() / 1000) + (expirationMinutes * 60)
+export interface MetabaseEmbed {
+  id: string
+  url: string
+  expiresAt: string
+}
 
-  // Sign the JWT token
-  const token = await new SignJWT(payload)
-    .setProtectedHeader({ alg: 'HS256' })
-    .setExpirationTime(expTime)
-    .setIssuedAt(Math.round(Date.now() / 1000))
-    .sign(secretKeyBytes)
-  
-  console.log('Metabase JWT payload:', JSON.stringify(payload, null, 2))
-  console.log('Metabase expiration time:', new Date(expTime * 1000).toISOString())
+const requestJson = async (path: string): Promise<any> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, { cache: 'no-store', headers: authHeaders() })
+  const body = await response.json().catch(() => ({}))
 
-  // Construct the iframe URL
-  // Ensure HTTPS if the current page is HTTPS (to avoid mixed content issues)
-  let finalSiteUrl = siteUrl
-  if (typeof window !== 'undefined' && window.location.protocol === 'https:' && siteUrl.startsWith('http://')) {
-    // Try HTTPS version if available
-    finalSiteUrl = siteUrl.replace('http://', 'https://')
+  if (!response.ok) {
+    const missing = body.missing?.length ? ` (missing: ${body.missing.join(', ')})` : ''
+    throw new Error(`${body.error || `Metabase request failed: ${response.status}`}${missing}`)
   }
-  
-  const iframeUrl = `${finalSiteUrl}/embed/question/${token}#bordered=true&titled=true`
-
-  return iframeUrl
+  return body
 }
 
 /**
- * Get Metabase embed URL from environment variables
+ * List the configured embeds, optionally only those shown in one place
  */
-export async function getMetabaseEmbedUrl(): Promise<string | null> {
-  const siteUrl = import.meta.env.VITE_METABASE_SITE_URL
-  const secretKey = import.meta.env.VITE_METABASE_SECRET_KEY
-  const questionId = import.meta.env.VITE_METABASE_QUESTION_ID
+export async function fetchMetabaseEmbeds(placement?: MetabaseEmbedPlacement): Promise<MetabaseEmbedConfig[]> {
+  const { embeds } = await requestJson('/api/metabase/embeds')
+  return placement
+    ? (embeds as MetabaseEmbedConfig[]).filter(embed => embed.placements.includes(placement))
+    : embeds
+}
 
-  console.log('Metabase config check:', {
-    hasSiteUrl: !!siteUrl,
-    hasSecretKey: !!secretKey,
-    hasQuestionId: !!questionId,
-    siteUrl: siteUrl,
-    questionId: questionId
+/**
+ * Request a signed embed URL from the backend, with parameters locked to the given context
+ */
+export async function fetchMetabaseEmbed(embedId?: string, context: MetabaseContext = {}): Promise<MetabaseEmbed> {
+  const query = new URLSearchParams()
+  if (embedId) {
+    query.set('embed', embedId)
+  }
+  Object.entries(context).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach(entry => query.append(key, entry))
+    } else if (value) {
+      query.set(key, value)
+    }
   })
 
-  if (!siteUrl || !secretKey || !questionId) {
-    console.warn('Metabase environment variables missing:', {
-      siteUrl: siteUrl || 'MISSING',
-      secretKey: secretKey ? 'SET' : 'MISSING',
-      questionId: questionId || 'MISSING'
-    })
-    return null
+  const embed: MetabaseEmbed = await requestJson(`/api/metabase/embed-url?${query}`)
+
+  // Ensure HTTPS if the current page is HTTPS (to avoid mixed content issues)
+  if (typeof window !== 'undefined' && window.location.protocol === 'https:' && embed.url.startsWith('http://')) {
+    return { ...embed, url: embed.url.replace('http://', 'https://') }
   }
+  return embed
+}
 
+/**
+ * Get a Metabase embed URL, or null when the backend can't provide one
+ */
+export async function getMetabaseEmbedUrl(embedId?: string, context: MetabaseContext = {}): Promise<string | null> {
   try {
-    const url = await generateMetabaseEmbedUrl({
-      siteUrl,
-      secretKey,
-      questionId: parseInt(questionId, 10),
-      expirationMinutes: 10
-    })
-    console.log('Generated Metabase URL:', url.substring(0, 100) + '...')
+    const { url } = await fetchMetabaseEmbed(embedId, context)
     return url
-  } catch (error) {
-    console.error('Error generating Metabase embed URL:', error)
+  } catch (error: any) {
+    console.warn('Metabase embed unavailable:', error.message)
     return null
   }
 }
 
+/**
+ * Context for embeds shown alongside a single shipment
+ */
+export function getShipmentContext(shipment: Shipment): MetabaseContext {
+  return {
+    supplier: shipment.from_company || undefined,
+    po_number: shipment.po_number || undefined,
+    order_id: shipment.order_id || undefined,
+    tracking_number: shipment.tracking_number || undefined,
+    job_name: shipment.job_name || undefined,
+    site: shipment.recipient_name ? [shipment.recipient_name] : undefined,
+  }
+}
+
+/**
+ * Context for a date range, including Metabase's "from~to" date filter syntax
+ */
+export function getDateRangeContext(from: string, to: string): MetabaseContext {
+  return {
+    date_from: from || undefined,
+    date_to: to || undefined,
+    date_range: from && to ? `${from}~${to}` : undefined,
+  }
+}
@@ -0,0 +1,102 @@
+// Desktop notifications for subscribed shipment events, found by comparing two loads
+import type { Shipment } from './dataSources/types'
+import { parseDate } from '../utils/dates'
+import { getCarrierName } from './carriers'
+import { formatDate } from '../utils/format'
+
+export type NotificationEvent = 'out_for_delivery' | 'delivered' | 'exception' | 'eta_past_requested_by'
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Exception',
+  eta_past_requested_by: 'ETA slips past the requested-by date',
+}
+
+export interface ShipmentNotification {
+  event: NotificationEvent
+  tracking_number: string
+  title: string
+  body: string
+}
+
+const STATUS_EVENTS: NotificationEvent[] = ['out_for_delivery', 'delivered', 'exception']
+
+const normalizeKey = (trackingNumber: string) => trackingNumber.trim().toUpperCase()
+
+const isPastRequestedBy = (shipment: Shipment): boolean => {
+  const eta = parseDate(shipment.estimated_delivery)
+  const requestedBy = parseDate(shipment.requested_by_date)
+  return !!eta && !!requestedBy && eta > requestedBy
+}
+
+const describeShipment = (shipment: Shipment) =>
+  [shipment.po_number && `PO ${shipment.po_number}`, shipment.from_company, getCarrierName(shipment.slug)]
+    .filter(Boolean)
+    .join(' · ')
+
+/**
+ * Find the subscribed events between two loads. Only shipments present in both loads can
+ * trigger one, so the first load of a session (or a newly added shipment) never notifies.
+ */
+export function detectNotifications(previous: Shipment[], current: Shipment[], events: NotificationEvent[]): ShipmentNotification[] {
+  if (events.length === 0 || previous.length === 0) return []
+
+  const previousByKey = new Map(previous.map(shipment => [normalizeKey(shipment.tracking_number), shipment]))
+  const notifications: ShipmentNotification[] = []
+
+  current.forEach(shipment => {
+    const before = previousByKey.get(normalizeKey(shipment.tracking_number))
+    if (!before) return
+
+    const statusEvent = STATUS_EVENTS.find(event => event === shipment.tag)
+    if (statusEvent && before.tag !== shipment.tag && events.includes(statusEvent)) {
+      notifications.push({
+        event: statusEvent,
+        tracking_number: shipment.tracking_number,
+        title: `${NOTIFICATION_EVENT_LABELS[statusEvent]}: ${shipment.tracking_number}`,
+        body: describeShipment(shipment),
+      })
+    }
+
+    if (events.includes('eta_past_requested_by') && shipment.tag !== 'delivered' &&
+        isPastRequestedBy(shipment) && !isPastRequestedBy(before)) {
+      notifications.push({
+        event: 'eta_past_requested_by',
+        tracking_number: shipment.tracking_number,
+        title: `ETA slipped: ${shipment.tracking_number}`,
+        body: `Now ${formatDate(shipment.estimated_delivery)}, requested by ${formatDate(shipment.requested_by_date)}. ${describeShipment(shipment)}`,
+      })
+    }
+  })
+
+  return notifications
+}
+
+export const notificationsSupported = (): boolean => typeof Notification !== 'undefined'
+
+/**
+ * Ask for permission to show notifications. Must be called from a user action, e.g. a click.
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied'
+  if (Notification.permission !== 'default') return Notification.permission
+  return Notification.requestPermission()
+}
+
+/**
+ * Show the notifications, if permitted. Clicking one focuses the app and calls onClick.
+ */
+export function showNotifications(notifications: ShipmentNotification[], onClick: (trackingNumber: string) => void): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return
+
+  notifications.forEach(({ event, tracking_number, title, body }) => {
+    // The tag replaces an earlier notification for the same event instead of stacking them
+    const notification = new Notification(title, { body, tag: `${event}:${tracking_number}` })
+    notification.onclick = () => {
+      window.focus()
+      onClick(tracking_number)
+      notification.close()
+    }
+  })
+}
@@ -0,0 +1,44 @@
+// Browser storage (IndexedDB) for item receipts recorded on the Receiving page
+import { runInStore } from './db'
+
+const RECEIPTS_STORE = 'receipts'
+
+export interface Receipt {
+  id: string
+  po_number: string
+  item_key: string // PO line the receipt is for, see getItemKey in receivingService
+  item_name: string
+  part_number: string
+  quantity: number // Units received in this receipt
+  received_by: string
+  received_at: string // ISO timestamp
+  note?: string
+}
+
+class ReceiptStore {
+  async getReceipts(): Promise<Receipt[]> {
+    try {
+      const receipts = await runInStore<Receipt[]>(RECEIPTS_STORE, 'readonly', store => store.getAll())
+      return receipts.sort((a, b) => a.received_at.localeCompare(b.received_at))
+    } catch (error: any) {
+      console.warn('Failed to read receipts:', error.message)
+      return []
+    }
+  }
+
+  async saveReceipts(receipts: Receipt[]): Promise<void> {
+    for (const receipt of receipts) {
+      await runInStore(RECEIPTS_STORE, 'readwrite', store => store.put(receipt))
+    }
+  }
+
+  async deleteReceipt(id: string): Promise<void> {
+    await runInStore(RECEIPTS_STORE, 'readwrite', store => store.delete(id))
+  }
+
+  async clearReceipts(): Promise<void> {
+    await runInStore(RECEIPTS_STORE, 'readwrite', store => store.clear())
+  }
+}
+
+export const receiptStore = new ReceiptStore()
@@ -0,0 +1,92 @@
+// Item-level receiving - what has arrived per PO line, and the order status that follows from it
+import type { Shipment } from './dataSources/types'
+import type { POItem } from './csvService'
+import type { Receipt } from './receiptStore'
+import { applyRisk } from './riskService'
+
+export type ReceivingState = 'none' | 'partial' | 'complete'
+
+export interface POReceivingSummary {
+  ordered: number
+  received: number
+  outstanding: number
+  state: ReceivingState
+  lastReceipt?: Receipt
+}
+
+// Units received per PO line, keyed by getItemKey
+export type ReceivedQuantities = Map<string, number>
+
+/**
+ * Identify a PO line by its PO and part number (or item name when there is no part number)
+ */
+export function getItemKey(item: Pick<POItem, 'po_number' | 'part_number' | 'item_name'>): string {
+  return `${item.po_number.trim().toLowerCase()}|${(item.part_number || item.item_name || '').trim().toLowerCase()}`
+}
+
+export function getOrderedQuantity(item: POItem): number {
+  return Number(item.quantity) || 0
+}
+
+export function buildReceivedQuantities(receipts: Receipt[]): ReceivedQuantities {
+  const received: ReceivedQuantities = new Map()
+  receipts.forEach(receipt => received.set(receipt.item_key, (received.get(receipt.item_key) || 0) + receipt.quantity))
+  return received
+}
+
+export function getReceivedQuantity(item: POItem, received: ReceivedQuantities): number {
+  return received.get(getItemKey(item)) || 0
+}
+
+export function getOutstandingQuantity(item: POItem, received: ReceivedQuantities): number {
+  return Math.max(0, getOrderedQuantity(item) - getReceivedQuantity(item, received))
+}
+
+/**
+ * Ordered, received and outstanding units for a PO's items
+ */
+export function summarizePOReceiving(items: POItem[], received: ReceivedQuantities, receipts: Receipt[] = []): POReceivingSummary {
+  const ordered = items.reduce((sum, item) => sum + getOrderedQuantity(item), 0)
+  const receivedUnits = items.reduce((sum, item) => sum + Math.min(getReceivedQuantity(item, received), getOrderedQuantity(item)), 0)
+  const outstanding = items.reduce((sum, item) => sum + getOutstandingQuantity(item, received), 0)
+  const anyReceived = items.some(item => getReceivedQuantity(item, received) > 0)
+
+  const poNumber = items[0]?.po_number.trim().toLowerCase()
+  const poReceipts = receipts.filter(receipt => receipt.po_number.trim().toLowerCase() === poNumber)
+
+  return {
+    ordered,
+    received: receivedUnits,
+    outstanding,
+    state: !anyReceived ? 'none' : outstanding === 0 ? 'complete' : 'partial',
+    lastReceipt: poReceipts[poReceipts.length - 1],
+  }
+}
+
+/**
+ * Receipts are what actually arrived, so they override the carrier/date-based status:
+ * a fully received PO is delivered, a partly received one is partially received.
+ */
+export function applyReceiving(
+  shipment: Shipment,
+  poItemsMap: Map<string, POItem[]>,
+  received: ReceivedQuantities,
+  receipts: Receipt[]
+): Shipment {
+  const items = shipment.po_number ? poItemsMap.get(shipment.po_number.toLowerCase()) : undefined
+  if (!items || items.length === 0) return shipment
+
+  const summary = summarizePOReceiving(items, received, receipts)
+  if (summary.state === 'none') return shipment
+
+  const last = summary.lastReceipt
+  const lastNote = last ? `, last by ${last.received_by || 'unknown'} on ${new Date(last.received_at).toLocaleDateString()}` : ''
+  return applyRisk({
+    ...shipment,
+    tag: summary.state === 'complete' ? 'delivered' : 'partially_received',
+    status_rule: summary.state === 'complete' ? 'items_received' : 'items_partially_received',
+    status_reason: `${summary.received} of ${summary.ordered} units received${lastNote}`,
+    items_ordered: summary.ordered,
+    items_received: summary.received,
+  })
+}
@@ -0,0 +1,77 @@
+// At-risk detection - compares each shipment's ETA with its job's requested-by date
+import type { Shipment } from './dataSources/types'
+import { parseDate, startOfDay, daysBetween } from '../utils/dates'
+
+export type RiskLevel = 'late' | 'at_risk' | 'on_track'
+
+export interface RiskAssessment {
+  level: RiskLevel
+  slackDays: number // Days between ETA and requested-by date (negative when the ETA is after it)
+  reason: string
+}
+
+const bufferSetting = import.meta.env.VITE_AT_RISK_BUFFER_DAYS
+// Shipments arriving this many days (or fewer) before the requested-by date are at risk
+export const DEFAULT_RISK_BUFFER_DAYS = bufferSetting && !isNaN(Number(bufferSetting)) ? Number(bufferSetting) : 3
+
+export const RISK_LABELS: Record<RiskLevel, string> = {
+  late: 'Late',
+  at_risk: 'At Risk',
+  on_track: 'On Track',
+}
+
+export const RISK_COLORS: Record<RiskLevel, string> = {
+  late: '#dc2626',
+  at_risk: '#f59e0b',
+  on_track: '#10b981',
+}
+
+/**
+ * Assess a shipment against its requested-by date. Returns null when there is
+ * nothing to compare (no requested-by date, or already delivered).
+ */
+export function assessRisk(
+  shipment: Shipment,
+  bufferDays: number = DEFAULT_RISK_BUFFER_DAYS,
+  now: Date = new Date()
+): RiskAssessment | null {
+  const requestedBy = parseDate(shipment.requested_by_date)
+  if (!requestedBy || shipment.tag === 'delivered') return null
+
+  const eta = parseDate(shipment.estimated_delivery)
+  const today = startOfDay(now)
+
+  // Without an ETA, the best we can say is whether the requested-by date has already passed
+  if (!eta) {
+    const remaining = daysBetween(today, requestedBy)
+    if (remaining < 0) {
+      return { level: 'late', slackDays: remaining, reason: `Requested-by date passed ${-remaining} days ago and no ETA is known` }
+    }
+    return null
+  }
+
+  // An ETA already in the past can't be trusted for an undelivered shipment; use today instead
+  const expected = eta < today ? today : eta
+  const slackDays = daysBetween(expected, requestedBy)
+
+  if (slackDays < 0) {
+    return { level: 'late', slackDays, reason: `Expected ${-slackDays} days after the requested-by date` }
+  }
+  if (slackDays <= bufferDays) {
+    return { level: 'at_risk', slackDays, reason: `Only ${slackDays} days before the requested-by date (buffer: ${bufferDays})` }
+  }
+  return { level: 'on_track', slackDays, reason: `${slackDays} days before the requested-by date` }
+}
+
+/**
+ * Return a copy of the shipment with its risk level and slack filled in
+ */
+export function applyRisk(shipment: Shipment, bufferDays: number = DEFAULT_RISK_BUFFER_DAYS): Shipment {
+  const risk = assessRisk(shipment, bufferDays)
+  return {
+    ...shipment,
+    risk_level: risk?.level,
+    risk_slack_days: risk?.slackDays,
+    risk_reason: risk?.reason,
+  }
+}
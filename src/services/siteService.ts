@@ -0,0 +1,121 @@
+// Sites - the delivery locations named in the recipient / site column. Every view can be
+// scoped to a set of sites, and users can be limited to theirs by the sign-in provider.
+import type { Shipment } from './dataSources/types'
+import type { POItem } from './csvService'
+import type { ChangeSet } from './changeService'
+import type { AuthUser } from './auth'
+
+const DEFAULT_SITES_KEY = 'order-tracker.default-sites'
+
+export const UNASSIGNED_SITE = 'Unassigned'
+
+export interface Site {
+  key: string
+  name: string // As first seen in the data, e.g. "Training Center - VisionTech"
+  location: string // Part before the first " - ", e.g. "Training Center"
+  company: string // The rest, e.g. "VisionTech"; empty when the name has no " - "
+  shipmentCount: number
+  openCount: number
+}
+
+/**
+ * Case- and spacing-insensitive key, so "Main Office - Quantum Labs" and "main office -  quantum labs" are one site
+ */
+export const siteKey = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase()
+
+export const getShipmentSite = (shipment: Shipment): string =>
+  (shipment.recipient_name || '').trim() || UNASSIGNED_SITE
+
+export function splitSiteName(name: string): { location: string; company: string } {
+  const [location, ...rest] = name.split(/\s+-\s+/)
+  return { location: location.trim(), company: rest.join(' - ').trim() }
+}
+
+/**
+ * One entry per site, sorted by name
+ */
+export function buildSites(trackings: Shipment[]): Site[] {
+  const sites = new Map<string, Site>()
+  trackings.forEach(tracking => {
+    const name = getShipmentSite(tracking)
+    const key = siteKey(name)
+    let site = sites.get(key)
+    if (!site) {
+      site = { key, name, ...splitSiteName(name), shipmentCount: 0, openCount: 0 }
+      sites.set(key, site)
+    }
+    site.shipmentCount++
+    if (tracking.tag !== 'delivered') site.openCount++
+  })
+  return [...sites.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * The sites a user's views are scoped to: their selection, kept within the sites they are
+ * limited to. An empty list means every site.
+ */
+export function resolveSiteScope(selected: string[], allowed?: string[]): string[] {
+  if (!allowed) return selected
+  const allowedKeys = new Set(allowed.map(siteKey))
+  const scope = selected.filter(name => allowedKeys.has(siteKey(name)))
+  return scope.length > 0 ? scope : allowed
+}
+
+/**
+ * Shipments delivered to any of the given sites; all of them when the list is empty
+ */
+export function filterBySites(trackings: Shipment[], sites: string[]): Shipment[] {
+  if (sites.length === 0) return trackings
+  const keys = new Set(sites.map(siteKey))
+  return trackings.filter(tracking => keys.has(siteKey(getShipmentSite(tracking))))
+}
+
+/**
+ * PO items for the POs of the given shipments, so item views follow the site scope
+ */
+export function filterPOItemsByShipments(poItemsMap: Map<string, POItem[]>, trackings: Shipment[]): Map<string, POItem[]> {
+  const poNumbers = new Set(trackings.filter(t => t.po_number).map(t => t.po_number!.toLowerCase()))
+  return new Map([...poItemsMap].filter(([poNumber]) => poNumbers.has(poNumber.toLowerCase())))
+}
+
+/**
+ * Changes for shipments at the given sites. Changes recorded before sites were kept in
+ * snapshots can't be placed, so they are left out of a scoped view.
+ */
+export function filterChangeSetsBySites(changeSets: ChangeSet[], sites: string[]): ChangeSet[] {
+  if (sites.length === 0) return changeSets
+  const keys = new Set(sites.map(siteKey))
+  return changeSets
+    .map(changeSet => ({
+      ...changeSet,
+      changes: changeSet.changes.filter(change =>
+        change.recipient_name !== undefined && keys.has(siteKey(change.recipient_name.trim() || UNASSIGNED_SITE))),
+    }))
+    .filter(changeSet => changeSet.changes.length > 0)
+}
+
+// Default sites are kept per user on this browser
+const userKey = (user: AuthUser) => (user.email || user.name).toLowerCase()
+
+const readDefaults = (): Record<string, string[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(DEFAULT_SITES_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function getDefaultSites(user: AuthUser): string[] {
+  const sites = readDefaults()[userKey(user)]
+  return Array.isArray(sites) ? sites : []
+}
+
+export function saveDefaultSites(user: AuthUser, sites: string[]): void {
+  const defaults = readDefaults()
+  if (sites.length > 0) {
+    defaults[userKey(user)] = sites
+  } else {
+    delete defaults[userKey(user)]
+  }
+  localStorage.setItem(DEFAULT_SITES_KEY, JSON.stringify(defaults))
+}
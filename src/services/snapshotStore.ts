@@ -0,0 +1,51 @@
+// Browser storage (IndexedDB) for snapshots of each load, diffed for the Activity page
+import { runInStore } from './db'
+import type { Shipment } from './dataSources/types'
+import { Snapshot, ShipmentChange, toSnapshotEntry, diffSnapshots } from './changeService'
+
+const SNAPSHOTS_STORE = 'snapshots'
+
+// Older snapshots are dropped so the feed covers the last this-many loads that changed something
+const MAX_SNAPSHOTS = 30
+
+class SnapshotStore {
+  async getSnapshots(): Promise<Snapshot[]> {
+    try {
+      const snapshots = await runInStore<Snapshot[]>(SNAPSHOTS_STORE, 'readonly', store => store.getAll())
+      return snapshots.sort((a, b) => a.id.localeCompare(b.id))
+    } catch (error: any) {
+      console.warn('Failed to read snapshots:', error.message)
+      return []
+    }
+  }
+
+  /**
+   * Keep a snapshot of a load. Loads identical to the previous snapshot aren't stored,
+   * so consecutive snapshots always differ. Returns the changes since the previous
+   * snapshot (none for the first one).
+   */
+  async recordLoad(shipments: Shipment[]): Promise<ShipmentChange[]> {
+    const snapshots = await this.getSnapshots()
+    const entries = shipments.map(toSnapshotEntry)
+    const latest = snapshots[snapshots.length - 1]
+    const changes = latest ? diffSnapshots(latest.shipments, entries) : []
+    if (latest && changes.length === 0) {
+      return changes
+    }
+
+    const takenAt = new Date().toISOString()
+    await runInStore(SNAPSHOTS_STORE, 'readwrite', store => store.put({ id: takenAt, taken_at: takenAt, shipments: entries }))
+
+    const expired = snapshots.slice(0, Math.max(0, snapshots.length + 1 - MAX_SNAPSHOTS))
+    for (const snapshot of expired) {
+      await runInStore(SNAPSHOTS_STORE, 'readwrite', store => store.delete(snapshot.id))
+    }
+    return changes
+  }
+
+  async clearSnapshots(): Promise<void> {
+    await runInStore(SNAPSHOTS_STORE, 'readwrite', store => store.clear())
+  }
+}
+
+export const snapshotStore = new SnapshotStore()
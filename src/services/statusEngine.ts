@@ -0,0 +1,159 @@
+// Rule-based status engine - decides each shipment's status and records which rule fired
+import { normalizeTag } from './aftership'
+import type { Shipment } from './dataSources/types'
+import { parseDate, startOfDay, daysBetween } from '../utils/dates'
+
+export type ShipmentStatus = 'pending' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception' | 'overdue' | 'partially_received'
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = [
+  'pending', 'in_transit', 'out_for_delivery', 'partially_received', 'delivered', 'exception', 'overdue',
+]
+
+export interface StatusEngineConfig {
+  overdueGraceDays: number // Days past the ETA before an undelivered shipment is overdue
+  assumeDeliveredAfterDays: number | null // Days past the ETA after which a shipment with no carrier data is assumed delivered (null = never)
+}
+
+export interface StatusDecision {
+  tag: ShipmentStatus
+  rule: string
+  reason: string
+}
+
+const parseDays = (value: string | undefined, fallback: number | null): number | null => {
+  if (value === undefined || value === '') return fallback
+  const days = Number(value)
+  return isNaN(days) ? fallback : days
+}
+
+export const DEFAULT_STATUS_CONFIG: StatusEngineConfig = {
+  overdueGraceDays: parseDays(import.meta.env.VITE_STATUS_OVERDUE_GRACE_DAYS, 1) ?? 1,
+  assumeDeliveredAfterDays: parseDays(import.meta.env.VITE_STATUS_ASSUME_DELIVERED_DAYS, null),
+}
+
+// Free-text status values seen in CSV exports and APIs
+const STATUS_ALIASES: Record<string, ShipmentStatus> = {
+  pending: 'pending',
+  info_received: 'pending',
+  label_created: 'pending',
+  not_shipped: 'pending',
+  shipped: 'in_transit',
+  in_transit: 'in_transit',
+  intransit: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  available_for_pickup: 'out_for_delivery',
+  delivered: 'delivered',
+  received: 'delivered',
+  exception: 'exception',
+  attempt_fail: 'exception',
+  failed_attempt: 'exception',
+  returned: 'exception',
+  expired: 'exception',
+  overdue: 'overdue',
+  late: 'overdue',
+}
+
+/**
+ * Normalize a status from a CSV column, API field or AfterShip tag. Returns null if unrecognized.
+ */
+export function normalizeStatus(value?: string): ShipmentStatus | null {
+  if (!value || !value.trim()) return null
+  const trimmed = value.trim()
+  // AfterShip style tags ("OutForDelivery") first, then free text ("Out for delivery")
+  const key = /^[A-Z][a-zA-Z]+$/.test(trimmed) && /[a-z][A-Z]/.test(trimmed)
+    ? normalizeTag(trimmed)
+    : trimmed.toLowerCase().replace(/[\s-]+/g, '_')
+  return STATUS_ALIASES[key] || null
+}
+
+// Shipments that haven't arrived and are past the ETA plus grace period become overdue
+const withOverdueCheck = (
+  status: ShipmentStatus,
+  eta: Date | null,
+  today: Date,
+  config: StatusEngineConfig,
+  rule: string,
+  reason: string
+): StatusDecision => {
+  if ((status === 'in_transit' || status === 'pending') && eta && daysBetween(eta, today) > config.overdueGraceDays) {
+    return {
+      tag: 'overdue',
+      rule: `${rule}_overdue`,
+      reason: `${reason}, but the ETA passed ${daysBetween(eta, today)} days ago`,
+    }
+  }
+  return { tag: status, rule, reason }
+}
+
+/**
+ * Decide a shipment's status. Rules are evaluated in order and the first match wins:
+ * carrier checkpoints, then an explicitly reported status, then ship date and ETA.
+ */
+export function evaluateStatus(
+  shipment: Shipment,
+  config: StatusEngineConfig = DEFAULT_STATUS_CONFIG,
+  now: Date = new Date()
+): StatusDecision {
+  const today = startOfDay(now)
+  const eta = parseDate(shipment.estimated_delivery)
+  const shipDate = parseDate(shipment.ship_date)
+
+  // 1. Latest carrier checkpoint
+  const latest = shipment.checkpoints?.[0]
+  const checkpointStatus = normalizeStatus(latest?.tag)
+  if (latest && checkpointStatus) {
+    return withOverdueCheck(checkpointStatus, eta, today, config, 'carrier_checkpoint',
+      `Latest carrier scan: "${latest.message}"`)
+  }
+
+  // 2. Status column or API field
+  const reportedStatus = normalizeStatus(shipment.reported_status)
+  if (reportedStatus) {
+    return withOverdueCheck(reportedStatus, eta, today, config, 'reported_status',
+      `Source reported "${shipment.reported_status}"`)
+  }
+
+  // 3. Dates only
+  if (shipDate && shipDate > today) {
+    return { tag: 'pending', rule: 'ship_date_future', reason: 'Ship date is in the future' }
+  }
+
+  if (!eta) {
+    return shipDate
+      ? { tag: 'in_transit', rule: 'shipped_no_eta', reason: 'Shipped, but no estimated delivery date' }
+      : { tag: 'pending', rule: 'no_dates', reason: 'No ship date or estimated delivery date' }
+  }
+
+  const daysLate = daysBetween(eta, today)
+
+  if (daysLate < 0) {
+    return { tag: 'in_transit', rule: 'eta_future', reason: `Estimated delivery in ${-daysLate} days` }
+  }
+
+  if (daysLate === 0) {
+    return { tag: 'out_for_delivery', rule: 'eta_today', reason: 'Estimated delivery is today' }
+  }
+
+  if (daysLate <= config.overdueGraceDays) {
+    return { tag: 'in_transit', rule: 'eta_grace_period', reason: `ETA passed ${daysLate} days ago, within the ${config.overdueGraceDays}-day grace period` }
+  }
+
+  if (config.assumeDeliveredAfterDays !== null && daysLate > config.assumeDeliveredAfterDays) {
+    return { tag: 'delivered', rule: 'eta_assumed_delivered', reason: `ETA passed ${daysLate} days ago; assumed delivered after ${config.assumeDeliveredAfterDays} days` }
+  }
+
+  return { tag: 'overdue', rule: 'eta_overdue', reason: `ETA passed ${daysLate} days ago with no delivery confirmation` }
+}
+
+/**
+ * Return a copy of the shipment with its status, rule and reason filled in
+ */
+export function applyStatus(shipment: Shipment, config: StatusEngineConfig = DEFAULT_STATUS_CONFIG): Shipment {
+  const decision = evaluateStatus(shipment, config)
+  return {
+    ...shipment,
+    tag: decision.tag,
+    status_rule: decision.rule,
+    status_reason: decision.reason,
+  }
+}
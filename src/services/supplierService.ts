@@ -0,0 +1,81 @@
+// Supplier scorecards - per-vendor delivery performance built from the loaded shipments
+import type { Shipment } from './dataSources/types'
+import type { POItem } from './csvService'
+import { getSupplier, getLeadTimeDays, isOnTime } from './analyticsService'
+
+export interface SupplierSummary {
+  name: string
+  shipmentCount: number
+  openCount: number
+  deliveredCount: number
+  avgLeadTimeDays: number | null // Ship date to ETA
+  lateCount: number
+  lateRate: number | null // 0-1 of shipments with a requested-by date to compare against
+  carriers: string[] // Carrier slugs, most used first
+  poNumbers: string[]
+}
+
+export interface SupplierPO {
+  poNumber: string
+  shipments: Shipment[]
+  items: POItem[]
+}
+
+/**
+ * One scorecard per supplier, busiest first
+ */
+export function summarizeSuppliers(shipments: Shipment[]): SupplierSummary[] {
+  const groups = new Map<string, Shipment[]>()
+  shipments.forEach(shipment => {
+    const name = getSupplier(shipment)
+    groups.set(name, [...(groups.get(name) || []), shipment])
+  })
+
+  return Array.from(groups, ([name, group]) => summarizeSupplier(name, group))
+    .sort((a, b) => b.shipmentCount - a.shipmentCount || a.name.localeCompare(b.name))
+}
+
+function summarizeSupplier(name: string, shipments: Shipment[]): SupplierSummary {
+  const leadTimes = shipments.map(getLeadTimeDays).filter((days): days is number => days !== null)
+  const onTime = shipments.map(isOnTime).filter((value): value is boolean => value !== null)
+  const lateCount = onTime.filter(value => !value).length
+
+  const carrierCounts = new Map<string, number>()
+  shipments.forEach(shipment => {
+    if (shipment.slug) carrierCounts.set(shipment.slug, (carrierCounts.get(shipment.slug) || 0) + 1)
+  })
+
+  const deliveredCount = shipments.filter(shipment => shipment.tag === 'delivered').length
+  return {
+    name,
+    shipmentCount: shipments.length,
+    openCount: shipments.length - deliveredCount,
+    deliveredCount,
+    avgLeadTimeDays: leadTimes.length > 0
+      ? Math.round((leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length) * 10) / 10
+      : null,
+    lateCount,
+    lateRate: onTime.length > 0 ? lateCount / onTime.length : null,
+    carriers: Array.from(carrierCounts).sort((a, b) => b[1] - a[1]).map(([slug]) => slug),
+    poNumbers: [...new Set(shipments.map(shipment => shipment.po_number || '').filter(Boolean))].sort(),
+  }
+}
+
+/**
+ * A supplier's shipments grouped by PO, with the items ordered on each
+ */
+export function getSupplierPOs(supplier: string, shipments: Shipment[], poItemsMap: Map<string, POItem[]>): SupplierPO[] {
+  const pos = new Map<string, Shipment[]>()
+  shipments
+    .filter(shipment => getSupplier(shipment) === supplier)
+    .forEach(shipment => {
+      const poNumber = shipment.po_number || ''
+      pos.set(poNumber, [...(pos.get(poNumber) || []), shipment])
+    })
+
+  return Array.from(pos, ([poNumber, poShipments]) => ({
+    poNumber,
+    shipments: poShipments,
+    items: poNumber ? poItemsMap.get(poNumber.toLowerCase()) || [] : [],
+  })).sort((a, b) => a.poNumber.localeCompare(b.poNumber))
+}
@@ -0,0 +1,194 @@
+// Row-level validation of the CSV inputs, surfaced on the Data Quality page
+import type { ParsedCSV, AdditionalMatch } from './csvService'
+import { parseDate } from '../utils/dates'
+import { findCarrier, resolveCarrier, getCarrierName } from './carriers'
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationIssueCode =
+  | 'parse_error'
+  | 'missing_tracking_number'
+  | 'invalid_date'
+  | 'duplicate_tracking_number'
+  | 'unknown_carrier'
+  | 'carrier_mismatch'
+  | 'po_without_items'
+  | 'index_matched_additional_info'
+
+export interface ValidationIssue {
+  file: string
+  row: number // Line number in the file, counting the header as line 1
+  severity: ValidationSeverity
+  code: ValidationIssueCode
+  message: string
+  value?: string
+}
+
+export interface ValidationReport {
+  generatedAt: string
+  rowCounts: Record<string, number>
+  issues: ValidationIssue[]
+}
+
+interface ValidationInput {
+  shipments: { fileName: string; parsed: ParsedCSV }
+  additional: { fileName: string; parsed: ParsedCSV } | null
+  poItems: { fileName: string; parsed: ParsedCSV } | null
+  additionalMatches: AdditionalMatch[] // How each shipment row was joined to the additional info
+}
+
+export const ISSUE_LABELS: Record<ValidationIssueCode, string> = {
+  parse_error: 'Malformed row',
+  missing_tracking_number: 'Missing tracking number',
+  invalid_date: 'Unparseable date',
+  duplicate_tracking_number: 'Duplicate tracking number',
+  unknown_carrier: 'Unknown carrier',
+  carrier_mismatch: 'Carrier mismatch',
+  po_without_items: 'PO without items',
+  index_matched_additional_info: 'Matched by row position only',
+}
+
+const SHIPMENT_DATE_FIELDS = ['email_date', 'ship_date', 'estimated_delivery']
+const ADDITIONAL_DATE_FIELDS = ['requested_by_date']
+
+// Papa.parse row indexes are 0-based data rows; line 1 is the header
+const toLine = (index: number) => index + 2
+
+const checkParseErrors = (fileName: string, parsed: ParsedCSV): ValidationIssue[] =>
+  parsed.errors.map(error => ({
+    file: fileName,
+    row: error.row >= 0 ? toLine(error.row) : 0,
+    severity: 'error',
+    code: 'parse_error',
+    message: error.message,
+  }))
+
+const checkDates = (fileName: string, rows: any[], fields: string[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = []
+  rows.forEach((row, index) => {
+    fields.forEach(field => {
+      const value = (row[field] || '').trim()
+      if (value && !parseDate(value)) {
+        issues.push({
+          file: fileName,
+          row: toLine(index),
+          severity: 'error',
+          code: 'invalid_date',
+          message: `"${field}" is not a valid date`,
+          value,
+        })
+      }
+    })
+  })
+  return issues
+}
+
+/**
+ * Validate the parsed CSV files and return every problem found, by file and line
+ */
+export function validateCSVData({ shipments, additional, poItems, additionalMatches }: ValidationInput): ValidationReport {
+  const issues: ValidationIssue[] = []
+  const shipmentFile = shipments.fileName
+  const shipmentRows = shipments.parsed.data
+
+  issues.push(...checkParseErrors(shipmentFile, shipments.parsed))
+  if (additional) issues.push(...checkParseErrors(additional.fileName, additional.parsed))
+  if (poItems) issues.push(...checkParseErrors(poItems.fileName, poItems.parsed))
+
+  issues.push(...checkDates(shipmentFile, shipmentRows, SHIPMENT_DATE_FIELDS))
+  if (additional) issues.push(...checkDates(additional.fileName, additional.parsed.data, ADDITIONAL_DATE_FIELDS))
+
+  const poNumbersWithItems = new Set(
+    (poItems?.parsed.data || [])
+      .map((row: any) => (row.po_number || '').trim().toLowerCase())
+      .filter(Boolean)
+  )
+  const firstSeen = new Map<string, number>()
+
+  shipmentRows.forEach((row: any, index: number) => {
+    const line = toLine(index)
+    const trackingNumber = (row.tracking_number || '').trim()
+    const carrier = (row.carrier || '').trim()
+    const poNumber = (row.po_number || '').trim()
+
+    if (!trackingNumber) {
+      issues.push({
+        file: shipmentFile,
+        row: line,
+        severity: 'error',
+        code: 'missing_tracking_number',
+        message: 'Row has no tracking number and was skipped',
+        value: row.order_number || row.po_number || undefined,
+      })
+    } else {
+      const key = trackingNumber.toLowerCase()
+      if (firstSeen.has(key)) {
+        issues.push({
+          file: shipmentFile,
+          row: line,
+          severity: 'warning',
+          code: 'duplicate_tracking_number',
+          message: `Same tracking number as line ${firstSeen.get(key)}`,
+          value: trackingNumber,
+        })
+      } else {
+        firstSeen.set(key, line)
+      }
+    }
+
+    if (carrier && !findCarrier(carrier)) {
+      issues.push({
+        file: shipmentFile,
+        row: line,
+        severity: 'warning',
+        code: 'unknown_carrier',
+        message: 'Carrier is not recognized; tracking links fall back to a web search',
+        value: carrier,
+      })
+    } else if (carrier && trackingNumber) {
+      const resolution = resolveCarrier(carrier, trackingNumber)
+      if (resolution.mismatch) {
+        issues.push({
+          file: shipmentFile,
+          row: line,
+          severity: 'warning',
+          code: 'carrier_mismatch',
+          message: `Tracking number ${trackingNumber} looks like ${getCarrierName(resolution.detectedCarrier)}`,
+          value: carrier,
+        })
+      }
+    }
+
+    if (poNumber && poItems && poNumbersWithItems.size > 0 && !poNumbersWithItems.has(poNumber.toLowerCase())) {
+      issues.push({
+        file: shipmentFile,
+        row: line,
+        severity: 'warning',
+        code: 'po_without_items',
+        message: `No items found in ${poItems.fileName}`,
+        value: poNumber,
+      })
+    }
+
+    if (additionalMatches[index] === 'index' && additional) {
+      issues.push({
+        file: additional.fileName,
+        row: line,
+        severity: 'warning',
+        code: 'index_matched_additional_info',
+        message: `No order, tracking or PO number matched; attached to ${shipmentFile} line ${line} by position only`,
+        value: additional.parsed.data[index]?.job_name,
+      })
+    }
+  })
+
+  const rowCounts: Record<string, number> = { [shipmentFile]: shipmentRows.length }
+  if (additional) rowCounts[additional.fileName] = additional.parsed.data.length
+  if (poItems) rowCounts[poItems.fileName] = poItems.parsed.data.length
+
+  return {
+    generatedAt: new Date().toISOString(),
+    rowCounts,
+    issues: issues.sort((a, b) => a.file.localeCompare(b.file) || a.row - b.row),
+  }
+}
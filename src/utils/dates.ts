@@ -0,0 +1,2 @@
+// Date helpers shared by the services - the same ones the backend uses (see shared/dates.js)
+export { parseDate, startOfDay, daysBetween } from '../../shared/dates.js'
@@ -0,0 +1,23 @@
+// Shared display helpers for statuses, dates and column names
+
+// Status labels and dates are formatted the same way by the backend's alerts (see shared/format.js)
+export { getStatusLabel, formatDate } from '../../shared/format.js'
+
+export const getStatusColor = (tag: string) => {
+  switch (tag?.toLowerCase()) {
+    case 'delivered': return '#10b981'
+    case 'in_transit': return '#3b82f6'
+    case 'pending': return '#f59e0b'
+    case 'exception': return '#ef4444'
+    case 'out_for_delivery': return '#8b5cf6'
+    case 'overdue': return '#f97316'
+    case 'partially_received': return '#14b8a6'
+    default: return '#6b7280'
+  }
+}
+
+export const formatColumnName = (key: string): string => {
+  return key
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, l => l.toUpperCase())
+}
@@ -0,0 +1,135 @@
+// Client-side routing - pages, filters, sort and the open order live in the URL so views can be shared
+
+export type ViewMode = 'orders' | 'items'
+export type ItemSearchColumn = 'all' | 'item_name' | 'part_number' | 'description' | 'color' | 'quantity' | 'po_number'
+export type SortDirection = 'asc' | 'desc' | null
+
+export interface RouteState {
+  page: string
+  orderId: string | null // Tracking number of the order open in the details modal
+  detail: string | null // Entry open on a drill-down page, e.g. the supplier on /suppliers/:name, job on /jobs/:name or day on /calendar/:day
+  search: string
+  statuses: string[]
+  risks: string[]
+  carrier: string
+  sites: string[] // Sites every view is scoped to; empty for all
+  sortColumn: string | null
+  sortDirection: SortDirection
+  viewMode: ViewMode
+  itemSearchColumn: ItemSearchColumn
+}
+
+// Sidebar page id -> path
+const PAGE_PATHS: Record<string, string> = {
+  'tracking': '/tracking',
+  'order-history': '/history',
+  'analytics': '/analytics',
+  'import': '/import',
+  'data-quality': '/data-quality',
+  'suppliers': '/suppliers',
+  'jobs': '/jobs',
+  'receiving': '/receiving',
+  'activity': '/activity',
+  'map': '/map',
+  'calendar': '/calendar',
+}
+
+// Pages with a drill-down view at <page path>/:detail
+const DETAIL_PAGES = ['suppliers', 'jobs', 'receiving', 'calendar']
+
+const ORDER_PATH = /^\/orders\/([^/]+)\/?$/
+
+const ITEM_SEARCH_COLUMNS: ItemSearchColumn[] = ['all', 'item_name', 'part_number', 'description', 'color', 'quantity', 'po_number']
+
+const splitList = (value: string | null): string[] => (value ? value.split(',').filter(Boolean) : [])
+
+const readLocation = (pathname: string, search: string): RouteState => {
+  const params = new URLSearchParams(search)
+  const orderMatch = pathname.match(ORDER_PATH)
+  const path = pathname.replace(/\/$/, '')
+  const detailPage = DETAIL_PAGES.find(page => path.startsWith(`${PAGE_PATHS[page]}/`))
+  const pathPage = Object.keys(PAGE_PATHS).find(page => PAGE_PATHS[page] === path) || detailPage
+  const pathDetail = detailPage ? decodeURIComponent(path.slice(PAGE_PATHS[detailPage].length + 1)) : null
+
+  const direction = params.get('dir')
+  const itemColumn = params.get('col') as ItemSearchColumn | null
+
+  return {
+    // Order links remember the page they were opened from so closing the modal returns there
+    page: pathPage || (orderMatch && params.get('page')) || 'tracking',
+    orderId: orderMatch ? decodeURIComponent(orderMatch[1]) : null,
+    detail: pathDetail || (orderMatch && params.get('detail')) || null,
+    search: params.get('q') || '',
+    statuses: splitList(params.get('status')),
+    risks: splitList(params.get('risk')),
+    carrier: params.get('carrier') || '',
+    sites: params.getAll('site').filter(Boolean),
+    sortColumn: params.get('sort'),
+    sortDirection: direction === 'asc' || direction === 'desc' ? direction : null,
+    viewMode: params.get('view') === 'items' ? 'items' : 'orders',
+    itemSearchColumn: itemColumn && ITEM_SEARCH_COLUMNS.includes(itemColumn) ? itemColumn : 'all',
+  }
+}
+
+/**
+ * Read the route state from a URL path and query string
+ */
+export function parseLocation(pathname: string, search: string): RouteState {
+  try {
+    return readLocation(pathname, search)
+  } catch {
+    // A malformed escape in a hand-edited link (e.g. /suppliers/%E0) opens the default page
+    return readLocation('/', '')
+  }
+}
+
+/**
+ * Build the URL (path and query string) for a route state. Defaults are left out to keep links short.
+ */
+export function buildUrl(state: RouteState): string {
+  const params = new URLSearchParams()
+  if (state.search) params.set('q', state.search)
+  if (state.statuses.length > 0) params.set('status', state.statuses.join(','))
+  if (state.risks.length > 0) params.set('risk', state.risks.join(','))
+  if (state.carrier) params.set('carrier', state.carrier)
+  // Site names can contain commas, so each one is its own parameter
+  state.sites.forEach(site => params.append('site', site))
+  if (state.sortColumn && state.sortDirection) {
+    params.set('sort', state.sortColumn)
+    params.set('dir', state.sortDirection)
+  }
+  if (state.viewMode !== 'orders') params.set('view', state.viewMode)
+  if (state.itemSearchColumn !== 'all') params.set('col', state.itemSearchColumn)
+
+  let path = PAGE_PATHS[state.page] || PAGE_PATHS.tracking
+  const detail = DETAIL_PAGES.includes(state.page) ? state.detail : null
+  if (detail) {
+    path = `${path}/${encodeURIComponent(detail)}`
+  }
+  if (state.orderId) {
+    path = `/orders/${encodeURIComponent(state.orderId)}`
+    if (state.page !== 'tracking') params.set('page', state.page)
+    if (detail) params.set('detail', detail)
+  }
+
+  const query = params.toString()
+  return query ? `${path}?${query}` : path
+}
+
+/**
+ * Update the browser URL. Page and order changes add a history entry so Back works;
+ * filter and sort changes replace the current one.
+ */
+export function syncUrl(state: RouteState): void {
+  const url = buildUrl(state)
+  const current = window.location.pathname + window.location.search
+  if (url === current) return
+
+  const [path] = url.split('?')
+  // The bare root just redirects to the default page, so it doesn't need its own history entry
+  if (path !== window.location.pathname && window.location.pathname !== '/') {
+    window.history.pushState(null, '', url)
+  } else {
+    window.history.replaceState(null, '', url)
+  }
+}
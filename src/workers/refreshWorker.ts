@@ -0,0 +1,38 @@
+// Web Worker that reloads the shipments from every configured data source on a timer
+import { dataSourceService } from '../services/dataSources'
+import { setWorkerAccessToken } from '../services/auth'
+import type { RefreshWorkerRequest, RefreshWorkerResponse } from '../services/backgroundRefresh'
+
+// The DOM lib types `self` as a Window; inside a worker it is a DedicatedWorkerGlobalScope
+const ctx = self as unknown as Worker
+
+let timer: ReturnType<typeof setInterval> | null = null
+let loading = false
+
+const post = (message: RefreshWorkerResponse) => ctx.postMessage(message)
+
+async function refresh() {
+  // Skip a tick rather than overlap a slow load (e.g. AfterShip paging)
+  if (loading) return
+  loading = true
+  try {
+    const shipments = await dataSourceService.loadShipments()
+    post({ type: 'loaded', shipments, loadedAt: new Date().toISOString() })
+  } catch (error: any) {
+    post({ type: 'error', message: error.message || 'Failed to load tracking data' })
+  } finally {
+    loading = false
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<RefreshWorkerRequest>) => {
+  const message = event.data
+  if (timer) {
+    clearInterval(timer)
+    timer = null
+  }
+  if (message.type === 'start') {
+    setWorkerAccessToken(message.accessToken)
+    timer = setInterval(refresh, message.intervalMinutes * 60 * 1000)
+  }
+}
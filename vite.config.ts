@@ -11,6 +11,12 @@ export default defineConfig({
       '@': path.resolve(process.cwd(), 'src'),
     },
   },
+  server: {
+    // Forward API calls (e.g. Metabase token signing) to the local backend: npm run server
+    proxy: {
+      '/api': process.env.API_PROXY_TARGET || 'http://localhost:8787',
+    },
+  },
   build: {
     outDir: 'dist',
     emptyOutDir: true,